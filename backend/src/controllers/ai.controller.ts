@@ -0,0 +1,323 @@
+/**
+ * @file controllers/ai.controller.ts
+ * @description AI proxy: question generation, answer evaluation (with the
+ * answer guard), follow-ups, hints, model answers, translation, job
+ * description parsing, usage metering and the flagged answer log
+ */
+
+import { Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/error-handler';
+import { AuthRequest } from '../middleware/auth';
+import {
+  AnswerEvaluation,
+  AnswerEvaluationRequest,
+  evaluateAnswer,
+  evaluateAnswerStream,
+  generateFollowUp,
+  generateHint,
+  generateModelAnswer,
+  generateQuestions,
+  parseJobDescription,
+  translateTexts,
+} from '../services/gemini';
+import {
+  AI_QUOTAS,
+  TokenUsage,
+  getUsageHistory,
+  getUsageSummary as summarizeUsage,
+  settleUsage,
+} from '../services/ai-usage';
+import { AnswerFlag, getAnswerFlags as listAnswerFlags, recordAnswerFlag } from '../services/answer-flags';
+import { combineFlags, getCappedScore, inspectAnswer, skipsGrading } from '../services/answer-guard';
+import { CodeExecutionResult, CodeLanguage, runCode } from '../services/code-runner';
+import { getChallenge, saveChallenge } from '../services/coding-challenges';
+
+/**
+ * Settle the call reserved by enforceAiQuota with its real token usage.
+ * Metering failures are logged, not surfaced: the user already got the answer.
+ */
+const meter = async (req: AuthRequest, usage: TokenUsage): Promise<void> => {
+  try {
+    await settleUsage(req.aiReservation!, usage);
+  } catch (error) {
+    console.error('Failed to record AI usage:', { userId: req.userId, operation: req.aiReservation?.operation, error });
+  }
+};
+
+interface EvaluationBody extends Omit<AnswerEvaluationRequest, 'codeExecution'> {
+  challengeId?: string;
+  codeLanguage?: CodeLanguage;
+  priorAnswers?: string[]; // Earlier answers in the question's thread
+  sessionId?: string;
+}
+
+/**
+ * Answer guard flags raised by the answer text alone
+ */
+const inspectBody = ({ answer, question, questionType, priorAnswers }: EvaluationBody): AnswerFlag[] =>
+  inspectAnswer(answer, question, { priorAnswers, isCoding: questionType === 'coding' });
+
+/**
+ * Log a flagged answer for admins. Failures are logged, not surfaced: the
+ * candidate's interview carries on.
+ */
+const logFlags = async (req: AuthRequest, flags: AnswerFlag[], samples: AnswerEvaluation[]): Promise<void> => {
+  if (flags.length === 0) return;
+  const { sessionId, question, answer } = req.body as EvaluationBody;
+
+  try {
+    await recordAnswerFlag(req.userId!, {
+      ...(sessionId ? { sessionId } : {}),
+      question,
+      answer,
+      flags,
+      score: getCappedScore(flags, samples),
+    });
+  } catch (error) {
+    console.error('Failed to log flagged answer:', { userId: req.userId, flags, error });
+  }
+};
+
+/**
+ * Run a coding answer against its challenge's stored tests. A runner
+ * failure is logged and the answer graded on its text, as when there are
+ * no tests.
+ */
+const executeAnswer = async ({
+  challengeId,
+  codeLanguage,
+  answer,
+}: EvaluationBody): Promise<CodeExecutionResult | undefined> => {
+  if (!challengeId || !codeLanguage) return undefined;
+
+  const { functionName, testCases } = await getChallenge(challengeId);
+  try {
+    return await runCode(codeLanguage, answer, functionName, testCases);
+  } catch (error) {
+    console.error('Code execution failed:', { challengeId, error });
+    return undefined;
+  }
+};
+
+/**
+ * The grader's request, built field by field so test results can only come
+ * from the server's own run
+ */
+const toEvaluationRequest = (
+  { skills, question, answer, questionType, referenceAnswer, language }: EvaluationBody,
+  codeExecution?: CodeExecutionResult
+): AnswerEvaluationRequest => ({
+  skills,
+  question,
+  answer,
+  questionType,
+  ...(referenceAnswer ? { referenceAnswer } : {}),
+  ...(language ? { language } : {}),
+  ...(codeExecution ? { codeExecution } : {}),
+});
+
+/**
+ * Hidden tests are stored server-side; the client gets the challenge id
+ */
+export const createQuestions = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { questions: generated, usage } = await generateQuestions(req.body);
+    await meter(req, usage);
+
+    const questions = await Promise.all(
+      generated.map(async ({ challenge, ...question }) =>
+        challenge ? { ...question, challenge: await saveChallenge(challenge) } : question
+      )
+    );
+
+    res.status(200).json({
+      success: true,
+      questions,
+    });
+  }
+);
+
+/**
+ * Responds with every grading sample (`evaluations`), metered as one
+ * request, and the answer guard's `flags`. Empty and copied answers are not
+ * graded (no samples, no model call). Coding answers (`challengeId` and
+ * `codeLanguage`) are run against the hidden tests first; the results are
+ * graded and returned as `codeExecution`. Flagged answers are logged.
+ */
+export const createEvaluation = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const textFlags = inspectBody(req.body);
+    if (skipsGrading(textFlags)) {
+      await logFlags(req, textFlags, []);
+      res.status(200).json({ success: true, evaluations: [], flags: textFlags });
+      return;
+    }
+
+    const codeExecution = await executeAnswer(req.body);
+    const { evaluations, usage } = await evaluateAnswer(toEvaluationRequest(req.body, codeExecution));
+    await meter(req, usage);
+
+    const flags = combineFlags(textFlags, evaluations);
+    await logFlags(req, flags, evaluations);
+
+    res.status(200).json({
+      success: true,
+      evaluations,
+      flags,
+      ...(codeExecution ? { codeExecution } : {}),
+    });
+  }
+);
+
+/**
+ * Server-sent events: `feedback` with the first sample's feedback text so
+ * far, then one `result` with `evaluations` and `flags` (and
+ * `codeExecution`, as above), or `error` if the stream fails midway.
+ * Failures before the first event are plain JSON errors.
+ */
+export const streamEvaluation = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const send = (event: string, data: object): void => {
+      if (!res.headersSent) {
+        res.status(200).set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        res.flushHeaders();
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const textFlags = inspectBody(req.body);
+    if (skipsGrading(textFlags)) {
+      await logFlags(req, textFlags, []);
+      send('result', { evaluations: [], flags: textFlags });
+      res.end();
+      return;
+    }
+
+    const codeExecution = await executeAnswer(req.body);
+
+    try {
+      const { evaluations, usage } = await evaluateAnswerStream(
+        toEvaluationRequest(req.body, codeExecution),
+        (feedback) => send('feedback', { feedback })
+      );
+      await meter(req, usage);
+
+      const flags = combineFlags(textFlags, evaluations);
+      await logFlags(req, flags, evaluations);
+
+      send('result', { evaluations, flags, ...(codeExecution ? { codeExecution } : {}) });
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) throw error;
+
+      send('error', {
+        error: error instanceof AppError ? error.message : 'Evaluation failed',
+        ...(error instanceof AppError && error.code ? { code: error.code } : {}),
+      });
+      res.end();
+    }
+  }
+);
+
+export const createFollowUp = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { question, usage } = await generateFollowUp(req.body);
+    await meter(req, usage);
+
+    res.status(200).json({
+      success: true,
+      question,
+    });
+  }
+);
+
+export const createModelAnswer = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { modelAnswer, usage } = await generateModelAnswer(req.body);
+    await meter(req, usage);
+
+    res.status(200).json({
+      success: true,
+      modelAnswer,
+    });
+  }
+);
+
+export const createHint = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { hint, usage } = await generateHint(req.body);
+    await meter(req, usage);
+
+    res.status(200).json({
+      success: true,
+      hint,
+    });
+  }
+);
+
+export const createTranslation = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { texts, usage } = await translateTexts(req.body);
+    await meter(req, usage);
+
+    res.status(200).json({
+      success: true,
+      texts,
+    });
+  }
+);
+
+export const createJobRequirements = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { requirements, usage } = await parseJobDescription(req.body.description);
+    await meter(req, usage);
+
+    res.status(200).json({
+      success: true,
+      requirements,
+    });
+  }
+);
+
+export const getMyUsage = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const tier = req.userTier || 'free';
+    const history = await getUsageHistory(req.userId!, tier);
+
+    res.status(200).json({
+      success: true,
+      usage: {
+        tier,
+        quota: AI_QUOTAS[tier],
+        today: history[0],
+        history,
+      },
+    });
+  }
+);
+
+export const getUsageSummary = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const summary = await summarizeUsage(req.query.date as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      summary,
+    });
+  }
+);
+
+export const getAnswerFlags = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const flags = await listAnswerFlags(req.query.date as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      flags,
+    });
+  }
+);
@@ -0,0 +1,24 @@
+/**
+ * @file controllers/code.controller.ts
+ * @description Sandboxed execution of coding-question solutions
+ */
+
+import { Response } from 'express';
+import { asyncHandler } from '../middleware/error-handler';
+import { AuthRequest } from '../middleware/auth';
+import { runCode } from '../services/code-runner';
+import { getChallenge } from '../services/coding-challenges';
+
+export const executeCode = asyncHandler(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { challengeId, language, code } = req.body;
+
+    const { functionName, testCases } = await getChallenge(challengeId);
+    const result = await runCode(language, code, functionName, testCases);
+
+    res.status(200).json({
+      success: true,
+      result,
+    });
+  }
+);
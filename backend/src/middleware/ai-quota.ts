@@ -0,0 +1,32 @@
+/**
+ * @file middleware/ai-quota.ts
+ * @description Reserves an AI call against the user's daily quota, rejecting
+ * it once the quota is used up
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { AiOperation, releaseQuota, reserveQuota } from '../services/ai-usage';
+
+/**
+ * The reservation is left on `req.aiReservation` for the controller to
+ * settle with the call's token usage. One never settled (the call failed or
+ * the client went away) is released when the response closes.
+ */
+export const enforceAiQuota =
+  (operation: AiOperation) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const reservation = await reserveQuota(req.userId!, req.userTier || 'free', operation);
+      req.aiReservation = reservation;
+
+      res.on('close', () => {
+        releaseQuota(reservation).catch((error) =>
+          console.error('Failed to release AI quota:', { userId: req.userId, operation, error })
+        );
+      });
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
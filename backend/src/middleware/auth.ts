@@ -6,10 +6,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { getAuth } from '../config/firebase';
 import { AppError } from './error-handler';
+import type { QuotaReservation } from '../services/ai-usage';
+
+export type UserTier = 'free' | 'paid';
 
 export interface AuthRequest extends Request {
   userId?: string;
   userEmail?: string;
+  userTier?: UserTier; // From the `tier` custom claim, free by default
+  isAdmin?: boolean; // From the `admin` custom claim
+  aiReservation?: QuotaReservation; // Set by enforceAiQuota on AI routes
 }
 
 export const authenticate = async (
@@ -30,6 +36,8 @@ export const authenticate = async (
     const decodedToken = await auth.verifyIdToken(token);
     req.userId = decodedToken.uid;
     req.userEmail = decodedToken.email;
+    req.userTier = decodedToken.tier === 'paid' ? 'paid' : 'free';
+    req.isAdmin = decodedToken.admin === true;
 
     next();
   } catch (error: any) {
@@ -42,3 +50,11 @@ export const authenticate = async (
     }
   }
 };
+
+export const requireAdmin = (req: AuthRequest, _res: Response, next: NextFunction): void => {
+  if (!req.isAdmin) {
+    next(new AppError('Admin access required', 403));
+    return;
+  }
+  next();
+};
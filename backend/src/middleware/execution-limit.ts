@@ -0,0 +1,25 @@
+/**
+ * @file middleware/execution-limit.ts
+ * @description Per-user budget for runs of candidate code
+ */
+
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthRequest } from './auth';
+
+/**
+ * Each run spawns a sandboxed process, so it gets a tighter limit than the
+ * AI routes. One instance (and so one count per user) covers every route
+ * that runs code: `/code/execute` and coding answers sent for evaluation.
+ * Mount it after `authenticate` and the request validator.
+ */
+export const executionLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.CODE_EXECUTION_MAX_PER_MINUTE || '10'),
+  keyGenerator: (req: Request) => (req as AuthRequest).userId || req.ip || 'anonymous',
+  // Only requests naming a challenge run code (evaluations of other answers don't)
+  skip: (req: Request) => !req.body?.challengeId,
+  message: { success: false, error: 'Too many code executions, please wait a minute.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
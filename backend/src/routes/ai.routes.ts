@@ -0,0 +1,83 @@
+/**
+ * @file routes/ai.routes.ts
+ * @description AI proxy routes (the Gemini key stays on the server)
+ */
+
+import { Router, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { enforceAiQuota } from '../middleware/ai-quota';
+import { executionLimiter } from '../middleware/execution-limit';
+import { requestValidator } from '../middleware/request-validator';
+import {
+  evaluateAnswerSchema,
+  followUpSchema,
+  hintSchema,
+  translateSchema,
+  modelAnswerSchema,
+  jobDescriptionSchema,
+  generateQuestionsSchema,
+  usageSummarySchema,
+} from '../validators/ai.validator';
+import {
+  createEvaluation,
+  createFollowUp,
+  createHint,
+  createTranslation,
+  createModelAnswer,
+  createJobRequirements,
+  createQuestions,
+  streamEvaluation,
+  getMyUsage,
+  getUsageSummary,
+  getAnswerFlags,
+} from '../controllers/ai.controller';
+
+const router = Router();
+
+// Every call costs model tokens, so limits are per user rather than per IP
+const aiLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.AI_MAX_REQUESTS_PER_MINUTE || '20'),
+  keyGenerator: (req: Request) => (req as AuthRequest).userId || req.ip || 'anonymous',
+  message: { success: false, error: 'Too many AI requests, please wait a minute.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(authenticate);
+
+// Generate interview questions
+router.post('/questions', aiLimiter, requestValidator(generateQuestionsSchema), enforceAiQuota('questions'), createQuestions);
+
+// Evaluate a candidate's answer (coding answers also count as code runs)
+router.post('/evaluate', aiLimiter, requestValidator(evaluateAnswerSchema), executionLimiter, enforceAiQuota('evaluate'), createEvaluation);
+
+// Evaluate with the feedback streamed as server-sent events
+router.post('/evaluate/stream', aiLimiter, requestValidator(evaluateAnswerSchema), executionLimiter, enforceAiQuota('evaluate'), streamEvaluation);
+
+// Probing follow-up for a vague answer
+router.post('/follow-up', aiLimiter, requestValidator(followUpSchema), enforceAiQuota('followUp'), createFollowUp);
+
+// Exemplary answer and its key concepts, for the results review
+router.post('/model-answer', aiLimiter, requestValidator(modelAnswerSchema), enforceAiQuota('modelAnswer'), createModelAnswer);
+
+// Tiered hint (nudge, approach, partial solution) for a stuck candidate
+router.post('/hint', aiLimiter, requestValidator(hintSchema), enforceAiQuota('hint'), createHint);
+
+// Curated interview texts in the candidate's interview language
+router.post('/translate', aiLimiter, requestValidator(translateSchema), enforceAiQuota('translate'), createTranslation);
+
+// Required skills, seniority and responsibilities of a job posting
+router.post('/job-description', aiLimiter, requestValidator(jobDescriptionSchema), enforceAiQuota('jobDescription'), createJobRequirements);
+
+// Caller's usage today and for the past week, with their tier's quota
+router.get('/usage', getMyUsage);
+
+// Usage totals across all users for a day (admins only)
+router.get('/usage/summary', requireAdmin, requestValidator(usageSummarySchema), getUsageSummary);
+
+// Flagged answers for a day (admins only)
+router.get('/flags', requireAdmin, requestValidator(usageSummarySchema), getAnswerFlags);
+
+export default router;
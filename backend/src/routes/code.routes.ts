@@ -0,0 +1,24 @@
+/**
+ * @file routes/code.routes.ts
+ * @description Code execution API routes
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { executionLimiter } from '../middleware/execution-limit';
+import { requestValidator } from '../middleware/request-validator';
+import { executeCodeSchema } from '../validators/code.validator';
+import { executeCode } from '../controllers/code.controller';
+
+const router = Router();
+
+// Run a solution against a challenge's stored hidden tests
+router.post(
+  '/execute',
+  authenticate,
+  requestValidator(executeCodeSchema),
+  executionLimiter,
+  executeCode
+);
+
+export default router;
@@ -0,0 +1,76 @@
+/**
+ * @file scripts/evaluation-regression.ts
+ * @description Records live grader samples for the evaluation regression check
+ * Grades every fixture in `fixtures/evaluation-regression.json` with the live
+ * evaluation prompt (one request, AI_EVALUATION_SAMPLES samples, as the web
+ * app gets) and stores each sample's score, rubric and flags on the fixture
+ * as `recordedSamples`. The check itself is offline: the web app's test
+ * suite replays the recorded samples through its rubric scoring and
+ * aggregation and fails when a fixture's score drifts outside its tolerance.
+ *
+ * Usage: npm run eval:regression -- [--only <fixtureId>]
+ * Needs GEMINI_API_KEY; every fixture is a billed request. Review the
+ * fixture diff (and `npm test` at the repo root) before committing it.
+ */
+
+import 'dotenv/config';
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { evaluateAnswer } from '../services/gemini';
+import type { AnswerEvaluation, AnswerEvaluationRequest } from '../services/gemini';
+
+type RecordedSample = Pick<AnswerEvaluation, 'score' | 'rubric' | 'flags'>;
+
+interface RegressionFixture extends AnswerEvaluationRequest {
+  id: string;
+  expectedScore: number;
+  tolerance: number;
+  recordedSamples?: RecordedSample[];
+}
+
+const FIXTURES_PATH = path.resolve(__dirname, '../../fixtures/evaluation-regression.json');
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const record = async ({ skills, question, answer, questionType }: RegressionFixture): Promise<RecordedSample[]> => {
+  const { evaluations } = await evaluateAnswer({ skills, question, answer, questionType });
+
+  return evaluations.map(({ score, rubric, flags }) => ({
+    score,
+    rubric,
+    ...(flags && flags.length > 0 ? { flags } : {}),
+  }));
+};
+
+const main = async (): Promise<void> => {
+  const only = getArg('only');
+  const fixtures = JSON.parse(readFileSync(FIXTURES_PATH, 'utf8')) as RegressionFixture[];
+  const selected = fixtures.filter((f) => !only || f.id === only);
+
+  if (selected.length === 0) {
+    console.error(only ? `No fixture with id "${only}"` : 'No fixtures found');
+    process.exit(1);
+  }
+
+  // Sequential on purpose: each request already grades its samples in parallel
+  for (const fixture of selected) {
+    try {
+      fixture.recordedSamples = await record(fixture);
+      console.log(
+        `${fixture.id.padEnd(28)} expected ${fixture.expectedScore} ` +
+          `raw [${fixture.recordedSamples.map((s) => s.score).join(', ')}]`
+      );
+    } catch (error) {
+      console.error(`ERROR ${fixture.id}: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  writeFileSync(FIXTURES_PATH, `${JSON.stringify(fixtures, null, 2)}\n`);
+  console.log(`\nRecorded ${selected.length} fixture(s); run npm test at the repo root to check them`);
+};
+
+main();
@@ -16,6 +16,8 @@ import bookingRoutes from './routes/booking.routes';
 import paymentRoutes from './routes/payment.routes';
 import userRoutes from './routes/user.routes';
 import availabilityRoutes from './routes/availability.routes';
+import codeRoutes from './routes/code.routes';
+import aiRoutes from './routes/ai.routes';
 import { errorHandler } from './middleware/error-handler';
 // Request validator middleware available if needed
 // import { requestValidator } from './middleware/request-validator';
@@ -103,6 +105,8 @@ app.use('/api/bookings', bookingRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/availability', availabilityRoutes);
+app.use('/api/code', codeRoutes);
+app.use('/api/ai', aiRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
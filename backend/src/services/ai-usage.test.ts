@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type Doc = Record<string, unknown>;
+
+// In-memory stand-in for the usage documents: merge writes with increments,
+// and transactions that run one at a time as Firestore serializes them
+const docs = new Map<string, Doc>();
+let queue: Promise<unknown> = Promise.resolve();
+
+const merge = (target: Doc, update: Doc): Doc => {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(update)) {
+    if (value && typeof value === 'object' && 'increment' in value) {
+      result[key] = ((result[key] as number) || 0) + (value as { increment: number }).increment;
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+      result[key] = merge((result[key] as Doc) || {}, value as Doc);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+const docRef = (id: string) => ({
+  id,
+  get: async () => ({ data: () => docs.get(id) }),
+  set: async (update: Doc) => {
+    docs.set(id, merge(docs.get(id) || {}, update));
+  },
+});
+
+const db = {
+  collection: () => ({ doc: docRef }),
+  runTransaction: (fn: (transaction: object) => Promise<unknown>) => {
+    const run = queue.then(() =>
+      fn({
+        get: (ref: ReturnType<typeof docRef>) => ref.get(),
+        set: (ref: ReturnType<typeof docRef>, update: Doc) => ref.set(update),
+      })
+    );
+    queue = run.catch(() => undefined);
+    return run;
+  },
+};
+
+jest.mock('../config/firebase', () => ({
+  admin: { firestore: { FieldValue: { increment: (increment: number) => ({ increment }) } } },
+  getFirestore: () => db,
+}));
+
+import { releaseQuota, reserveQuota, settleUsage } from './ai-usage';
+
+const USAGE = { promptTokens: 300, outputTokens: 200, totalTokens: 500 };
+const today = () => `user-1_${new Date().toISOString().slice(0, 10)}`;
+
+describe('AI quota reservations', () => {
+  beforeEach(() => {
+    docs.clear();
+  });
+
+  it('lets only the calls left in the quota through when requests race', async () => {
+    docs.set(today(), { calls: 58, totalTokens: 0 }); // Free plan: 60 calls a day
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => reserveQuota('user-1', 'free', 'evaluate'))
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({
+      reason: { statusCode: 429, code: 'QUOTA_EXCEEDED' },
+    });
+    expect(docs.get(today())).toMatchObject({ calls: 60, reservedTokens: 8000 });
+  });
+
+  it('counts reserved tokens of calls still in flight', async () => {
+    docs.set(today(), { calls: 0, totalTokens: 146000 }); // Free plan: 150000 tokens a day
+
+    await reserveQuota('user-1', 'free', 'evaluate');
+
+    await expect(reserveQuota('user-1', 'free', 'evaluate')).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it('settles the real token count in place of the reservation', async () => {
+    const reservation = await reserveQuota('user-1', 'free', 'hint');
+    await settleUsage(reservation, USAGE);
+    await releaseQuota(reservation);
+
+    expect(docs.get(today())).toMatchObject({
+      calls: 1,
+      reservedTokens: 0,
+      totalTokens: 500,
+      operations: { hint: 1 },
+    });
+  });
+
+  it('gives back a failed call, and counts it again if it finishes after all', async () => {
+    const reservation = await reserveQuota('user-1', 'free', 'hint');
+    await releaseQuota(reservation);
+
+    expect(docs.get(today())).toMatchObject({ calls: 0, reservedTokens: 0, operations: { hint: 0 } });
+
+    await settleUsage(reservation, USAGE);
+
+    expect(docs.get(today())).toMatchObject({ calls: 1, reservedTokens: 0, totalTokens: 500 });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * @file services/ai-usage.ts
+ * @description Per-user AI metering and tier-based daily quotas
+ * One `ai_usage` document per user per UTC day (`<userId>_<YYYY-MM-DD>`)
+ * holds call and token counts. Each call is reserved in a transaction before
+ * it reaches the model (the call plus an estimate of its tokens), so parallel
+ * requests cannot all pass the quota check; the real token count is settled
+ * once the call returns, and failed calls give their reservation back.
+ */
+
+import { admin, getFirestore } from '../config/firebase';
+import { AppError } from '../middleware/error-handler';
+import type { UserTier } from '../middleware/auth';
+
+export type AiOperation = 'questions' | 'evaluate' | 'followUp' | 'modelAnswer' | 'jobDescription' | 'hint' | 'translate';
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AiQuota {
+  dailyCalls: number;
+  dailyTokens: number;
+}
+
+export interface DailyAiUsage extends TokenUsage {
+  userId: string;
+  date: string; // YYYY-MM-DD (UTC)
+  tier: UserTier;
+  calls: number;
+  operations: Record<AiOperation, number>;
+}
+
+/**
+ * A call counted against today's quota whose tokens are not known yet
+ */
+export interface QuotaReservation {
+  userId: string;
+  date: string;
+  operation: AiOperation;
+  tokens: number; // Held in `reservedTokens` until settled or released
+  status: 'pending' | 'settled' | 'released';
+}
+
+export interface AiUsageSummary {
+  date: string;
+  users: number;
+  calls: number;
+  totalTokens: number;
+  byTier: Record<UserTier, { users: number; calls: number; totalTokens: number }>;
+  byOperation: Record<AiOperation, number>;
+  topUsers: { userId: string; tier: UserTier; calls: number; totalTokens: number }[];
+}
+
+const COLLECTION = 'ai_usage';
+// Tokens held per in-flight call until its real count is known
+const RESERVED_TOKENS = parseInt(process.env.AI_RESERVED_TOKENS || '4000');
+const HISTORY_DAYS = 7;
+const TOP_USERS = 10;
+
+export const AI_QUOTAS: Record<UserTier, AiQuota> = {
+  free: {
+    dailyCalls: parseInt(process.env.AI_FREE_DAILY_CALLS || '60'),
+    dailyTokens: parseInt(process.env.AI_FREE_DAILY_TOKENS || '150000'),
+  },
+  paid: {
+    dailyCalls: parseInt(process.env.AI_PAID_DAILY_CALLS || '600'),
+    dailyTokens: parseInt(process.env.AI_PAID_DAILY_TOKENS || '2000000'),
+  },
+};
+
+const toDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const getDocId = (userId: string, date: string): string => `${userId}_${date}`;
+
+const getUsageRef = (userId: string, date: string) =>
+  getFirestore().collection(COLLECTION).doc(getDocId(userId, date));
+
+const emptyUsage = (userId: string, date: string, tier: UserTier): DailyAiUsage => ({
+  userId,
+  date,
+  tier,
+  calls: 0,
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  operations: { questions: 0, evaluate: 0, followUp: 0, modelAnswer: 0, jobDescription: 0, hint: 0, translate: 0 },
+});
+
+const fromDoc = (
+  data: FirebaseFirestore.DocumentData | undefined,
+  userId: string,
+  date: string,
+  tier: UserTier
+): DailyAiUsage => {
+  const empty = emptyUsage(userId, date, tier);
+  if (!data) return empty;
+
+  return {
+    ...empty,
+    tier: data.tier === 'paid' ? 'paid' : 'free',
+    calls: data.calls || 0,
+    promptTokens: data.promptTokens || 0,
+    outputTokens: data.outputTokens || 0,
+    totalTokens: data.totalTokens || 0,
+    operations: { ...empty.operations, ...(data.operations || {}) },
+  };
+};
+
+export const getDailyUsage = async (
+  userId: string,
+  tier: UserTier,
+  date: string = toDate(Date.now())
+): Promise<DailyAiUsage> => {
+  const snapshot = await getUsageRef(userId, date).get();
+  return fromDoc(snapshot.data(), userId, date, tier);
+};
+
+/**
+ * Today's usage plus the previous days, most recent first
+ */
+export const getUsageHistory = async (userId: string, tier: UserTier): Promise<DailyAiUsage[]> => {
+  const db = getFirestore();
+  const dates = Array.from({ length: HISTORY_DAYS }, (_, i) => toDate(Date.now() - i * 86400000));
+  const snapshots = await db.getAll(
+    ...dates.map((date) => db.collection(COLLECTION).doc(getDocId(userId, date)))
+  );
+
+  return snapshots.map((snapshot, i) => fromDoc(snapshot.data(), userId, dates[i], tier));
+};
+
+/**
+ * Reserve a call against today's quota, rejecting it once today's calls or
+ * tokens (counting those reserved by calls still in flight) reach the tier's
+ * quota. Reservations left by a crashed process only hold until midnight UTC.
+ */
+export const reserveQuota = async (
+  userId: string,
+  tier: UserTier,
+  operation: AiOperation
+): Promise<QuotaReservation> => {
+  const date = toDate(Date.now());
+  const ref = getUsageRef(userId, date);
+  const quota = AI_QUOTAS[tier];
+  const increment = admin.firestore.FieldValue.increment;
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const usage = fromDoc(snapshot.data(), userId, date, tier);
+    const reservedTokens: number = snapshot.data()?.reservedTokens || 0;
+
+    if (usage.calls >= quota.dailyCalls || usage.totalTokens + reservedTokens >= quota.dailyTokens) {
+      throw new AppError(
+        `Daily AI quota reached for the ${tier} plan (${quota.dailyCalls} calls or ${quota.dailyTokens} tokens). It resets at midnight UTC.`,
+        429,
+        'QUOTA_EXCEEDED'
+      );
+    }
+
+    transaction.set(
+      ref,
+      {
+        userId,
+        date,
+        tier,
+        calls: increment(1),
+        reservedTokens: increment(RESERVED_TOKENS),
+        operations: { [operation]: increment(1) },
+        updatedAt: new Date(),
+      },
+      { merge: true }
+    );
+  });
+
+  return { userId, date, operation, tokens: RESERVED_TOKENS, status: 'pending' };
+};
+
+/**
+ * Replace a reservation's token estimate with the call's real usage. A call
+ * whose reservation was already released (the client went away mid-call) is
+ * counted again, since the model still did the work.
+ */
+export const settleUsage = async (reservation: QuotaReservation, usage: TokenUsage): Promise<void> => {
+  const wasReleased = reservation.status === 'released';
+  if (reservation.status === 'settled') return;
+  reservation.status = 'settled';
+  const increment = admin.firestore.FieldValue.increment;
+
+  await getUsageRef(reservation.userId, reservation.date).set(
+    {
+      promptTokens: increment(usage.promptTokens),
+      outputTokens: increment(usage.outputTokens),
+      totalTokens: increment(usage.totalTokens),
+      ...(wasReleased
+        ? { calls: increment(1), operations: { [reservation.operation]: increment(1) } }
+        : { reservedTokens: increment(-reservation.tokens) }),
+      updatedAt: new Date(),
+    },
+    { merge: true }
+  );
+};
+
+/**
+ * Give back the call and tokens of a reservation that was never settled
+ */
+export const releaseQuota = async (reservation: QuotaReservation): Promise<void> => {
+  if (reservation.status !== 'pending') return;
+  reservation.status = 'released';
+  const increment = admin.firestore.FieldValue.increment;
+
+  await getUsageRef(reservation.userId, reservation.date).set(
+    {
+      calls: increment(-1),
+      reservedTokens: increment(-reservation.tokens),
+      operations: { [reservation.operation]: increment(-1) },
+      updatedAt: new Date(),
+    },
+    { merge: true }
+  );
+};
+
+/**
+ * Totals across all users for one day (admin dashboards)
+ */
+export const getUsageSummary = async (date: string = toDate(Date.now())): Promise<AiUsageSummary> => {
+  const snapshot = await getFirestore().collection(COLLECTION).where('date', '==', date).get();
+  const days = snapshot.docs.map((doc) => fromDoc(doc.data(), doc.data().userId, date, 'free'));
+
+  const summary: AiUsageSummary = {
+    date,
+    users: days.length,
+    calls: 0,
+    totalTokens: 0,
+    byTier: {
+      free: { users: 0, calls: 0, totalTokens: 0 },
+      paid: { users: 0, calls: 0, totalTokens: 0 },
+    },
+    byOperation: { questions: 0, evaluate: 0, followUp: 0, modelAnswer: 0, jobDescription: 0, hint: 0, translate: 0 },
+    topUsers: [],
+  };
+
+  for (const day of days) {
+    summary.calls += day.calls;
+    summary.totalTokens += day.totalTokens;
+    summary.byTier[day.tier].users += 1;
+    summary.byTier[day.tier].calls += day.calls;
+    summary.byTier[day.tier].totalTokens += day.totalTokens;
+    for (const operation of Object.keys(summary.byOperation) as AiOperation[]) {
+      summary.byOperation[operation] += day.operations[operation];
+    }
+  }
+
+  summary.topUsers = [...days]
+    .sort((a, b) => b.totalTokens - a.totalTokens)
+    .slice(0, TOP_USERS)
+    .map(({ userId, tier, calls, totalTokens }) => ({ userId, tier, calls, totalTokens }));
+
+  return summary;
+};
@@ -0,0 +1,60 @@
+/**
+ * @file services/answer-flags.ts
+ * @description Log of interview answers flagged by the answer guard while
+ * they were evaluated (instructions aimed at the grader, abusive, off-topic,
+ * empty or copied answers), one `answer_flags` document per flagged answer,
+ * for admins to review
+ */
+
+import { getFirestore } from '../config/firebase';
+
+export type AnswerFlag = 'injection' | 'abusive' | 'off-topic' | 'empty' | 'copied';
+
+export interface AnswerFlagReport {
+  sessionId?: string;
+  question: string;
+  answer: string;
+  flags: AnswerFlag[];
+  score: number; // Grader's mean score, capped by the flags
+}
+
+export interface AnswerFlagEvent extends AnswerFlagReport {
+  id: string;
+  userId: string;
+  date: string; // YYYY-MM-DD (UTC)
+  createdAt: string; // ISO timestamp
+}
+
+const COLLECTION = 'answer_flags';
+// Enough of the answer to judge the flag without storing whole essays
+const ANSWER_EXCERPT_LENGTH = 2000;
+
+const toDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const recordAnswerFlag = async (userId: string, report: AnswerFlagReport): Promise<void> => {
+  const now = Date.now();
+
+  await getFirestore()
+    .collection(COLLECTION)
+    .add({
+      userId,
+      ...(report.sessionId ? { sessionId: report.sessionId } : {}),
+      question: report.question,
+      answer: report.answer.slice(0, ANSWER_EXCERPT_LENGTH),
+      flags: report.flags,
+      score: report.score,
+      date: toDate(now),
+      createdAt: new Date(now).toISOString(),
+    });
+};
+
+/**
+ * Flagged answers for one day, newest first (admin review)
+ */
+export const getAnswerFlags = async (date: string = toDate(Date.now())): Promise<AnswerFlagEvent[]> => {
+  const snapshot = await getFirestore().collection(COLLECTION).where('date', '==', date).get();
+
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as AnswerFlagEvent)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
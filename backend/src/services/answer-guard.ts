@@ -0,0 +1,114 @@
+/**
+ * @file services/answer-guard.ts
+ * @description Guard against answers that game or dodge the grader
+ * Before grading, the answer text is checked for instructions aimed at the
+ * grader, abusive language, empty answers and text copied from the question
+ * or an earlier answer; empty and copied answers are not graded at all.
+ * After grading, the flags a majority of the grading samples raised
+ * (injection, abuse, off topic) are added. Runs on every evaluation request,
+ * so a modified client cannot skip it.
+ *
+ * The injection and abuse patterns are English only. Answers in the other
+ * interview languages (es, fr, de, pt) get only the language-neutral checks
+ * here (markup and JSON aimed at the grader, empty and copied answers) and
+ * rely on the grader's own flags, which it raises in any language.
+ */
+
+import type { AnswerEvaluation } from './gemini';
+import type { AnswerFlag } from './answer-flags';
+
+// Same text as TIMED_OUT_ANSWER in the web app
+const TIMED_OUT_ANSWER = '(No answer before the time limit)';
+// Answers shorter than this many words (code excepted) count as empty
+const MIN_ANSWER_WORDS = 3;
+// Share of an answer's words found in the question above which it counts as
+// the question pasted back
+const COPIED_WORD_SHARE = 0.9;
+
+// Highest score each flag allows; empty and copied answers are not graded
+const FLAG_RULES: Record<AnswerFlag, { maxScore: number; skipsGrading: boolean }> = {
+  injection: { maxScore: 1, skipsGrading: false },
+  abusive: { maxScore: 1, skipsGrading: false },
+  empty: { maxScore: 1, skipsGrading: true },
+  copied: { maxScore: 1, skipsGrading: true },
+  'off-topic': { maxScore: 2, skipsGrading: false },
+};
+
+// Kept narrow: an answer that merely mentions prompts or scores must not be
+// capped. The last two are language-neutral.
+const INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b.{0,30}\b(previous|prior|above|earlier|preceding|system|grading)\b.{0,20}\b(instructions?|prompts?|rules|rubric)\b/i,
+  /\b(give|award|assign)\s+(me|this answer|my answer)\b.{0,20}\b(5|five|full marks|top marks|a perfect score|the max(imum)? score)\b/i,
+  /\byou are now (a|an|my|the)\b/i,
+  /\bnew instructions?\s*:/i,
+  /<\/?\s*(candidate_answer|system|instructions?)\s*>/i,
+  /"score"\s*:\s*[1-5]\b/i,
+];
+
+const ABUSIVE_PATTERN =
+  /\b(fuck\w*|shit(ty)?|bitch(es)?|asshole|bastard|cunt|dickhead|motherfucker|retard(ed)?|kill yourself|kys)\b/i;
+
+const GRADER_FLAGS = ['injection', 'abusive', 'off-topic'] as const;
+
+const getWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Flags raised by the answer text alone. An empty answer is only flagged as
+ * empty; code answers are not checked for copied text, since they reuse the
+ * names in the question.
+ */
+export const inspectAnswer = (
+  answer: string,
+  question: string,
+  { priorAnswers = [], isCoding = false }: { priorAnswers?: string[]; isCoding?: boolean } = {}
+): AnswerFlag[] => {
+  const text = answer.trim();
+  const words = getWords(text);
+  if (text === TIMED_OUT_ANSWER || words.length === 0 || (!isCoding && words.length < MIN_ANSWER_WORDS)) {
+    return ['empty'];
+  }
+
+  const flags: AnswerFlag[] = [];
+  if (INJECTION_PATTERNS.some((pattern) => pattern.test(text))) flags.push('injection');
+  if (ABUSIVE_PATTERN.test(text)) flags.push('abusive');
+
+  if (!isCoding) {
+    const questionWords = new Set(getWords(question));
+    const fromQuestion = words.filter((word) => questionWords.has(word)).length / words.length;
+    const joined = words.join(' ');
+    const repeatsEarlier = priorAnswers.some((prior) => getWords(prior).join(' ') === joined);
+    if (fromQuestion >= COPIED_WORD_SHARE || repeatsEarlier) flags.push('copied');
+  }
+
+  return flags;
+};
+
+/**
+ * Whether the answer has nothing the grader could assess
+ */
+export const skipsGrading = (flags: AnswerFlag[]): boolean => flags.some((flag) => FLAG_RULES[flag].skipsGrading);
+
+/**
+ * The text flags plus those raised by a majority of the grading samples, so
+ * one sample misreading an answer does not flag it
+ */
+export const combineFlags = (textFlags: AnswerFlag[], samples: AnswerEvaluation[]): AnswerFlag[] => [
+  ...new Set([
+    ...textFlags,
+    ...GRADER_FLAGS.filter(
+      (flag) => samples.filter((sample) => sample.flags?.includes(flag)).length * 2 > samples.length
+    ),
+  ]),
+];
+
+/**
+ * Score logged for a flagged answer: the samples' mean, capped by the flags
+ * (1 when it was not graded)
+ */
+export const getCappedScore = (flags: AnswerFlag[], samples: AnswerEvaluation[]): number => {
+  const maxScore = Math.min(5, ...flags.map((flag) => FLAG_RULES[flag].maxScore));
+  if (samples.length === 0) return 1;
+
+  const mean = samples.reduce((sum, sample) => sum + sample.score, 0) / samples.length;
+  return Math.min(maxScore, Math.round(mean));
+};
@@ -0,0 +1,248 @@
+import { describe, expect, it } from '@jest/globals';
+import path from 'path';
+import { runCode } from './code-runner';
+import { isSandboxEnabled } from './code-sandbox';
+
+const ADD_TESTS = [
+  { input: '[1, 2]', expected: '3' },
+  { input: '[-4, 4]', expected: '0' },
+];
+
+// Reports every test as passed through the host's require, if it can reach it
+const FORGE_THROUGH_CALLER = `function g() {
+  const r = g.caller.constructor('return require')();
+  r('fs').writeSync(3, JSON.stringify({ results: [{ output: '3', runtimeMs: 0 }, { output: '0', runtimeMs: 0 }] }));
+  g.caller.constructor('return process')().exit(0);
+}`;
+
+// The OS sandbox needs Linux user namespaces; CODE_SANDBOX=off skips these
+const describeSandboxed = isSandboxEnabled() ? describe : describe.skip;
+
+describe('runCode', () => {
+  it('passes a correct solution', async () => {
+    const result = await runCode('javascript', 'function add(a, b) { return a + b; }', 'add', ADD_TESTS);
+
+    expect(result).toMatchObject({ language: 'javascript', passed: 2, total: 2 });
+    expect(result.results.every((r) => r.passed)).toBe(true);
+  });
+
+  it('fails a wrong solution without an error', async () => {
+    const result = await runCode('javascript', 'function add(a, b) { return a - b; }', 'add', ADD_TESTS);
+
+    expect(result.passed).toBe(0);
+    expect(result.results[0]).toMatchObject({ passed: false });
+    expect(result.error).toBeUndefined();
+  });
+
+  it('finds arrow functions and module.exports', async () => {
+    const arrow = await runCode('javascript', 'const add = (a, b) => a + b;', 'add', ADD_TESTS);
+    const exported = await runCode('javascript', 'module.exports.add = (a, b) => a + b;', 'add', ADD_TESTS);
+
+    expect(arrow.passed).toBe(2);
+    expect(exported.passed).toBe(2);
+  });
+
+  it('strips TypeScript types and reports compile errors', async () => {
+    const typed = await runCode('typescript', 'function add(a: number, b: number): number { return a + b; }', 'add', ADD_TESTS);
+    const broken = await runCode('typescript', 'function add(a: number, b: number { return a + b; }', 'add', ADD_TESTS);
+
+    expect(typed.passed).toBe(2);
+    expect(broken.passed).toBe(0);
+    expect(broken.error).toMatch(/^TypeScript:/);
+  });
+
+  it('compares objects regardless of key order', async () => {
+    const result = await runCode('javascript', 'function pair(a, b) { return { b, a }; }', 'pair', [
+      { input: '[1, 2]', expected: '{"a":1,"b":2}' },
+    ]);
+
+    expect(result.passed).toBe(1);
+  });
+
+  it('reports syntax errors, missing functions and exceptions', async () => {
+    const syntax = await runCode('javascript', 'function add(a, b) { return a + }', 'add', ADD_TESTS);
+    const missing = await runCode('javascript', 'function sum(a, b) { return a + b; }', 'add', ADD_TESTS);
+    const thrown = await runCode('javascript', 'function add() { throw new Error("boom"); }', 'add', ADD_TESTS);
+
+    expect(syntax.error).toMatch(/^SyntaxError/);
+    expect(missing.error).toBe('Function "add" is not defined');
+    expect(thrown.passed).toBe(0);
+    expect(thrown.results[0].error).toBe('Error: boom');
+  });
+
+  it('rejects async solutions', async () => {
+    const result = await runCode('javascript', 'async function add(a, b) { return a + b; }', 'add', ADD_TESTS);
+
+    expect(result.passed).toBe(0);
+    expect(result.results[0].error).toMatch(/async functions are not supported/);
+  });
+
+  it('times out infinite loops', async () => {
+    const result = await runCode('javascript', 'function add() { for (;;) {} }', 'add', ADD_TESTS);
+
+    expect(result).toMatchObject({ passed: 0, timedOut: true });
+    expect(result.error).toMatch(/^Timed out/);
+  }, 15000);
+
+  it('caps memory', async () => {
+    const result = await runCode(
+      'javascript',
+      'function add() { const a = []; for (;;) a.push(new Array(1e6).fill(1)); }',
+      'add',
+      ADD_TESTS
+    );
+
+    expect(result.passed).toBe(0);
+    expect(result.error).toMatch(/Memory limit|Timed out/);
+  }, 15000);
+
+  describe('escape attempts', () => {
+    it('has no process, require or host globals', async () => {
+      const result = await runCode(
+        'javascript',
+        'function probe() { return [typeof process, typeof require, typeof setTimeout, typeof Buffer]; }',
+        'probe',
+        [{ input: '[]', expected: '["undefined","undefined","undefined","undefined"]' }]
+      );
+
+      expect(result.passed).toBe(1);
+    });
+
+    it('cannot climb to the host Function constructor', async () => {
+      const attempts = [
+        'this.constructor.constructor("return process")()',
+        'module.constructor.constructor("return process")()',
+        'console.log.constructor("return process")()',
+        '(() => {}).constructor("return process")()',
+      ];
+
+      for (const attempt of attempts) {
+        const result = await runCode(
+          'javascript',
+          `function leak() { return ${attempt}.env; }`,
+          'leak',
+          [{ input: '[]', expected: 'null' }]
+        );
+        expect(result.results[0].error).toMatch(/EvalError|TypeError/);
+      }
+    });
+
+    it('cannot read files or the expected values', async () => {
+      const result = await runCode(
+        'javascript',
+        `function leak() {
+          try { return JSON.stringify(require('fs').readFileSync('package.json', 'utf8')); } catch (e) {}
+          return typeof globalThis.tests + typeof globalThis.expected;
+        }`,
+        'leak',
+        [{ input: '[]', expected: '"undefinedundefined"' }]
+      );
+
+      expect(result.passed).toBe(1);
+    });
+
+    it('cannot forge results', async () => {
+      const forged = JSON.stringify({ results: [{ output: '3', runtimeMs: 0 }, { output: '0', runtimeMs: 0 }] });
+      const result = await runCode(
+        'javascript',
+        `function add() {
+          try { this.constructor.constructor('return process')().stdout.write(${JSON.stringify(forged)}); } catch (e) {}
+          console.log(${JSON.stringify(forged)});
+          JSON.stringify = () => '3';
+          return 0;
+        }`,
+        'add',
+        ADD_TESTS
+      );
+
+      expect(result.passed).toBe(1); // Only the genuine 0 for [-4, 4]
+      expect(result.results[0].passed).toBe(false);
+    });
+
+    it('cannot reach host frames through caller', async () => {
+      const attempts = [
+        `function add() { const e = {}; ${FORGE_THROUGH_CALLER} Object.defineProperty(e, 'name', { get: g }); throw e; }`,
+        `function add() { ${FORGE_THROUGH_CALLER} return { toJSON: g }; }`,
+        `const e = {}; ${FORGE_THROUGH_CALLER} Object.defineProperty(e, 'message', { get: g }); e.name = 'E'; throw e;`,
+      ];
+
+      for (const attempt of attempts) {
+        const result = await runCode('javascript', attempt, 'add', ADD_TESTS);
+        expect(result.passed).toBe(0);
+      }
+    });
+
+    it('cannot keep running after reporting', async () => {
+      const result = await runCode(
+        'javascript',
+        'function add(a, b) { (function spin() { Promise.resolve().then(spin); })(); return a + b; }',
+        'add',
+        ADD_TESTS
+      );
+
+      expect(result).toMatchObject({ passed: 2 });
+      expect(result.timedOut).toBeUndefined();
+    });
+  });
+
+  describeSandboxed('python', () => {
+    it('passes a correct solution and reports errors', async () => {
+      const passed = await runCode('python', 'def add(a, b):\n    return a + b\n', 'add', ADD_TESTS);
+      const syntax = await runCode('python', 'def add(a, b) return a + b', 'add', ADD_TESTS);
+      const thrown = await runCode('python', 'def add(a, b):\n    raise ValueError("boom")\n', 'add', ADD_TESTS);
+
+      expect(passed).toMatchObject({ language: 'python', passed: 2, total: 2 });
+      expect(syntax.error).toMatch(/^SyntaxError/);
+      expect(thrown.results[0].error).toBe('ValueError: boom');
+    });
+
+    it('compares values, not their spelling', async () => {
+      const result = await runCode('python', 'def pair(a, b):\n    return {"b": b / 1, "a": a}\n', 'pair', [
+        { input: '[1, 2]', expected: '{"a":1,"b":2}' },
+      ]);
+
+      expect(result.passed).toBe(1);
+    });
+
+    it('has no network, host files or writable paths', async () => {
+      const result = await runCode(
+        'python',
+        `import os, socket
+def probe():
+    found = []
+    try:
+        socket.create_connection(("1.1.1.1", 80), timeout=1)
+        found.append("network")
+    except OSError:
+        pass
+    for path in ("/etc/passwd", "${path.resolve('package.json')}"):
+        try:
+            open(path).read()
+            found.append(path)
+        except OSError:
+            pass
+    for path in ("/sandbox/out", "/tmp/out", "/out"):
+        try:
+            open(path, "w").write("x")
+            found.append(path)
+        except OSError:
+            pass
+    # Python sets LC_CTYPE itself
+    return found + sorted(key for key in os.environ if key != "LC_CTYPE")
+`,
+        'probe',
+        [{ input: '[]', expected: '[]' }]
+      );
+
+      expect(result.results[0]).toMatchObject({ passed: true });
+    });
+
+    it('caps memory and time', async () => {
+      const memory = await runCode('python', 'def add(a, b):\n    x = bytearray(1 << 30)\n    return 0\n', 'add', ADD_TESTS);
+      const loop = await runCode('python', 'def add(a, b):\n    while True:\n        pass\n', 'add', ADD_TESTS);
+
+      expect(memory.results[0].error).toMatch(/^MemoryError/);
+      expect(loop).toMatchObject({ passed: 0, timedOut: true });
+    }, 15000);
+  });
+});
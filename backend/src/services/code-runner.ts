@@ -0,0 +1,487 @@
+/**
+ * @file services/code-runner.ts
+ * @description Runs candidate solutions against hidden test cases
+ * Each run gets its own temp directory and a child process with a
+ * wall-clock timeout, a memory cap and no inherited environment, started in
+ * the OS sandbox (see code-sandbox.ts): no network, and no files but the
+ * runtime and the run's own directory, all read-only. JavaScript and
+ * TypeScript are also evaluated in a fresh V8 context with no `process`,
+ * `require` or host objects, with the Node permission model restricting the
+ * process to reading its own directory. Python runs on the interpreter in
+ * CODE_PYTHON with an address-space limit. Only the arguments are handed to
+ * the child; the expected values stay in this process.
+ */
+
+import { execFile, spawn } from 'child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import ts from 'typescript';
+import { AppError } from '../middleware/error-handler';
+import { SANDBOX_DIR, assertSandboxStarted, getSandboxCommand, isSandboxEnabled } from './code-sandbox';
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface CodeTestCase {
+  input: string; // JSON-encoded argument list
+  expected: string; // JSON-encoded return value
+}
+
+export interface CodeTestResult {
+  passed: boolean;
+  runtimeMs: number;
+  error?: string;
+}
+
+export interface CodeExecutionResult {
+  language: CodeLanguage;
+  passed: number;
+  total: number;
+  runtimeMs: number;
+  results: CodeTestResult[];
+  error?: string;
+  timedOut?: boolean;
+}
+
+const TIMEOUT_MS = parseInt(process.env.CODE_EXECUTION_TIMEOUT_MS || '5000');
+const MEMORY_LIMIT_MB = parseInt(process.env.CODE_EXECUTION_MEMORY_MB || '128');
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_ERROR_LENGTH = 300;
+const RESULT_FD = 3;
+const PYTHON = process.env.CODE_PYTHON || 'python3';
+
+// Node 22 renamed the permission flag
+const NODE_PERMISSION_FLAG =
+  parseInt(process.versions.node.split('.')[0]) >= 22 ? '--permission' : '--experimental-permission';
+
+/**
+ * Canonical JSON with sorted object keys, so key order never fails a test.
+ * The Node harness uses the same replacer for the solution's return values.
+ */
+const canon = (value: unknown): string | undefined =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce((o: Record<string, unknown>, k) => ((o[k] = v[k]), o), {})
+      : v
+  );
+
+/**
+ * Loads solution.js into an empty context, resolves the requested function
+ * and calls it with each argument list in inputs.json. Reports the canonical
+ * return values on fd 3 and exits before anything the solution queued can run.
+ * Error descriptions and return values are turned into strings by helpers
+ * that live in the context and are set up before the solution loads, so host
+ * code never reads a property of a value the solution made (a getter or
+ * `toJSON` would otherwise run with a host frame as its caller) and only
+ * strings cross back.
+ * argv: <workdir> <function name>
+ */
+const NODE_HARNESS = `'use strict';
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const { performance } = require('perf_hooks');
+const [dir, name] = process.argv.slice(1);
+const source = fs.readFileSync(path.join(dir, 'solution.js'), 'utf8');
+const inputs = JSON.parse(fs.readFileSync(path.join(dir, 'inputs.json'), 'utf8'));
+
+const report = (payload) => {
+  const data = Buffer.from(JSON.stringify(payload));
+  for (let offset = 0; offset < data.length; ) {
+    try {
+      offset += fs.writeSync(${RESULT_FD}, data, offset);
+    } catch (e) {
+      if (e.code !== 'EAGAIN') throw e;
+    }
+  }
+  process.exit(0);
+};
+const text = (value) => (typeof value === 'string' ? value.slice(0, ${MAX_ERROR_LENGTH}) : 'Error');
+
+// A null-prototype sandbox leaves no host object on the global to climb out through
+const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+const run = (code, filename) => new vm.Script(code, { filename }).runInContext(context, { timeout: ${TIMEOUT_MS} });
+const helpers = run(\`'use strict';
+globalThis.module = { exports: {} };
+globalThis.exports = module.exports;
+globalThis.console = { log() {}, info() {}, warn() {}, error() {}, debug() {} };
+(() => {
+  const toText = String;
+  const parse = JSON.parse;
+  const stringify = JSON.stringify;
+  const isArray = Array.isArray;
+  const keys = Object.keys;
+  const NativePromise = Promise;
+  const canon = (value) => stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !isArray(v) ? keys(v).sort().reduce((o, k) => ((o[k] = v[k]), o), {}) : v);
+  const describe = (e) => {
+    try {
+      return toText(e && e.name ? e.name + ': ' + e.message : e);
+    } catch (_) {
+      return 'Error';
+    }
+  };
+  const call = (fn, input) => {
+    let entry;
+    try {
+      const actual = fn(...parse(input));
+      entry = actual instanceof NativePromise
+        ? { error: 'Return the result directly; async functions are not supported' }
+        : { output: canon(actual) };
+    } catch (e) {
+      entry = { error: describe(e) };
+    }
+    return stringify(entry);
+  };
+  return { describe, call };
+})();\`, 'setup.js');
+const describe = helpers.describe;
+const call = helpers.call;
+
+try {
+  run(source, 'solution.js');
+} catch (e) {
+  report({ error: text(describe(e)) });
+}
+
+let fn;
+try {
+  fn = run('typeof ' + name + " === 'function' ? " + name + ' : exports.' + name + ' || module.exports.' + name, 'resolve.js');
+} catch (e) {
+  fn = undefined;
+}
+if (typeof fn !== 'function') {
+  report({ error: 'Function "' + name + '" is not defined' });
+}
+
+const results = inputs.map((input) => {
+  const start = performance.now();
+  let entry = {};
+  try {
+    const raw = call(fn, input);
+    if (typeof raw === 'string') entry = JSON.parse(raw);
+  } catch (e) {
+    entry = { error: 'Error' };
+  }
+  return {
+    ...(typeof entry.output === 'string' ? { output: entry.output } : {}),
+    ...(entry.error !== undefined ? { error: text(entry.error) } : {}),
+    runtimeMs: Math.round((performance.now() - start) * 100) / 100,
+  };
+});
+report({ results });
+`;
+
+/**
+ * Same protocol for Python. The solution shares the interpreter with the
+ * harness, so it could tamper with its own report; that gains nothing, since
+ * the expected values never enter the sandbox. The address-space limit is
+ * set before the solution loads and cannot be raised again without
+ * capabilities.
+ * argv: <workdir> <function name> <memory limit in bytes>
+ */
+const PYTHON_HARNESS = `
+import inspect, json, os, resource, sys, time
+
+directory, name, memory = sys.argv[1], sys.argv[2], int(sys.argv[3])
+
+def report(payload):
+    data = memoryview(json.dumps(payload).encode())
+    while data:
+        data = data[os.write(${RESULT_FD}, data):]
+    os._exit(0)
+
+def describe(e):
+    try:
+        return f"{type(e).__name__}: {e}"[:${MAX_ERROR_LENGTH}]
+    except BaseException:
+        return "Error"
+
+with open(os.path.join(directory, "solution.py")) as f:
+    source = f.read()
+with open(os.path.join(directory, "inputs.json")) as f:
+    inputs = json.load(f)
+
+resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+namespace = {"__name__": "solution"}
+try:
+    exec(compile(source, "solution.py", "exec"), namespace)
+except BaseException as e:
+    report({"error": describe(e)})
+
+fn = namespace.get(name)
+if not callable(fn):
+    report({"error": f'Function "{name}" is not defined'})
+
+results = []
+for raw in inputs:
+    start = time.perf_counter()
+    entry = {}
+    try:
+        actual = fn(*json.loads(raw))
+        if inspect.isawaitable(actual):
+            entry["error"] = "Return the result directly; async functions are not supported"
+        else:
+            entry["output"] = json.dumps(actual, allow_nan=False, separators=(",", ":"))
+    except BaseException as e:
+        entry["error"] = describe(e)
+    entry["runtimeMs"] = round((time.perf_counter() - start) * 1000, 2)
+    results.append(entry)
+report({"results": results})
+`;
+
+interface HarnessTestOutput {
+  output?: string; // Canonical JSON of the return value
+  error?: string;
+  runtimeMs: number;
+}
+
+interface HarnessPayload {
+  results?: HarnessTestOutput[];
+  error?: string;
+}
+
+interface PythonRuntime {
+  executable: string;
+  prefix: string; // Install directory, mounted into the sandbox
+}
+
+interface ProcessOutcome {
+  result: string; // Whatever the harness wrote to the result fd
+  stderr: string;
+  timedOut: boolean;
+  outputExceeded: boolean;
+}
+
+const transpileTypeScript = (code: string): string => {
+  const output = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    reportDiagnostics: true,
+  });
+
+  const diagnostic = output.diagnostics?.[0];
+  if (diagnostic) {
+    throw new Error(
+      `TypeScript: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`.slice(0, MAX_ERROR_LENGTH)
+    );
+  }
+  return output.outputText;
+};
+
+let pythonRuntime: Promise<PythonRuntime> | undefined;
+
+/**
+ * The interpreter behind CODE_PYTHON (resolving shims such as pyenv's),
+ * looked up once
+ */
+const getPythonRuntime = (): Promise<PythonRuntime> => {
+  pythonRuntime ??= promisify(execFile)(PYTHON, ['-I', '-c', 'import sys; print(sys.executable); print(sys.base_prefix)'])
+    .then(({ stdout }) => {
+      const [executable, prefix] = stdout.trim().split('\n');
+      return { executable, prefix };
+    })
+    .catch((error) => {
+      pythonRuntime = undefined;
+      console.error('Python runtime not found:', { python: PYTHON, error });
+      throw new AppError('Python is not available on this server', 503);
+    });
+  return pythonRuntime;
+};
+
+/**
+ * The harness command for a language, reading from `dir`, and the runtime's
+ * install directory
+ */
+const getProgram = async (
+  language: CodeLanguage,
+  dir: string,
+  functionName: string
+): Promise<{ command: string[]; runtimePath: string }> => {
+  if (language === 'python') {
+    const { executable, prefix } = await getPythonRuntime();
+    return {
+      command: [executable, '-I', '-S', '-B', '-c', PYTHON_HARNESS, dir, functionName, String(MEMORY_LIMIT_MB * 1024 * 1024)],
+      runtimePath: prefix,
+    };
+  }
+
+  return {
+    command: [
+      process.execPath,
+      NODE_PERMISSION_FLAG,
+      `--allow-fs-read=${dir}`,
+      `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+      '--no-warnings',
+      '-e',
+      NODE_HARNESS,
+      dir,
+      functionName,
+    ],
+    runtimePath: path.dirname(path.dirname(process.execPath)),
+  };
+};
+
+const runProcess = (command: string, args: string[], cwd: string): Promise<ProcessOutcome> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: { PATH: process.env.PATH || '' },
+      stdio: ['ignore', 'ignore', 'pipe', 'pipe'],
+    });
+
+    let result = '';
+    let stderr = '';
+    let timedOut = false;
+    let outputExceeded = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, TIMEOUT_MS);
+
+    const collect = (chunk: Buffer, target: 'result' | 'stderr') => {
+      if (result.length + stderr.length > MAX_OUTPUT_BYTES) {
+        outputExceeded = true;
+        child.kill('SIGKILL');
+        return;
+      }
+      if (target === 'result') result += chunk.toString();
+      else stderr += chunk.toString();
+    };
+
+    child.stdio[RESULT_FD]!.on('data', (chunk: Buffer) => collect(chunk, 'result'));
+    child.stderr!.on('data', (chunk: Buffer) => collect(chunk, 'stderr'));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', () => {
+      clearTimeout(timer);
+      resolve({ result, stderr, timedOut, outputExceeded });
+    });
+  });
+
+/**
+ * The harness's report, or null when it is not one (the process died
+ * mid-write or printed something else)
+ */
+const parsePayload = (raw: string, total: number): HarnessPayload | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object') return null;
+
+  const { results, error } = payload as HarnessPayload;
+  if (typeof error === 'string') return { error: error.slice(0, MAX_ERROR_LENGTH) };
+  if (!Array.isArray(results) || results.length !== total) return null;
+  return { results };
+};
+
+/**
+ * Whether a reported return value is the expected one. Both are parsed and
+ * canonicalised here, so Python's `3.0` matches `3` and key order is ignored.
+ */
+const matches = (output: string | undefined, expected: string): boolean => {
+  if (typeof output !== 'string') return false;
+  try {
+    return canon(JSON.parse(output)) === canon(JSON.parse(expected));
+  } catch {
+    return false;
+  }
+};
+
+const buildResult = (
+  language: CodeLanguage,
+  testCases: CodeTestCase[],
+  payload: HarnessPayload,
+  timedOut = false
+): CodeExecutionResult => {
+  const results: CodeTestResult[] = payload.results
+    ? payload.results.map((entry, i) => ({
+        passed: matches(entry.output, testCases[i].expected),
+        runtimeMs: typeof entry.runtimeMs === 'number' ? entry.runtimeMs : 0,
+        ...(typeof entry.error === 'string' ? { error: entry.error.slice(0, MAX_ERROR_LENGTH) } : {}),
+      }))
+    : testCases.map(() => ({ passed: false, runtimeMs: 0, ...(payload.error ? { error: payload.error } : {}) }));
+
+  return {
+    language,
+    passed: results.filter((r) => r.passed).length,
+    total: testCases.length,
+    runtimeMs: Math.round(results.reduce((sum, r) => sum + r.runtimeMs, 0) * 100) / 100,
+    results,
+    ...(payload.error ? { error: payload.error } : {}),
+    ...(timedOut ? { timedOut } : {}),
+  };
+};
+
+/**
+ * Run a solution against its test cases. Candidate mistakes (syntax errors,
+ * exceptions, timeouts) are reported in the result; only infrastructure
+ * failures (e.g. the child cannot be spawned or the sandbox cannot start)
+ * throw.
+ */
+export const runCode = async (
+  language: CodeLanguage,
+  code: string,
+  functionName: string,
+  testCases: CodeTestCase[]
+): Promise<CodeExecutionResult> => {
+  let source = code;
+  if (language === 'typescript') {
+    try {
+      source = transpileTypeScript(code);
+    } catch (error) {
+      return buildResult(language, testCases, { error: (error as Error).message });
+    }
+  }
+
+  const sandboxed = isSandboxEnabled();
+  if (language === 'python' && !sandboxed) {
+    throw new AppError('Python solutions need the code sandbox (CODE_SANDBOX)', 503);
+  }
+
+  const workdir = await mkdtemp(path.join(tmpdir(), 'code-run-'));
+
+  try {
+    const srcDir = path.join(workdir, 'src');
+    const rootDir = path.join(workdir, 'root');
+    await Promise.all([mkdir(srcDir), mkdir(rootDir)]);
+    await writeFile(path.join(srcDir, language === 'python' ? 'solution.py' : 'solution.js'), source);
+    await writeFile(path.join(srcDir, 'inputs.json'), JSON.stringify(testCases.map((test) => test.input)));
+
+    const { command, runtimePath } = await getProgram(language, sandboxed ? SANDBOX_DIR : srcDir, functionName);
+    const launch = sandboxed
+      ? getSandboxCommand(rootDir, srcDir, [runtimePath], command)
+      : { command: command[0], args: command.slice(1) };
+    const outcome = await runProcess(launch.command, launch.args, workdir);
+
+    if (outcome.timedOut) {
+      return buildResult(language, testCases, { error: `Timed out after ${TIMEOUT_MS}ms` }, true);
+    }
+    if (outcome.outputExceeded) {
+      return buildResult(language, testCases, { error: 'Output limit exceeded' });
+    }
+
+    if (!outcome.result) {
+      if (sandboxed) assertSandboxStarted(outcome.stderr);
+
+      // The process died before reporting (memory limit, crash)
+      const reason = /heap out of memory|MemoryError/i.test(outcome.stderr)
+        ? `Memory limit of ${MEMORY_LIMIT_MB}MB exceeded`
+        : outcome.stderr.trim().split('\n').pop() || 'Process exited without reporting results';
+      return buildResult(language, testCases, { error: reason.slice(0, MAX_ERROR_LENGTH) });
+    }
+
+    const payload = parsePayload(outcome.result, testCases.length);
+    return buildResult(language, testCases, payload ?? { error: 'The test harness returned malformed results' });
+  } finally {
+    await rm(workdir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * @file services/code-sandbox.ts
+ * @description OS-level isolation for candidate code
+ * Every run gets fresh Linux namespaces (user, mount, network, PID, IPC and
+ * UTS) through util-linux `unshare`. Inside, the root is swapped for an
+ * empty tmpfs holding read-only bind mounts of the system libraries, the
+ * language runtime and the run's own directory (at SANDBOX_DIR); the host
+ * root is detached and every capability dropped before the runtime starts.
+ * The run has no network (not even loopback), no environment, no host files
+ * beyond those mounts, nothing writable, and its processes all die with it.
+ *
+ * Needs Linux with util-linux (`unshare`, `pivot_root`, `setpriv`) and user
+ * namespaces the backend's user may create. Docker's default seccomp and
+ * AppArmor profiles block `unshare`; give the backend container a profile
+ * that allows it. CODE_SANDBOX=off runs solutions without it, for local
+ * development only (JavaScript and TypeScript keep the runtime's own
+ * sandbox; Python is refused).
+ */
+
+import { AppError } from '../middleware/error-handler';
+
+export const SANDBOX_DIR = '/sandbox';
+
+// Shared libraries, the loader cache and the tools the setup script uses
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/etc/ld.so.cache'];
+
+/**
+ * Runs as root of the new user namespace. argv: <root> <workdir> <read-only
+ * paths...> -- <command...>. Setup errors are reported with a "sandbox:"
+ * prefix so they are not mistaken for the solution's own failures.
+ */
+const SETUP_SCRIPT = `
+set -e
+trap 'echo "sandbox: setup failed" >&2' EXIT
+root=$1 work=$2
+shift 2
+mount -t tmpfs -o size=1m,mode=755 sandbox "$root"
+for path in "$@"; do
+  [ "$path" = -- ] && break
+  shift
+  [ -e "$path" ] || continue
+  if [ -d "$path" ]; then mkdir -p "$root$path"; else mkdir -p "$root\${path%/*}"; touch "$root$path"; fi
+  mount --bind "$path" "$root$path"
+  mount -o remount,bind,ro "$root$path"
+done
+shift
+mkdir -p "$root${SANDBOX_DIR}" "$root/dev" "$root/proc" "$root/.old"
+mount --bind "$work" "$root${SANDBOX_DIR}"
+mount -o remount,bind,ro "$root${SANDBOX_DIR}"
+for dev in null zero urandom; do touch "$root/dev/$dev"; mount --bind "/dev/$dev" "$root/dev/$dev"; done
+mount -t proc proc "$root/proc"
+cd "$root"
+pivot_root . .old
+umount -l /.old
+rmdir /.old
+mount -o remount,ro /
+trap - EXIT
+cd /
+exec env -i setpriv --no-new-privs --inh-caps=-all --bounding-set=-all -- "$@"
+`;
+
+const SETUP_FAILURE = /^(unshare|sandbox): .*$/m;
+
+export interface SandboxCommand {
+  command: string;
+  args: string[];
+}
+
+export const isSandboxEnabled = (): boolean => process.env.CODE_SANDBOX !== 'off';
+
+/**
+ * The paths to mount, without those already inside another one
+ */
+const getMountPaths = (paths: string[]): string[] =>
+  [...new Set(paths)].filter(
+    (candidate) => !paths.some((other) => other !== candidate && candidate.startsWith(`${other}/`))
+  );
+
+/**
+ * `command` run in a fresh sandbox. `rootDir` must be an empty directory
+ * for the sandbox's root; `workDir` is mounted at SANDBOX_DIR and
+ * `runtimePaths` (the runtime's install directory) at their own paths, all
+ * read-only.
+ */
+export const getSandboxCommand = (
+  rootDir: string,
+  workDir: string,
+  runtimePaths: string[],
+  command: string[]
+): SandboxCommand => ({
+  command: 'unshare',
+  args: [
+    '--user',
+    '--map-root-user',
+    '--mount',
+    '--net',
+    '--pid',
+    '--ipc',
+    '--uts',
+    '--kill-child',
+    'sh',
+    '-c',
+    SETUP_SCRIPT,
+    'sandbox',
+    rootDir,
+    workDir,
+    ...getMountPaths([...SYSTEM_PATHS, ...runtimePaths]),
+    '--',
+    ...command,
+  ],
+});
+
+/**
+ * Throws when a run's stderr shows the sandbox itself could not be set up
+ * (no user namespaces, missing tools), which is a server fault rather than
+ * the solution's
+ */
+export const assertSandboxStarted = (stderr: string): void => {
+  const failure = stderr.match(SETUP_FAILURE);
+  if (failure) {
+    console.error('Code sandbox failed to start:', failure[0]);
+    throw new AppError('Code execution is unavailable right now', 503);
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * @file services/coding-challenges.ts
+ * @description Hidden tests for coding questions, kept on the server
+ * Challenges live in `coding_challenges` (Admin SDK only): generated ones
+ * are stored here as they are created, and scripts/question-bank.mjs stores
+ * a bank question's tests under the question's id. The web app only sees a
+ * challenge's id, function name and test count, and solutions always run
+ * against the stored tests, never against tests sent by the client.
+ */
+
+import { getFirestore } from '../config/firebase';
+import { AppError } from '../middleware/error-handler';
+import { codingChallengeSchema, type CodingChallenge } from './gemini';
+
+export interface CodingChallengeRef {
+  id: string;
+  functionName: string;
+  testCount: number;
+}
+
+const COLLECTION = 'coding_challenges';
+
+export const saveChallenge = async (challenge: CodingChallenge): Promise<CodingChallengeRef> => {
+  const doc = await getFirestore()
+    .collection(COLLECTION)
+    .add({
+      functionName: challenge.functionName,
+      testCases: challenge.testCases,
+      createdAt: new Date().toISOString(),
+    });
+
+  return { id: doc.id, functionName: challenge.functionName, testCount: challenge.testCases.length };
+};
+
+export const getChallenge = async (id: string): Promise<CodingChallenge> => {
+  const snapshot = await getFirestore().collection(COLLECTION).doc(id).get();
+
+  const parsed = codingChallengeSchema.safeParse(snapshot.data());
+  if (!parsed.success) {
+    throw new AppError('Coding challenge not found', 404);
+  }
+  return parsed.data;
+};
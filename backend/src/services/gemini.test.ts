@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { evaluateAnswer } from './gemini';
+
+const REQUEST = {
+  skills: ['JavaScript'],
+  question: 'What is a closure?',
+  answer: 'A function that keeps the variables of the scope it was created in.',
+  questionType: 'conceptual' as const,
+};
+
+const graded = (score: number): Response =>
+  new Response(
+    JSON.stringify({
+      candidates: [
+        {
+          content: {
+            parts: [
+              {
+                text: JSON.stringify({
+                  score,
+                  feedback: `Scored ${score}`,
+                  improvementSuggestions: ['Add an example'],
+                  rubric: [{ dimension: 'depth', score, justification: 'ok' }],
+                }),
+              },
+            ],
+          },
+        },
+      ],
+      usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 20, totalTokenCount: 120 },
+    })
+  );
+
+describe('evaluateAnswer', () => {
+  const fetchMock = jest.fn<typeof fetch>();
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('returns every sample with their usage summed', async () => {
+    fetchMock
+      .mockResolvedValueOnce(graded(4))
+      .mockResolvedValueOnce(graded(3))
+      .mockResolvedValueOnce(graded(5));
+
+    const { evaluations, usage } = await evaluateAnswer(REQUEST);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(evaluations.map((e) => e.score)).toEqual([4, 3, 5]);
+    expect(usage).toEqual({ promptTokens: 300, outputTokens: 60, totalTokens: 360 });
+  });
+
+  it('drops failed samples and bills only the successful ones', async () => {
+    fetchMock
+      .mockResolvedValueOnce(graded(4))
+      .mockResolvedValueOnce(new Response('', { status: 500 }))
+      .mockResolvedValueOnce(graded(5));
+
+    const { evaluations, usage } = await evaluateAnswer(REQUEST);
+
+    expect(evaluations.map((e) => e.score)).toEqual([4, 5]);
+    expect(usage.totalTokens).toBe(240);
+  });
+
+  it('fails when every sample fails', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 429 }));
+
+    await expect(evaluateAnswer(REQUEST)).rejects.toMatchObject({ statusCode: 429 });
+  });
+});
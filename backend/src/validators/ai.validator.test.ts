@@ -0,0 +1,23 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateQuestionsSchema } from './ai.validator';
+
+const parse = (body: object) => generateQuestionsSchema.safeParse({ body, query: {}, params: {} });
+
+describe('generateQuestionsSchema', () => {
+  const valid = { role: 'Frontend Developer', skills: ['React'], difficulty: 'intermediate', count: 3 };
+
+  it('accepts the difficulty levels the web app sends', () => {
+    for (const difficulty of ['basic', 'intermediate', 'advanced']) {
+      expect(parse({ ...valid, difficulty }).success).toBe(true);
+    }
+  });
+
+  it('rejects other difficulty levels', () => {
+    expect(parse({ ...valid, difficulty: 'easy' }).success).toBe(false);
+  });
+
+  it('caps the question count', () => {
+    expect(parse({ ...valid, count: 0 }).success).toBe(false);
+    expect(parse({ ...valid, count: 11 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @file validators/ai.validator.ts
+ * @description Zod schemas for the AI proxy routes
+ */
+
+import { z } from 'zod';
+import { challengeIdSchema, codeLanguageSchema } from './code.validator';
+
+const questionTypeSchema = z.enum(['conceptual', 'coding', 'design', 'behavioral']);
+const skillsSchema = z.array(z.string().max(100)).max(50);
+const answerSchema = z.string().max(20000, 'Answer must be under 20000 characters');
+const languageSchema = z.enum(['en', 'es', 'fr', 'de', 'pt']);
+const personaSchema = z.enum(['coach', 'screener', 'bar-raiser', 'rapid-fire']);
+
+export const generateQuestionsSchema = z.object({
+  body: z.object({
+    role: z.string().min(1, 'Role required').max(200),
+    skills: skillsSchema,
+    difficulty: z.enum(['basic', 'intermediate', 'advanced']),
+    count: z.number().int().min(1).max(10),
+    focusSkills: skillsSchema.optional(),
+    excludeCategories: z.array(z.string().max(100)).max(50).optional(),
+    excludeQuestions: z.array(z.string().max(1000)).max(100).optional(),
+    questionType: questionTypeSchema.optional(),
+    experienceSummary: z.string().max(2000).optional(),
+    jobContext: z.string().max(3000).optional(),
+    companyContext: z.string().max(2000).optional(),
+    language: languageSchema.optional(),
+    persona: personaSchema.optional(),
+  }),
+});
+
+export const evaluateAnswerSchema = z.object({
+  body: z.object({
+    skills: skillsSchema,
+    question: z.string().min(1, 'Question required').max(5000),
+    answer: answerSchema,
+    questionType: questionTypeSchema,
+    // Coding answers are run against the challenge's stored tests
+    challengeId: challengeIdSchema.optional(),
+    codeLanguage: codeLanguageSchema.optional(),
+    referenceAnswer: z.string().max(10000).optional(),
+    language: languageSchema.optional(),
+    // Earlier answers in the question's thread, for the answer guard's copy check
+    priorAnswers: z.array(answerSchema).max(10).optional(),
+    sessionId: z.string().max(200).optional(), // Logged with flagged answers
+  }).refine((body) => !body.challengeId === !body.codeLanguage, {
+    message: 'challengeId and codeLanguage go together',
+    path: ['codeLanguage'],
+  }),
+});
+
+export const followUpSchema = z.object({
+  body: z.object({
+    skills: skillsSchema,
+    question: z.string().min(1, 'Question required').max(5000),
+    answer: answerSchema,
+    feedback: z.string().max(5000),
+    previousFollowUps: z
+      .array(z.object({ question: z.string().max(5000), answer: answerSchema }))
+      .max(10),
+    language: languageSchema.optional(),
+    persona: personaSchema.optional(),
+  }),
+});
+
+export const modelAnswerSchema = z.object({
+  body: z.object({
+    skills: skillsSchema,
+    question: z.string().min(1, 'Question required').max(5000),
+    questionType: questionTypeSchema,
+    referenceAnswer: z.string().max(10000).optional(),
+    language: languageSchema.optional(),
+  }),
+});
+
+export const hintSchema = z.object({
+  body: z.object({
+    skills: skillsSchema,
+    question: z.string().min(1, 'Question required').max(5000),
+    questionType: questionTypeSchema,
+    level: z.enum(['nudge', 'approach', 'partial']),
+    previousHints: z.array(z.string().max(5000)).max(3),
+    answer: answerSchema.optional(),
+    language: languageSchema.optional(),
+  }),
+});
+
+export const translateSchema = z.object({
+  body: z.object({
+    texts: z.array(z.string().min(1).max(5000)).min(1).max(20),
+    language: languageSchema,
+  }),
+});
+
+export const jobDescriptionSchema = z.object({
+  body: z.object({
+    description: z
+      .string()
+      .min(50, 'Job description is too short')
+      .max(10000, 'Job description must be under 10000 characters'),
+  }),
+});
+
+export const usageSummarySchema = z.object({
+  query: z.object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+      .optional(),
+  }),
+});
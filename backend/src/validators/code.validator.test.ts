@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { executeCodeSchema } from './code.validator';
+import { evaluateAnswerSchema } from './ai.validator';
+
+const parse = (schema: typeof executeCodeSchema | typeof evaluateAnswerSchema, body: object) =>
+  schema.safeParse({ body, query: {}, params: {} });
+
+describe('executeCodeSchema', () => {
+  const valid = { challengeId: 'abc123', language: 'typescript', code: 'function f() {}' };
+
+  it('accepts a challenge id, language and code', () => {
+    expect(parse(executeCodeSchema, valid).success).toBe(true);
+  });
+
+  it('accepts Python and rejects other languages', () => {
+    expect(parse(executeCodeSchema, { ...valid, language: 'python' }).success).toBe(true);
+    expect(parse(executeCodeSchema, { ...valid, language: 'ruby' }).success).toBe(false);
+  });
+
+  it('rejects ids that are document paths', () => {
+    expect(parse(executeCodeSchema, { ...valid, challengeId: 'abc/def' }).success).toBe(false);
+    expect(parse(executeCodeSchema, { ...valid, challengeId: '' }).success).toBe(false);
+  });
+
+  it('ignores client-supplied test cases', () => {
+    const result = executeCodeSchema.parse({
+      body: { ...valid, testCases: [{ input: '[]', expected: '1' }] },
+      query: {},
+      params: {},
+    });
+
+    expect(result.body).not.toHaveProperty('testCases');
+  });
+});
+
+describe('evaluateAnswerSchema', () => {
+  const valid = { skills: ['JavaScript'], question: 'Write add(a, b)', answer: 'code', questionType: 'coding' };
+
+  it('takes the challenge id and language together', () => {
+    expect(parse(evaluateAnswerSchema, { ...valid, challengeId: 'abc', codeLanguage: 'javascript' }).success).toBe(true);
+    expect(parse(evaluateAnswerSchema, { ...valid, challengeId: 'abc' }).success).toBe(false);
+    expect(parse(evaluateAnswerSchema, { ...valid, codeLanguage: 'javascript' }).success).toBe(false);
+  });
+
+  it('does not pass client test results through', () => {
+    const result = evaluateAnswerSchema.parse({
+      body: { ...valid, codeExecution: { language: 'javascript', passed: 5, total: 5, runtimeMs: 1 } },
+      query: {},
+      params: {},
+    });
+
+    expect(result.body).not.toHaveProperty('codeExecution');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * @file validators/code.validator.ts
+ * @description Zod schemas for sandboxed code execution
+ */
+
+import { z } from 'zod';
+
+export const codeLanguageSchema = z.enum(['javascript', 'typescript', 'python']);
+
+export const challengeIdSchema = z
+  .string()
+  .min(1, 'Challenge id required')
+  .max(200)
+  .regex(/^[^/]+$/, 'Invalid challenge id');
+
+export const executeCodeSchema = z.object({
+  body: z.object({
+    challengeId: challengeIdSchema,
+    language: codeLanguageSchema,
+    code: z.string().min(1, 'Code required').max(20000, 'Code must be under 20000 characters'),
+  }),
+});
@@ -0,0 +1,38 @@
+import admin from 'firebase-admin';
+import { createRequire } from 'module';
+const require = createRequire(import.meta.url);
+const serviceAccount = require('../secrets/service-account.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const TIERS = ['free', 'paid'];
+
+// Usage:
+//   node scripts/ai-tier.mjs <userId> <free|paid> [--admin|--no-admin]
+// Sets the `tier` (AI quota plan) custom claim read by the backend, and the
+// `admin` (usage summary access) claim when --admin or --no-admin is given;
+// without either the user's admin access is left as it is. Users pick them up on their next ID token
+// refresh (sign out and back in, or within an hour).
+
+async function main() {
+  const [userId, tier, ...flags] = process.argv.slice(2);
+  if (!userId || !TIERS.includes(tier) || (flags.includes('--admin') && flags.includes('--no-admin'))) {
+    console.error('Usage: node scripts/ai-tier.mjs <userId> <free|paid> [--admin|--no-admin]');
+    process.exit(1);
+  }
+
+  const user = await admin.auth().getUser(userId);
+  const claims = { ...(user.customClaims || {}), tier };
+  if (flags.includes('--admin')) claims.admin = true;
+  if (flags.includes('--no-admin')) claims.admin = false;
+  await admin.auth().setCustomUserClaims(userId, claims);
+
+  console.log(`Set ${userId} to tier "${tier}"${claims.admin ? ' with admin access' : ''}`);
+}
+
+main().catch(err => {
+  console.error('Error:', err);
+  process.exit(1);
+});
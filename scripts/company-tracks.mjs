@@ -0,0 +1,122 @@
+import admin from 'firebase-admin';
+import { readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+const require = createRequire(import.meta.url);
+const serviceAccount = require('../secrets/service-account.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+const COLLECTION = 'company_tracks';
+const TYPES = ['conceptual', 'coding', 'design', 'behavioral'];
+const DIMENSIONS = ['technicalAccuracy', 'depth', 'communication', 'structure', 'problemSolving'];
+
+// Usage:
+//   node scripts/company-tracks.mjs import <file.json>
+//   node scripts/company-tracks.mjs export <file.json>
+// A JSON array of tracks; see scripts/company-tracks.sample.json. `id` is the
+// document id (e.g. "amazon"); set "active": false to hide a track from setup.
+
+function normalizeTrack(raw, index) {
+  const list = (value) => (Array.isArray(value) ? value.map((v) => String(v).trim()).filter(Boolean) : []);
+  const track = {
+    id: String(raw.id || '').trim().toLowerCase(),
+    company: String(raw.company || '').trim(),
+    aliases: list(raw.aliases),
+    description: String(raw.description || '').trim(),
+    durationMinutes: Number(raw.durationMinutes),
+    includeIntro: raw.includeIntro !== false,
+    introTimeLimitSeconds: Number(raw.introTimeLimitSeconds ?? 120),
+    questions: Array.isArray(raw.questions)
+      ? raw.questions.map((slot) => ({
+          type: String(slot.type || '').trim().toLowerCase(),
+          ...(slot.category ? { category: String(slot.category).trim() } : {}),
+          timeLimitSeconds: Number(slot.timeLimitSeconds),
+        }))
+      : [],
+    behavioralPrompts: Array.isArray(raw.behavioralPrompts)
+      ? raw.behavioralPrompts.map((p) => ({
+          category: String(p.category || '').trim(),
+          question: String(p.question || '').trim(),
+        }))
+      : [],
+    topics: list(raw.topics),
+    gradingEmphasis: raw.gradingEmphasis || {},
+    active: raw.active !== false,
+  };
+
+  const problems = [];
+  if (!/^[a-z0-9-]+$/.test(track.id)) problems.push('id must be lowercase letters, digits or dashes');
+  if (!track.company) problems.push('company is required');
+  if (!(track.durationMinutes > 0)) problems.push('durationMinutes must be positive');
+  if (track.questions.length === 0) problems.push('questions must list at least one slot');
+  track.questions.forEach((slot, i) => {
+    if (!TYPES.includes(slot.type)) problems.push(`questions[${i}].type must be one of ${TYPES.join(', ')}`);
+    if (!(slot.timeLimitSeconds > 0)) problems.push(`questions[${i}].timeLimitSeconds must be positive`);
+  });
+  if (track.questions.some((slot) => slot.type === 'behavioral') && track.behavioralPrompts.length === 0) {
+    problems.push('behavioralPrompts are required when a slot is behavioral');
+  }
+  track.behavioralPrompts.forEach((p, i) => {
+    if (!p.category || p.question.length < 10) problems.push(`behavioralPrompts[${i}] needs a category and a question`);
+  });
+  for (const [dimension, multiplier] of Object.entries(track.gradingEmphasis)) {
+    if (!DIMENSIONS.includes(dimension)) problems.push(`gradingEmphasis.${dimension} is not a rubric dimension`);
+    if (!(typeof multiplier === 'number' && multiplier > 0)) problems.push(`gradingEmphasis.${dimension} must be a positive number`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Track ${index + 1}${track.id ? ` (${track.id})` : ''}: ${problems.join('; ')}`);
+  }
+  return track;
+}
+
+async function importTracks(file) {
+  const raw = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(raw)) {
+    throw new Error('Import must be a JSON array of tracks');
+  }
+  const tracks = raw.map(normalizeTrack);
+  const now = new Date();
+
+  const refs = tracks.map(({ id }) => db.collection(COLLECTION).doc(id));
+  const existing = await db.getAll(...refs);
+  const batch = db.batch();
+  tracks.forEach(({ id: _id, ...track }, i) => {
+    batch.set(refs[i], { ...track, updatedAt: now, ...(existing[i].exists ? {} : { createdAt: now }) });
+  });
+  await batch.commit();
+  console.log(`Imported ${tracks.length} company tracks into ${COLLECTION}`);
+}
+
+async function exportTracks(file) {
+  const snapshot = await db.collection(COLLECTION).orderBy('company').get();
+  const tracks = snapshot.docs.map((doc) => {
+    const { createdAt: _createdAt, updatedAt: _updatedAt, ...data } = doc.data();
+    return { id: doc.id, ...data };
+  });
+
+  writeFileSync(file, JSON.stringify(tracks, null, 2) + '\n');
+  console.log(`Exported ${tracks.length} company tracks to ${file}`);
+}
+
+async function main() {
+  const [command, file] = process.argv.slice(2);
+  if (!['import', 'export'].includes(command) || !file) {
+    console.error('Usage: node scripts/company-tracks.mjs <import|export> <file.json>');
+    process.exit(1);
+  }
+
+  if (command === 'import') {
+    await importTracks(file);
+  } else {
+    await exportTracks(file);
+  }
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error('Company tracks command failed:', err.message || err);
+  process.exit(1);
+});
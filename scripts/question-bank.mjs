@@ -0,0 +1,236 @@
+import admin from 'firebase-admin';
+import { readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import { createRequire } from 'module';
+const require = createRequire(import.meta.url);
+const serviceAccount = require('../secrets/service-account.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+const COLLECTION = 'question_bank';
+const CHALLENGE_COLLECTION = 'coding_challenges'; // Hidden tests, read by the backend only
+const COLUMNS = ['id', 'role', 'skill', 'difficulty', 'type', 'question', 'tags', 'referenceAnswer', 'functionName', 'testCases'];
+const DIFFICULTIES = ['basic', 'intermediate', 'advanced'];
+const TYPES = ['conceptual', 'coding', 'design'];
+const BATCH_SIZE = 200; // Firestore allows 500 writes per batch; coding questions take two
+
+// Usage:
+//   node scripts/question-bank.mjs import <file.json|file.csv>
+//   node scripts/question-bank.mjs export <file.json|file.csv>
+// CSV columns: id,role,skill,difficulty,type,question,tags,referenceAnswer,functionName,testCases
+// (tags separated by "|"; id may be empty to create a new question)
+// Coding questions may carry hidden tests: functionName plus testCases, a JSON
+// array of { "input": "<JSON argument array>", "expected": "<JSON value>" }.
+// The tests are stored in coding_challenges under the question's id; the bank
+// document (readable by candidates) only keeps the function name and count.
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+  return body.map((cells) =>
+    Object.fromEntries(header.map((column, i) => [column.trim(), cells[i] ?? '']))
+  );
+}
+
+function toCsv(entries) {
+  const escape = (value) => {
+    const text = String(value ?? '');
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = entries.map((entry) =>
+    COLUMNS.map((column) => {
+      if (column === 'tags') return escape((entry.tags || []).join('|'));
+      if (column === 'testCases') return escape(entry.testCases ? JSON.stringify(entry.testCases) : '');
+      return escape(entry[column]);
+    }).join(',')
+  );
+  return [COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+function normalizeEntry(raw, index) {
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags
+    : String(raw.tags || '').split('|').map((t) => t.trim()).filter(Boolean);
+  const entry = {
+    id: raw.id ? String(raw.id).trim() : '',
+    role: String(raw.role || '').trim(),
+    skill: String(raw.skill || '').trim(),
+    difficulty: String(raw.difficulty || '').trim().toLowerCase(),
+    type: String(raw.type || 'conceptual').trim().toLowerCase(),
+    question: String(raw.question || '').trim(),
+    tags,
+    referenceAnswer: String(raw.referenceAnswer || '').trim(),
+  };
+
+  const problems = [];
+  if (!entry.role) problems.push('role is required (use "any" for role-agnostic questions)');
+  if (!entry.skill) problems.push('skill is required');
+  if (!DIFFICULTIES.includes(entry.difficulty)) problems.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  if (!TYPES.includes(entry.type)) problems.push(`type must be one of ${TYPES.join(', ')}`);
+  if (entry.question.length < 10) problems.push('question must be at least 10 characters');
+  if (!entry.referenceAnswer) problems.push('referenceAnswer is required');
+
+  const functionName = String(raw.functionName || '').trim();
+  if (functionName) {
+    const testCases = parseTestCases(raw.testCases, problems);
+    if (entry.type !== 'coding') problems.push('functionName/testCases are only allowed on coding questions');
+    if (!/^[A-Za-z_][A-Za-z0-9_]{0,63}$/.test(functionName)) {
+      problems.push('functionName must be letters, digits and underscores (valid in JavaScript and Python)');
+    }
+    entry.challenge = { functionName, testCases };
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Entry ${index + 1}: ${problems.join('; ')}`);
+  }
+  return entry;
+}
+
+function parseTestCases(value, problems) {
+  let testCases = value;
+  if (typeof value === 'string') {
+    try {
+      testCases = JSON.parse(value);
+    } catch {
+      problems.push('testCases must be valid JSON');
+      return [];
+    }
+  }
+
+  const isJson = (text) => {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  const valid =
+    Array.isArray(testCases) &&
+    testCases.length > 0 &&
+    testCases.every(
+      (t) =>
+        typeof t?.input === 'string' &&
+        typeof t?.expected === 'string' &&
+        isJson(t.input) &&
+        Array.isArray(JSON.parse(t.input)) &&
+        isJson(t.expected)
+    );
+  if (!valid) {
+    problems.push('testCases must be a non-empty array of { input: JSON argument array, expected: JSON value } strings');
+    return [];
+  }
+  return testCases.map((t) => ({ input: t.input, expected: t.expected }));
+}
+
+async function importQuestions(file) {
+  const text = readFileSync(file, 'utf8');
+  const raw = extname(file).toLowerCase() === '.csv' ? parseCsv(text) : JSON.parse(text);
+  if (!Array.isArray(raw)) {
+    throw new Error('JSON import must be an array of questions');
+  }
+  const entries = raw.map(normalizeEntry);
+  const now = new Date();
+
+  for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+    const chunk = entries.slice(start, start + BATCH_SIZE);
+    const refs = chunk.map(({ id }) => (id ? db.collection(COLLECTION).doc(id) : db.collection(COLLECTION).doc()));
+    const existing = await db.getAll(...refs);
+
+    const batch = db.batch();
+    chunk.forEach(({ id: _id, challenge, ...entry }, i) => {
+      if (challenge) {
+        batch.set(db.collection(CHALLENGE_COLLECTION).doc(refs[i].id), { ...challenge, updatedAt: now });
+      }
+      batch.set(
+        refs[i],
+        {
+          ...entry,
+          ...(challenge
+            ? { challenge: { functionName: challenge.functionName, testCount: challenge.testCases.length } }
+            : {}),
+          roleKey: entry.role.toLowerCase(),
+          updatedAt: now,
+          ...(existing[i].exists ? {} : { createdAt: now }),
+        },
+        { merge: true }
+      );
+    });
+    await batch.commit();
+  }
+  console.log(`Imported ${entries.length} questions into ${COLLECTION}`);
+}
+
+async function exportQuestions(file) {
+  const snapshot = await db.collection(COLLECTION).orderBy('roleKey').get();
+  const challenges = snapshot.empty
+    ? []
+    : await db.getAll(...snapshot.docs.map((doc) => db.collection(CHALLENGE_COLLECTION).doc(doc.id)));
+  const entries = snapshot.docs.map((doc, i) => {
+    const data = doc.data();
+    const challenge = challenges[i].data();
+    const fields = { ...data, id: doc.id, functionName: challenge?.functionName, testCases: challenge?.testCases };
+    return Object.fromEntries(COLUMNS.map((column) => [column, fields[column] ?? '']));
+  });
+
+  const output = extname(file).toLowerCase() === '.csv' ? toCsv(entries) : JSON.stringify(entries, null, 2) + '\n';
+  writeFileSync(file, output);
+  console.log(`Exported ${entries.length} questions to ${file}`);
+}
+
+async function main() {
+  const [command, file] = process.argv.slice(2);
+  if (!['import', 'export'].includes(command) || !file) {
+    console.error('Usage: node scripts/question-bank.mjs <import|export> <file.json|file.csv>');
+    process.exit(1);
+  }
+
+  if (command === 'import') {
+    await importQuestions(file);
+  } else {
+    await exportQuestions(file);
+  }
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error('Question bank command failed:', err.message || err);
+  process.exit(1);
+});
@@ -10,8 +10,17 @@ import { LoadingSpinner } from './components/LoadingSpinner';
 import { Card } from './components/Card';
 import { Button } from './components/Button';
 import { NotificationBell } from './components/NotificationBell';
+import { RecordingUploadStatus } from './components/RecordingUploadStatus';
 import { useAuth } from './hooks/useAuth';
 import { useInterview } from './hooks/useInterview';
+import { followUpEngine } from './services/follow-up';
+import { behavioralInterview } from './services/behavioral-interview';
+import { rubricScoring } from './services/rubric-scoring';
+import { questionTiming } from './services/question-timing';
+import { interviewHints } from './services/interview-hints';
+import { answerGuard } from './services/answer-guard';
+import { speechAnalytics } from './services/speech-analytics';
+import { interviewTemplates } from './services/interview-templates';
 import { initializeFirebase, getFirebaseInstances } from './services/firebase';
 import {
   initializeFirestoreService,
@@ -29,9 +38,21 @@ import { initializePreferencesService } from './services/preferences';
 import { initializeMessagingService } from './services/messaging';
 import { initializeAnalyticsService } from './services/analytics';
 import { initializeFileStorageService } from './services/file-storage';
+import { initializeQuestionBankService } from './services/question-bank';
+import { initializeCompanyTrackService } from './services/company-tracks';
+import { initializeQuestionSetService } from './services/question-sets';
 import { createLogger } from './utils/logger';
+import { INTERVIEW_ABANDON_TIMEOUT_MS } from './utils/constants';
 import { Logo } from './components/Logo';
-import type { AlertState, UserProfile } from './types';
+import type {
+  AlertState,
+  CodeLanguage,
+  InterviewSession,
+  InterviewTrack,
+  StartInterviewOptions,
+  SubmitAnswerOptions,
+  UserProfile,
+} from './types';
 
 // Lazy load page components for better code splitting
 const SetupScreen = lazy(() => import('./pages/SetupScreen').then(m => ({ default: m.SetupScreen })));
@@ -87,10 +108,17 @@ export const App: React.FC = () => {
   const {
     currentSession,
     isLoading: isInterviewLoading,
+    isEvaluating,
+    isHintLoading,
+    isRecording,
+    streamingFeedback,
     startInterview,
     submitAnswer,
+    requestHint,
     nextQuestion,
     finishInterview,
+    resumeInterview,
+    cancelInterview,
     abandonInterview,
   } = useInterview(userProfile, userId, resumeExperience);
 
@@ -111,6 +139,9 @@ export const App: React.FC = () => {
         initializeMessagingService(db);
         initializeAnalyticsService(db);
         initializeFileStorageService();
+        initializeQuestionBankService(db);
+        initializeCompanyTrackService(db);
+        initializeQuestionSetService(db);
         
         // Initialize reminder scheduler for automated notifications
         initializeReminderScheduler(db);
@@ -175,6 +206,11 @@ export const App: React.FC = () => {
 
           // Subscribe to interview history
           if (profile) {
+            // Sessions idle past the timeout are no longer offered for resume
+            firestoreService
+              .abandonStaleInterviewSessions(userId, INTERVIEW_ABANDON_TIMEOUT_MS)
+              .catch((error) => logger.warn({ error }, 'Failed to abandon stale interviews'));
+
             const unsubscribe = firestoreService.subscribeToInterviewHistory(
               userId,
               (sessions) => setInterviewHistory(sessions),
@@ -381,6 +417,10 @@ export const App: React.FC = () => {
           name: profileData.name || userProfile?.name, // IMPORTANT: Preserve name
           phoneNumber: profileData.phoneNumber || userProfile?.phoneNumber, // IMPORTANT: Preserve phone
           resumeUrl: profileData.resumeUrl || userProfile?.resumeUrl,
+          interviewTemplateId: profileData.interviewTemplateId || userProfile?.interviewTemplateId,
+          targetJob: profileData.targetJob !== undefined ? profileData.targetJob : userProfile?.targetJob,
+          companyTrackId:
+            profileData.companyTrackId !== undefined ? profileData.companyTrackId : userProfile?.companyTrackId,
           userType: profileData.userType || userProfile?.userType || 'candidate',
           interviewerProfile: profileData.interviewerProfile || userProfile?.interviewerProfile,
         } as UserProfile;
@@ -477,10 +517,10 @@ export const App: React.FC = () => {
     [userId, userProfile, showAlert]
   );
 
-  const handleStartInterview = useCallback(async () => {
+  const handleStartInterview = useCallback(async (track: InterviewTrack, options: StartInterviewOptions) => {
     try {
-      await startInterview();
-      logger.info('Interview started');
+      await startInterview(track, options);
+      logger.info({ track, ...options }, 'Interview started');
     } catch (error) {
       logger.error({ error }, 'Failed to start interview');
       showAlert({
@@ -490,10 +530,18 @@ export const App: React.FC = () => {
     }
   }, [startInterview, showAlert]);
 
+  const handleResumeInterview = useCallback(
+    (session: InterviewSession) => {
+      resumeInterview(session);
+      showAlert({ message: 'Welcome back! Picking up where you left off.', type: 'info' });
+    },
+    [resumeInterview, showAlert]
+  );
+
   const handleSubmitAnswer = useCallback(
-    async (answer: string) => {
+    async (answer: string, codeLanguage?: CodeLanguage, options?: SubmitAnswerOptions) => {
       try {
-        await submitAnswer(answer);
+        await submitAnswer(answer, codeLanguage, options);
       } catch (error) {
         logger.error({ error }, 'Failed to submit answer');
         showAlert({
@@ -515,8 +563,14 @@ export const App: React.FC = () => {
     }
 
     try {
-      if (currentSession.questions.length < 5) {
-        // More questions to answer
+      const questionCount = interviewTemplates.getQuestionCount(
+        interviewTemplates.forSession(currentSession)
+      );
+      if (
+        currentSession.questions.length < questionCount ||
+        followUpEngine.shouldAskFollowUp(currentSession)
+      ) {
+        // More questions (or a follow-up on the last answer) to answer
         await nextQuestion();
       } else {
         // All questions answered, finish interview
@@ -652,6 +706,7 @@ export const App: React.FC = () => {
               profile={userProfile!}
               history={interviewHistory}
               onStartInterview={handleStartInterview}
+              onResumeInterview={handleResumeInterview}
               onEditProfile={() => setScreen('setup')}
               onBookInterview={() => setScreen('bookInterview')}
               onViewDashboard={() => {
@@ -859,8 +914,13 @@ export const App: React.FC = () => {
                   <SpeechInterviewScreen
                     session={currentSession}
                     onSubmitAnswer={handleSubmitAnswer}
-                    onExit={() => {
-                      abandonInterview();
+                    onRequestHint={requestHint}
+                    isEvaluating={isEvaluating}
+                    isHintLoading={isHintLoading}
+                    isRecording={isRecording}
+                    streamingFeedback={streamingFeedback}
+                    onExit={async () => {
+                      await cancelInterview();
                       setScreen('lobby');
                       showAlert({
                         message: 'Interview cancelled.',
@@ -869,15 +929,14 @@ export const App: React.FC = () => {
                     }}
                   />
 
-                  {currentSession.questions[currentSession.questions.length - 1]
-                    ?.score && (
+                  {followUpEngine.getActivePrompt(currentSession)?.score && (
                     <FeedbackModal
                       score={
                         currentSession.questions.length > 0
                           ? parseFloat(
                               (
                                 currentSession.questions.reduce(
-                                  (sum, q) => sum + (q.score || 0),
+                                  (sum, q) => sum + followUpEngine.getQuestionScore(q),
                                   0
                                 ) / currentSession.questions.length
                               ).toFixed(1)
@@ -888,10 +947,40 @@ export const App: React.FC = () => {
                         .filter((q) => q.feedback)
                         .map((q) => ({
                           question: q.qText,
-                          score: q.score || 0,
+                          score: followUpEngine.getQuestionScore(q),
                           feedback: q.feedback || '',
                           improvements: q.improvementSuggestions,
+                          ...(q.rubric ? { rubric: q.rubric } : {}),
+                          ...(q.codeExecution ? { codeExecution: q.codeExecution } : {}),
+                          star: behavioralInterview.getThreadStar(q),
+                          ...(q.confidence ? { confidence: q.confidence } : {}),
+                          timeSpentSeconds: questionTiming.getThreadTime(q),
+                          hints: interviewHints.getThreadHints(q),
+                          flags: answerGuard.getThreadFlags(q),
+                          delivery: speechAnalytics.getThreadDelivery(q),
+                          ...(q.timeLimitSeconds ? { timeLimitSeconds: q.timeLimitSeconds } : {}),
+                          ...(q.timedOut ? { timedOut: true } : {}),
+                          ...(q.modelAnswer
+                            ? {
+                                modelAnswer: q.modelAnswer,
+                                answer: [q, ...(q.followUps || [])]
+                                  .map((f) => f.answerText)
+                                  .filter(Boolean)
+                                  .join('\n'),
+                              }
+                            : {}),
+                          followUps: (q.followUps || [])
+                            .filter((f) => f.feedback)
+                            .map((f) => ({
+                              question: f.qText,
+                              score: f.score || 0,
+                              feedback: f.feedback || '',
+                              ...(f.confidence ? { confidence: f.confidence } : {}),
+                            })),
                         }))}
+                      rubricAverages={rubricScoring.getDimensionAverages(currentSession.questions)}
+                      timeByCategory={questionTiming.getCategoryTimes(currentSession.questions)}
+                      speechDelivery={speechAnalytics.getSessionDelivery(currentSession.questions)}
                       role={currentSession.role}
                       onRetake={handleNextQuestion}
                       onExit={() => setScreen('lobby')}
@@ -999,6 +1088,9 @@ export const App: React.FC = () => {
         {alert && (
           <Alert {...alert} onClose={() => setAlert(null)} />
         )}
+
+        {/* Interview recordings uploading in the background */}
+        <RecordingUploadStatus />
       </div>
     </ErrorBoundary>
   );
@@ -0,0 +1,135 @@
+/**
+ * @file components/AiUsagePanel.tsx
+ * @description Candidate's AI usage today and over the past week, against
+ * their plan's daily quota
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Card } from './Card';
+import { LoadingSpinner } from './LoadingSpinner';
+import { aiUsageService } from '../services/ai-usage';
+import { createLogger } from '../utils/logger';
+import { Activity } from 'lucide-react';
+import type { AiUsageOverview } from '../types';
+
+const logger = createLogger('ai-usage-panel');
+
+const formatNumber = (value: number): string => value.toLocaleString();
+
+export const AiUsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<AiUsageOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        setUsage(await aiUsageService.getUsage());
+      } catch (error) {
+        logger.error({ error }, 'Failed to load AI usage');
+        setLoadError('AI usage is unavailable right now.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadUsage();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!usage) {
+    return (
+      <Card className="p-6">
+        <p className="text-gray-600">{loadError}</p>
+      </Card>
+    );
+  }
+
+  const used = aiUsageService.getQuotaUsed(usage);
+  const exhausted = used >= 1;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Activity className="h-6 w-6 text-blue-600" />
+          AI Usage
+        </h2>
+        <span
+          className={`px-3 py-1 rounded-full text-xs font-semibold ${
+            usage.tier === 'paid' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          {usage.tier === 'paid' ? 'Paid plan' : 'Free plan'}
+        </span>
+      </div>
+
+      <div className="mb-6">
+        <div className="flex justify-between text-sm text-gray-700 mb-2">
+          <span>Today's quota</span>
+          <span className="font-semibold">{Math.round(used * 100)}% used</span>
+        </div>
+        <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${exhausted ? 'bg-red-500' : used > 0.8 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+            style={{ width: `${Math.round(used * 100)}%` }}
+          />
+        </div>
+        {exhausted && (
+          <p className="text-sm text-red-700 mt-2">
+            You've used today's AI quota. AI interviews resume after midnight UTC.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
+          <p className="text-xs font-semibold text-gray-500 uppercase">AI calls today</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {formatNumber(usage.today.calls)}
+            <span className="text-sm font-normal text-gray-500"> / {formatNumber(usage.quota.dailyCalls)}</span>
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {usage.today.operations.questions} questions · {usage.today.operations.evaluate} evaluations ·{' '}
+            {usage.today.operations.followUp} follow-ups · {usage.today.operations.modelAnswer} model answers ·{' '}
+            {usage.today.operations.jobDescription} job descriptions · {usage.today.operations.hint} hints ·{' '}
+            {usage.today.operations.translate} translations
+          </p>
+        </div>
+        <div className="p-4 bg-purple-50 rounded-xl border border-purple-100">
+          <p className="text-xs font-semibold text-gray-500 uppercase">Tokens today</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {formatNumber(usage.today.totalTokens)}
+            <span className="text-sm font-normal text-gray-500"> / {formatNumber(usage.quota.dailyTokens)}</span>
+          </p>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Past 7 days</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 font-medium">Date</th>
+            <th className="py-1 font-medium text-right">Calls</th>
+            <th className="py-1 font-medium text-right">Tokens</th>
+          </tr>
+        </thead>
+        <tbody>
+          {usage.history.map((day) => (
+            <tr key={day.date} className="border-t border-gray-100">
+              <td className="py-1 text-gray-700">{day.date}</td>
+              <td className="py-1 text-right text-gray-900">{formatNumber(day.calls)}</td>
+              <td className="py-1 text-right text-gray-900">{formatNumber(day.totalTokens)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Card>
+  );
+};
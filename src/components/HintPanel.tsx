@@ -0,0 +1,56 @@
+/**
+ * @file components/HintPanel.tsx
+ * @description Hints revealed on the current prompt and a button for the next
+ * tier, with the score cap it brings
+ */
+
+import { Button } from './Button';
+import { HINT_LEVELS } from '../utils/constants';
+import { interviewHints } from '../services/interview-hints';
+import type { InterviewQuestion } from '../types';
+
+interface HintPanelProps {
+  prompt: InterviewQuestion;
+  onRequestHint: () => void;
+  isLoading?: boolean;
+  disabled?: boolean;
+  error?: string;
+}
+
+export const HintPanel: React.FC<HintPanelProps> = ({ prompt, onRequestHint, isLoading = false, disabled = false, error }) => {
+  const hints = prompt.hints || [];
+  const nextLevel = interviewHints.getNextLevel(prompt);
+  const next = HINT_LEVELS.find((h) => h.level === nextLevel);
+
+  return (
+    <div style={{ background: 'white', padding: 'clamp(16px, 4vw, 24px)', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '24px', borderLeft: '4px solid #f59e0b' }}>
+      {hints.length > 0 && (
+        <ol aria-live="polite" style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginBottom: '16px', listStyle: 'none', padding: 0 }}>
+          {hints.map((hint) => (
+            <li key={hint.level}>
+              <p style={{ fontSize: '13px', fontWeight: '600', color: '#b45309', marginBottom: '4px' }}>
+                💡 {interviewHints.getLabel(hint.level)}
+              </p>
+              <p style={{ fontSize: '14px', color: '#333', lineHeight: '1.6', whiteSpace: 'pre-wrap', margin: 0 }}>{hint.text}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        {next ? (
+          <>
+            <Button onClick={onRequestHint} variant="outline" size="sm" disabled={disabled || isLoading}>
+              {isLoading ? '⏳ Thinking...' : `💡 ${hints.length === 0 ? 'Stuck? Get a hint' : 'Next hint'}: ${next.label}`}
+            </Button>
+            <span style={{ fontSize: '13px', color: '#666' }}>Caps this answer at {next.maxScore}/5</span>
+          </>
+        ) : (
+          <span style={{ fontSize: '13px', color: '#666' }}>
+            No more hints for this question. This answer is capped at {interviewHints.getMaxScore(hints)}/5.
+          </span>
+        )}
+      </div>
+      {error && <p style={{ fontSize: '13px', color: '#dc2626', marginTop: '8px' }}>{error}</p>}
+    </div>
+  );
+};
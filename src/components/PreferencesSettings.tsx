@@ -13,6 +13,7 @@ import {
   type ApplicationPreferences 
 } from '../services/preferences';
 import { createLogger } from '../utils/logger';
+import { INTERVIEW_LANGUAGES } from '../utils/constants';
 import { Bell, Settings, Globe, Moon, Clock, RefreshCw } from 'lucide-react';
 
 const logger = createLogger('preferences-settings');
@@ -333,6 +334,9 @@ export const PreferencesSettings: React.FC<PreferencesSettingsProps> = ({ userId
                 <Globe className="inline h-4 w-4 mr-2" />
                 Language
               </label>
+              <p className="text-xs text-gray-500 mb-2">
+                AI interviews are held in this language: questions, feedback and speech.
+              </p>
               <select
                 value={applicationPrefs.language}
                 onChange={(e) =>
@@ -340,10 +344,9 @@ export const PreferencesSettings: React.FC<PreferencesSettingsProps> = ({ userId
                 }
                 className="w-full px-4 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-500 focus:outline-none"
               >
-                <option value="en">English</option>
-                <option value="es">Español</option>
-                <option value="fr">Français</option>
-                <option value="de">Deutsch</option>
+                {INTERVIEW_LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>{language.label}</option>
+                ))}
               </select>
             </div>
 
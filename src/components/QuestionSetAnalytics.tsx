@@ -0,0 +1,107 @@
+/**
+ * @file components/QuestionSetAnalytics.tsx
+ * @description Usage of an interviewer's question sets: practice runs,
+ * distinct candidates and their average score per set
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from './Badge';
+import { Card } from './Card';
+import { LoadingSpinner } from './LoadingSpinner';
+import { getQuestionSetService, isQuestionSetServiceAvailable, questionSets } from '../services/question-sets';
+import { createLogger } from '../utils/logger';
+import type { QuestionSetStats } from '../types';
+
+const logger = createLogger('question-set-analytics');
+
+interface QuestionSetAnalyticsProps {
+  interviewerId: string;
+}
+
+export const QuestionSetAnalytics: React.FC<QuestionSetAnalyticsProps> = ({ interviewerId }) => {
+  const [stats, setStats] = useState<QuestionSetStats[]>([]);
+  const [isLoading, setIsLoading] = useState(isQuestionSetServiceAvailable());
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isQuestionSetServiceAvailable()) return;
+
+    const loadStats = async () => {
+      try {
+        const service = getQuestionSetService();
+        const sets = await service.getInterviewerSets(interviewerId);
+        const runs = await Promise.all(sets.map((set) => service.getRuns(set.id)));
+        setStats(sets.map((set, i) => questionSets.getStats(set, runs[i])));
+      } catch (error) {
+        logger.error({ error, interviewerId }, 'Failed to load question set usage');
+        setLoadError('Question set usage is unavailable right now.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadStats();
+  }, [interviewerId]);
+
+  if (!isQuestionSetServiceAvailable()) return null;
+
+  const totalRuns = stats.reduce((sum, s) => sum + s.runs, 0);
+
+  return (
+    <Card className="p-6 mt-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">📝 Question Set Usage</h2>
+        {stats.length > 0 && (
+          <span className="text-sm text-gray-600">
+            {totalRuns} practice {totalRuns === 1 ? 'session' : 'sessions'}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : loadError ? (
+        <p className="text-gray-600">{loadError}</p>
+      ) : stats.length === 0 ? (
+        <p className="text-gray-600">
+          You haven't written any question sets yet. Publish one from your dashboard so candidates can practice on it.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-semibold">Set</th>
+                <th className="py-2 pr-4 font-semibold">Sessions</th>
+                <th className="py-2 pr-4 font-semibold">Candidates</th>
+                <th className="py-2 pr-4 font-semibold">Completed</th>
+                <th className="py-2 pr-4 font-semibold">Avg score</th>
+                <th className="py-2 font-semibold">Last practiced</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((s) => (
+                <tr key={s.setId} className="border-b border-gray-100 last:border-0">
+                  <td className="py-3 pr-4">
+                    <span className="font-semibold text-gray-900">{s.title}</span>{' '}
+                    <Badge
+                      label={s.status === 'published' ? 'Published' : 'Draft'}
+                      variant={s.status === 'published' ? 'success' : 'secondary'}
+                      size="sm"
+                    />
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">{s.runs}</td>
+                  <td className="py-3 pr-4 text-gray-700">{s.candidates}</td>
+                  <td className="py-3 pr-4 text-gray-700">{s.completed}</td>
+                  <td className="py-3 pr-4 text-gray-700">{s.averageScore !== null ? `${s.averageScore}/5` : '—'}</td>
+                  <td className="py-3 text-gray-700">{s.lastRunAt ? s.lastRunAt.toLocaleDateString() : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
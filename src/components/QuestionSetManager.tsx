@@ -0,0 +1,363 @@
+/**
+ * @file components/QuestionSetManager.tsx
+ * @description Interviewer's question sets: write questions with reference
+ * answers and key concepts, weight the rubric, and publish the set for
+ * candidates' AI practice sessions
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { Card } from './Card';
+import { Input } from './Input';
+import { Textarea } from './Textarea';
+import { LoadingSpinner } from './LoadingSpinner';
+import {
+  GRADING_EMPHASIS_OPTIONS,
+  MAX_QUESTION_SET_QUESTIONS,
+  QUESTION_TYPES,
+  RUBRIC_DIMENSIONS,
+} from '../utils/constants';
+import {
+  getQuestionSetService,
+  isQuestionSetServiceAvailable,
+  questionSets,
+  type QuestionSetDraft,
+} from '../services/question-sets';
+import { createLogger } from '../utils/logger';
+import type { QuestionSet, QuestionSetItem, QuestionSetStatus, QuestionType, UserProfile } from '../types';
+
+const logger = createLogger('question-set-manager');
+
+const selectClassName = 'w-full px-3 py-2.5 border border-gray-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+interface QuestionSetManagerProps {
+  currentUser: UserProfile;
+}
+
+const newDraft = (currentUser: UserProfile): QuestionSetDraft => ({
+  interviewerId: currentUser.id,
+  interviewerName: currentUser.name || currentUser.email?.split('@')[0] || 'Interviewer',
+  title: '',
+  description: '',
+  skills: currentUser.skills.slice(0, 5),
+  questions: [questionSets.emptyQuestion()],
+  gradingEmphasis: {},
+  status: 'draft',
+});
+
+const toDraft = (set: QuestionSet): QuestionSetDraft => ({
+  interviewerId: set.interviewerId,
+  interviewerName: set.interviewerName,
+  title: set.title,
+  description: set.description,
+  skills: set.skills,
+  questions: set.questions,
+  gradingEmphasis: set.gradingEmphasis,
+  status: set.status,
+});
+
+export const QuestionSetManager: React.FC<QuestionSetManagerProps> = ({ currentUser }) => {
+  const [sets, setSets] = useState<QuestionSet[]>([]);
+  const [isLoading, setIsLoading] = useState(isQuestionSetServiceAvailable());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id?: string; draft: QuestionSetDraft } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSets = useCallback(async () => {
+    if (!isQuestionSetServiceAvailable()) return;
+    try {
+      setSets(await getQuestionSetService().getInterviewerSets(currentUser.id));
+      setLoadError(null);
+    } catch (error) {
+      logger.error({ error }, 'Failed to load question sets');
+      setLoadError('Your question sets could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadSets();
+  }, [loadSets]);
+
+  const updateDraft = (changes: Partial<QuestionSetDraft>) =>
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...changes } } : prev));
+
+  const updateQuestion = (index: number, changes: Partial<QuestionSetItem>) =>
+    setEditing((prev) =>
+      prev
+        ? {
+            ...prev,
+            draft: {
+              ...prev.draft,
+              questions: prev.draft.questions.map((q, i) => (i === index ? { ...q, ...changes } : q)),
+            },
+          }
+        : prev
+    );
+
+  const save = async (id: string | undefined, draft: QuestionSetDraft, status: QuestionSetStatus) => {
+    const normalized = questionSets.normalize({ ...draft, status });
+    const problem = questionSets.validate(normalized);
+    if (problem) {
+      setSaveError(problem);
+      return false;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await getQuestionSetService().saveSet(normalized, id);
+      await loadSets();
+      return true;
+    } catch (error) {
+      logger.error({ error, setId: id }, 'Failed to save question set');
+      setSaveError('The question set could not be saved. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (status: QuestionSetStatus) => {
+    if (!editing) return;
+    if (await save(editing.id, editing.draft, status)) setEditing(null);
+  };
+
+  const handleToggleStatus = async (set: QuestionSet) => {
+    const saved = await save(set.id, toDraft(set), set.status === 'published' ? 'draft' : 'published');
+    // Publishing an incomplete set fails validation; open it so the gaps can be filled
+    if (!saved && set.status === 'draft') setEditing({ id: set.id, draft: toDraft(set) });
+  };
+
+  const handleDelete = async (set: QuestionSet) => {
+    if (!window.confirm(`Delete "${set.title}"? Candidates will no longer be able to practice on it.`)) return;
+    try {
+      await getQuestionSetService().deleteSet(set.id);
+      await loadSets();
+    } catch (error) {
+      logger.error({ error, setId: set.id }, 'Failed to delete question set');
+      setLoadError('The question set could not be deleted.');
+    }
+  };
+
+  if (!isQuestionSetServiceAvailable()) return null;
+
+  return (
+    <Card className="p-4 sm:p-6 mt-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">📝 Question Sets</h2>
+          <p className="text-sm text-gray-600">
+            Publish your questions so candidates can practice on them with the AI interviewer.
+          </p>
+        </div>
+        {!editing && (
+          <Button
+            size="sm"
+            onClick={() => {
+              setSaveError(null);
+              setEditing({ draft: newDraft(currentUser) });
+            }}
+          >
+            + New set
+          </Button>
+        )}
+      </div>
+
+      {loadError && <p className="text-sm text-red-600 mb-4">{loadError}</p>}
+
+      {editing ? (
+        <div className="flex flex-col gap-4">
+          <Input
+            label="Title"
+            value={editing.draft.title}
+            onChange={(e) => updateDraft({ title: e.target.value })}
+            placeholder="e.g. Frontend performance deep dive"
+            maxLength={120}
+          />
+          <Textarea
+            label="Description"
+            value={editing.draft.description}
+            onChange={(e) => updateDraft({ description: e.target.value })}
+            rows={2}
+            maxLength={500}
+          />
+          <Input
+            label="Skills"
+            value={editing.draft.skills.join(',')}
+            onChange={(e) => updateDraft({ skills: e.target.value.split(',') })}
+            helperText="Comma-separated; used as context when grading answers and giving hints"
+          />
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-900 mb-2">Rubric emphasis</p>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {RUBRIC_DIMENSIONS.map(({ key, label }) => (
+                <label key={key} className="text-xs text-gray-600">
+                  {label}
+                  <select
+                    className={selectClassName}
+                    value={editing.draft.gradingEmphasis[key] ?? 1}
+                    onChange={(e) =>
+                      updateDraft({
+                        gradingEmphasis: { ...editing.draft.gradingEmphasis, [key]: Number(e.target.value) },
+                      })
+                    }
+                  >
+                    {GRADING_EMPHASIS_OPTIONS.map(({ value, label: optionLabel }) => (
+                      <option key={value} value={value}>{optionLabel}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {editing.draft.questions.map((item, index) => (
+            <div key={index} className="border border-gray-200 rounded-xl p-4 flex flex-col gap-3 bg-white">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-gray-800">Question {index + 1}</p>
+                {editing.draft.questions.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateDraft({ questions: editing.draft.questions.filter((_, i) => i !== index) })}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                label="Question"
+                value={item.question}
+                onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                rows={2}
+                maxLength={1000}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="text-sm font-semibold text-gray-900">
+                  Type
+                  <select
+                    className={selectClassName}
+                    value={item.type}
+                    onChange={(e) => updateQuestion(index, { type: e.target.value as QuestionType })}
+                  >
+                    {QUESTION_TYPES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                <Input
+                  label="Category"
+                  value={item.category}
+                  onChange={(e) => updateQuestion(index, { category: e.target.value })}
+                  placeholder="e.g. React"
+                  maxLength={50}
+                />
+                <Input
+                  label="Time limit (minutes)"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={Math.round(item.timeLimitSeconds / 60)}
+                  onChange={(e) => updateQuestion(index, { timeLimitSeconds: Math.max(1, Number(e.target.value) || 1) * 60 })}
+                />
+              </div>
+              <Textarea
+                label="Reference answer"
+                value={item.referenceAnswer}
+                onChange={(e) => updateQuestion(index, { referenceAnswer: e.target.value })}
+                rows={4}
+                maxLength={5000}
+              />
+              <Textarea
+                label="Key concepts"
+                value={item.keyConcepts.join('\n')}
+                onChange={(e) => updateQuestion(index, { keyConcepts: e.target.value.split('\n') })}
+                rows={3}
+                helperText="One per line: the points a strong answer covers. Left empty, they are extracted from the reference answer."
+              />
+            </div>
+          ))}
+
+          {editing.draft.questions.length < MAX_QUESTION_SET_QUESTIONS && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateDraft({ questions: [...editing.draft.questions, questionSets.emptyQuestion()] })}
+            >
+              + Add question
+            </Button>
+          )}
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <div className="flex flex-wrap gap-3 justify-end">
+            <Button variant="ghost" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="secondary" onClick={() => handleSave('draft')} disabled={isSaving}>
+              Save draft
+            </Button>
+            <Button onClick={() => handleSave('published')} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Publish'}
+            </Button>
+          </div>
+        </div>
+      ) : isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : sets.length === 0 ? (
+        <p className="text-gray-600 py-4">
+          You have no question sets yet. Candidates who practice on your questions get to know your interview style
+          before they book you.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          {sets.map((set) => (
+            <div key={set.id} className="border border-gray-200 rounded-xl p-4 bg-white flex flex-wrap items-center justify-between gap-3">
+              <div className="flex-1 min-w-[200px]">
+                <div className="flex items-center gap-2 mb-1 flex-wrap">
+                  <h3 className="font-bold text-gray-900">{set.title}</h3>
+                  <Badge
+                    label={set.status === 'published' ? 'Published' : 'Draft'}
+                    variant={set.status === 'published' ? 'success' : 'secondary'}
+                    size="sm"
+                  />
+                </div>
+                <p className="text-sm text-gray-600">
+                  {set.questions.length} question{set.questions.length === 1 ? '' : 's'}
+                  {set.skills.length > 0 ? ` • ${set.skills.join(', ')}` : ''}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setSaveError(null);
+                    setEditing({ id: set.id, draft: toDraft(set) });
+                  }}
+                  disabled={isSaving}
+                >
+                  Edit
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => handleToggleStatus(set)} disabled={isSaving}>
+                  {set.status === 'published' ? 'Unpublish' : 'Publish'}
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => handleDelete(set)} disabled={isSaving}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
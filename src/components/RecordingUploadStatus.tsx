@@ -0,0 +1,80 @@
+/**
+ * @file components/RecordingUploadStatus.tsx
+ * @description Floating list of interview recordings being uploaded, with
+ * pause/resume and retry; warns before the page is closed mid-upload
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { Progress } from './Progress';
+import { recordingUploads } from '../services/session-recording';
+import type { RecordingUpload } from '../types';
+
+const STATUS_TEXT: Record<RecordingUpload['status'], string> = {
+  uploading: 'Uploading',
+  paused: 'Paused',
+  failed: 'Failed',
+  done: 'Saved',
+};
+
+export const RecordingUploadStatus: React.FC = () => {
+  const [uploads, setUploads] = useState<RecordingUpload[]>([]);
+
+  useEffect(() => recordingUploads.subscribe(setUploads), []);
+
+  // Recordings only live in memory until they are uploaded
+  const hasPending = uploads.some((upload) => upload.status !== 'done');
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [hasPending]);
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 p-4 space-y-3">
+      <p className="text-sm font-semibold text-gray-900">🎬 Interview recordings</p>
+      {uploads.map((upload) => (
+        <div key={upload.id}>
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-sm text-gray-700 truncate">{upload.label}</span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {STATUS_TEXT[upload.status]}
+              {upload.status === 'uploading' || upload.status === 'paused' ? ` ${upload.progress}%` : ''}
+            </span>
+          </div>
+          <Progress
+            value={upload.progress}
+            variant={upload.status === 'failed' ? 'danger' : upload.status === 'done' ? 'success' : 'primary'}
+          />
+          {upload.error && <p className="text-xs text-red-600 mt-1">{upload.error}</p>}
+          <div className="flex gap-2 mt-2">
+            {upload.status === 'uploading' && (
+              <Button variant="ghost" size="sm" onClick={() => recordingUploads.pause(upload.id)}>
+                Pause
+              </Button>
+            )}
+            {upload.status === 'paused' && (
+              <Button variant="ghost" size="sm" onClick={() => recordingUploads.resume(upload.id)}>
+                Resume
+              </Button>
+            )}
+            {upload.status === 'failed' && (
+              <Button variant="ghost" size="sm" onClick={() => recordingUploads.retry(upload.id)}>
+                Retry
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => recordingUploads.dismiss(upload.id)}>
+              {upload.status === 'done' ? 'Dismiss' : 'Discard'}
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
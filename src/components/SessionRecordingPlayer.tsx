@@ -0,0 +1,137 @@
+/**
+ * @file components/SessionRecordingPlayer.tsx
+ * @description Playback of an AI interview recording with a chapter per
+ * question: picking a question jumps to where it was asked (or plays its
+ * clip), and the question being answered is highlighted as it plays
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { getFirestoreService } from '../services/firestore';
+import { sessionRecording } from '../services/session-recording';
+import { questionTiming } from '../services/question-timing';
+import { createLogger } from '../utils/logger';
+import type { InterviewSession, SavedRecording } from '../types';
+
+const logger = createLogger('session-recording-player');
+
+interface SessionRecordingPlayerProps {
+  session: InterviewSession;
+}
+
+export const SessionRecordingPlayer: React.FC<SessionRecordingPlayerProps> = ({ session }) => {
+  const [recordings, setRecordings] = useState<SavedRecording[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const chapters = useMemo(
+    () => (recordings ? sessionRecording.getChapters(session, recordings) : []),
+    [session, recordings]
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Seek to apply once a newly selected clip has loaded
+  const pendingSeek = useRef<number | null>(null);
+
+  useEffect(() => {
+    const loadRecordings = async () => {
+      try {
+        setRecordings(await getFirestoreService().getSessionRecordings(session.userId, session.id));
+      } catch (error) {
+        logger.error({ error, sessionId: session.id }, 'Failed to load session recordings');
+        setLoadError('The recording is unavailable right now.');
+      }
+    };
+    loadRecordings();
+  }, [session.userId, session.id]);
+
+  if (loadError) {
+    return <p className="text-sm text-gray-600">{loadError}</p>;
+  }
+
+  if (!recordings) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (chapters.length === 0) {
+    return <p className="text-sm text-gray-600">No questions were recorded in this session.</p>;
+  }
+
+  const active = chapters[Math.min(activeIndex, chapters.length - 1)];
+
+  const jumpTo = (index: number) => {
+    const chapter = chapters[index];
+    const video = videoRef.current;
+    setActiveIndex(index);
+    if (!video) return;
+
+    if (chapter.recording.url === active.recording.url) {
+      video.currentTime = chapter.startSeconds;
+      video.play().catch(() => undefined);
+    } else {
+      pendingSeek.current = chapter.startSeconds;
+    }
+  };
+
+  const handleLoaded = () => {
+    const video = videoRef.current;
+    if (!video || pendingSeek.current === null) return;
+
+    video.currentTime = pendingSeek.current;
+    pendingSeek.current = null;
+    video.play().catch(() => undefined);
+  };
+
+  // Follow the question being answered while a whole-session recording plays
+  const handleTimeUpdate = () => {
+    const time = videoRef.current?.currentTime ?? 0;
+    const index = chapters.reduce(
+      (found, chapter, i) => (chapter.recording.url === active.recording.url && chapter.startSeconds <= time ? i : found),
+      -1
+    );
+    if (index >= 0 && index !== activeIndex) setActiveIndex(index);
+  };
+
+  const audioOnly = sessionRecording.isAudioOnly(active.recording);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[2fr_1fr]">
+      <div>
+        <video
+          ref={videoRef}
+          src={active.recording.url}
+          controls
+          playsInline
+          preload="metadata"
+          onLoadedMetadata={handleLoaded}
+          onTimeUpdate={handleTimeUpdate}
+          className={audioOnly ? 'w-full h-12' : 'w-full rounded-lg bg-black'}
+        />
+        <p className="text-sm text-gray-700 mt-2">
+          <span className="font-semibold">{active.label}:</span> {active.question}
+        </p>
+      </div>
+      <ol className="space-y-1 max-h-80 overflow-y-auto">
+        {chapters.map((chapter, index) => (
+          <li key={`${chapter.prompt.questionIndex}-${chapter.prompt.followUpIndex}`}>
+            <button
+              type="button"
+              onClick={() => jumpTo(index)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                index === activeIndex ? 'bg-blue-50 text-blue-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="tabular-nums text-gray-500 mr-2">
+                {questionTiming.format(Math.floor(chapter.startSeconds))}
+              </span>
+              {chapter.label}
+              <span className="block text-xs text-gray-500 truncate">{chapter.question}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
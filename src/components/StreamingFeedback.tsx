@@ -0,0 +1,24 @@
+/**
+ * @file components/StreamingFeedback.tsx
+ * @description Evaluator feedback shown as it streams in while an answer is
+ * graded; the score and suggestions follow once grading completes
+ */
+
+interface StreamingFeedbackProps {
+  feedback: string | null;
+}
+
+export const StreamingFeedback: React.FC<StreamingFeedbackProps> = ({ feedback }) => (
+  <div
+    aria-live="polite"
+    style={{ background: 'white', padding: 'clamp(16px, 4vw, 24px)', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '24px', borderLeft: '4px solid #2563eb' }}
+  >
+    <p style={{ fontSize: '13px', fontWeight: '600', color: '#2563eb', marginBottom: '8px' }}>
+      ⏳ Evaluating your answer...
+    </p>
+    <p style={{ fontSize: '14px', color: '#333', lineHeight: '1.6', whiteSpace: 'pre-wrap', margin: 0 }}>
+      {feedback || 'Waiting for feedback'}
+      <span style={{ animation: 'pulse 1s infinite', marginLeft: '2px' }}>▍</span>
+    </p>
+  </div>
+);
@@ -7,24 +7,327 @@ import { useState, useCallback, useRef } from 'react';
 import { createLogger } from '../utils/logger';
 import { handleError } from '../utils/error-handler';
 import { geminiApiService } from '../services/gemini-api';
+import { adaptiveDifficultyEngine } from '../services/adaptive-difficulty';
+import { followUpEngine } from '../services/follow-up';
+import { rubricScoring } from '../services/rubric-scoring';
+import { behavioralInterview } from '../services/behavioral-interview';
+import { interviewTemplates } from '../services/interview-templates';
+import { questionHistory } from '../services/question-history';
+import { jobDescriptionService } from '../services/job-description';
+import { questionTiming } from '../services/question-timing';
+import { interviewLanguage } from '../services/interview-language';
+import { interviewPersona } from '../services/interview-persona';
+import { getPreferencesService } from '../services/preferences';
+import {
+  SessionRecorder,
+  recordingUploads,
+  sessionRecording,
+  type RecordedClip,
+} from '../services/session-recording';
+import {
+  getQuestionSetService,
+  isQuestionSetServiceAvailable,
+  questionSets,
+} from '../services/question-sets';
+import {
+  companyTracks,
+  getCompanyTrackService,
+  isCompanyTrackServiceAvailable,
+} from '../services/company-tracks';
 import { getFirestoreService } from '../services/firestore';
-import { INTERVIEW_LENGTH } from '../utils/constants';
+import { DEFAULT_INTERVIEW_LANGUAGE, DEFAULT_INTERVIEW_PERSONA, QUESTION_HISTORY_SESSIONS } from '../utils/constants';
 import type {
   InterviewSession,
+  InterviewHint,
+  InterviewLanguage,
   InterviewQuestion,
   ApiError,
   UserProfile,
+  CodeLanguage,
+  InterviewTrack,
+  PromptRef,
+  RecordingSettings,
+  StartInterviewOptions,
+  SubmitAnswerOptions,
+  CompanyTrack,
 } from '../types';
 
 const logger = createLogger('useInterview');
 
+const getElapsedSeconds = (startTime: number | null): number =>
+  startTime ? Math.floor((Date.now() - startTime) / 1000) : 0;
+
+/**
+ * Next main question for a session, shaped by its template slot (type,
+ * category, time limit). Queued retries go first; otherwise questions from
+ * past sessions are avoided. Behavioral sessions draw from the curated pool
+ * with no difficulty ladder; with a company track, its behavioral slots draw
+ * from the track's leadership-principle prompts. Sessions on an
+ * interviewer's question set ask its questions in order. Curated prompts are
+ * translated for sessions held in another language.
+ */
+const generateSessionQuestion = async (
+  session: InterviewSession,
+  pastQuestions: InterviewQuestion[]
+): Promise<InterviewQuestion> => {
+  const template = interviewTemplates.forSession(session);
+  const slot = interviewTemplates.getSlot(template, session.questions.length);
+  const timeLimit = slot ? { timeLimitSeconds: slot.timeLimitSeconds } : {};
+
+  const language = session.language ?? DEFAULT_INTERVIEW_LANGUAGE;
+
+  const setQuestion = session.questionSet && questionSets.toQuestion(session.questionSet, session.questions.length);
+  if (setQuestion) {
+    const { text, keyConcepts } = setQuestion.modelAnswer!;
+    const [qText, referenceAnswer, ...translatedConcepts] = await geminiApiService.translate(
+      [setQuestion.qText, text, ...keyConcepts],
+      language
+    );
+    return {
+      ...setQuestion,
+      qText,
+      modelAnswer: { text: referenceAnswer, keyConcepts: translatedConcepts, source: 'interviewer' },
+    };
+  }
+
+  const retry = questionHistory.pickRetry(session.retryQueue || [], session.questions, slot?.type);
+  if (retry) {
+    return { ...retry, ...timeLimit };
+  }
+
+  const pastTexts = pastQuestions.map((q) => q.qText);
+
+  const companyPrompts = session.companyTrack?.behavioralPrompts || [];
+  if (session.track === 'behavioral' || (slot?.type === 'behavioral' && companyPrompts.length > 0)) {
+    const next = behavioralInterview.pickQuestion(
+      session.questions,
+      pastTexts,
+      companyPrompts.length > 0 ? companyPrompts : undefined
+    );
+    const [qText] = await geminiApiService.translate([next.question], language);
+    return {
+      qText,
+      isCoding: false,
+      category: next.category,
+      type: 'behavioral',
+      ...timeLimit,
+    };
+  }
+
+  // Difficulty follows the latest score; topics steer toward weak/untested skills.
+  // A target job sets the starting level from its seniority.
+  const requirements = session.targetJob?.requirements;
+  const adaptivePlan = adaptiveDifficultyEngine.planNextQuestion(
+    session.skills,
+    session.questions,
+    session.resumeExperience,
+    requirements ? jobDescriptionService.getStartingDifficulty(requirements) : undefined
+  );
+  const slotPlan = slot ? interviewTemplates.applySlot(adaptivePlan, slot) : adaptivePlan;
+  // Most recent first: this session's questions, then past sessions'
+  const plan = {
+    ...slotPlan,
+    excludeQuestions: [...[...slotPlan.excludeQuestions].reverse(), ...pastTexts],
+  };
+
+  const question = await geminiApiService.generateQuestion(session.role, session.skills, plan, {
+    resumeExperience: session.resumeExperience,
+    jobContext: requirements ? jobDescriptionService.toPromptContext(requirements) : undefined,
+    companyContext: session.companyTrack ? companyTracks.toPromptContext(session.companyTrack) : undefined,
+    language,
+    persona: session.persona,
+  });
+
+  return {
+    qText: question.question,
+    isCoding: question.isCoding,
+    category: question.category,
+    type: question.type,
+    difficulty: plan.difficulty,
+    ...(question.challenge ? { challenge: question.challenge } : {}),
+    ...(question.referenceAnswer
+      ? { modelAnswer: { text: question.referenceAnswer, keyConcepts: [], source: 'question-bank' as const } }
+      : {}),
+    ...timeLimit,
+  };
+};
+
+// Time limits follow the persona's pace
+const withQuestion = (session: InterviewSession, question: InterviewQuestion): InterviewSession => ({
+  ...session,
+  questions: [
+    ...session.questions,
+    {
+      ...question,
+      ...(question.timeLimitSeconds
+        ? { timeLimitSeconds: interviewPersona.scaleTimeLimit(question.timeLimitSeconds, session.persona) }
+        : {}),
+      startedAt: Date.now(),
+    },
+  ],
+  ...(question.difficulty
+    ? { difficultyPath: [...(session.difficultyPath || []), question.difficulty] }
+    : {}),
+});
+
 export const useInterview = (userProfile: UserProfile | null, userId: string | null, resumeExperience?: string) => {
   const [currentSession, setCurrentSession] = useState<InterviewSession | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<ApiError | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  // Feedback text streamed while the current answer is graded
+  const [streamingFeedback, setStreamingFeedback] = useState<string | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
   const sessionStartTime = useRef<number | null>(null);
+  const pastQuestions = useRef<InterviewQuestion[]>([]);
+  const recorder = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  /**
+   * Questions from the candidate's recent sessions in the same language;
+   * history is best-effort
+   */
+  const loadPastQuestions = useCallback(async (language?: InterviewLanguage): Promise<InterviewQuestion[]> => {
+    if (!userId) return [];
 
-  const startInterview = useCallback(async () => {
+    try {
+      pastQuestions.current = await getFirestoreService().getPastInterviewQuestions(
+        userId,
+        QUESTION_HISTORY_SESSIONS,
+        language
+      );
+    } catch (err) {
+      logger.warn({ error: err }, 'Question history unavailable, repeats are not filtered');
+      pastQuestions.current = [];
+    }
+    return pastQuestions.current;
+  }, [userId]);
+
+  /**
+   * Interview language from the candidate's preferences; English when they
+   * cannot be read
+   */
+  const loadLanguage = useCallback(async (): Promise<InterviewLanguage> => {
+    if (!userId) return DEFAULT_INTERVIEW_LANGUAGE;
+
+    try {
+      const preferences = await getPreferencesService().getPreferences(userId);
+      return interviewLanguage.resolve(preferences.application.language);
+    } catch (err) {
+      logger.warn({ error: err }, 'Preferences unavailable, interviewing in English');
+      return DEFAULT_INTERVIEW_LANGUAGE;
+    }
+  }, [userId]);
+
+  /**
+   * The profile's company track; an unknown or unreadable track runs the
+   * session on its template instead
+   */
+  const loadCompanyTrack = useCallback(async (): Promise<CompanyTrack | undefined> => {
+    const trackId = userProfile?.companyTrackId;
+    if (!trackId || !isCompanyTrackServiceAvailable()) return undefined;
+
+    try {
+      const track = await getCompanyTrackService().getTrack(trackId);
+      if (!track) logger.warn({ trackId }, 'Company track not found, using template');
+      return track ?? undefined;
+    } catch (err) {
+      logger.warn({ error: err, trackId }, 'Company track unavailable, using template');
+      return undefined;
+    }
+  }, [userProfile?.companyTrackId]);
+
+  /**
+   * Persist the in-progress session so a refresh or crash can resume it.
+   * The first checkpoint creates the document and stores its id. Resolves to
+   * the session id, or undefined when the checkpoint failed.
+   */
+  const checkpointSession = useCallback(
+    async (session: InterviewSession): Promise<string | undefined> => {
+      if (!userId) return undefined;
+
+      try {
+        const sessionId = await getFirestoreService().saveInterviewSession(userId, {
+          ...session,
+          duration: getElapsedSeconds(sessionStartTime.current),
+        });
+        if (!session.id) {
+          setCurrentSession((prev) => (prev ? { ...prev, id: sessionId } : null));
+        }
+        logger.debug({ sessionId, questions: session.questions.length }, 'Session checkpointed');
+        return sessionId;
+      } catch (err) {
+        // The answer is still in memory; the next checkpoint will retry
+        logger.warn({ error: err }, 'Failed to checkpoint interview session');
+        return undefined;
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * Start capturing for an opted-in session. Recording is best-effort: the
+   * interview goes on without it when the browser cannot record or the
+   * candidate denies the camera or microphone.
+   */
+  const openRecorder = useCallback(async (settings: RecordingSettings): Promise<void> => {
+    recorder.current?.close();
+    recorder.current = null;
+    if (!sessionRecording.isSupported()) {
+      logger.warn('Recording not supported in this browser');
+      return;
+    }
+
+    const capture = new SessionRecorder(settings);
+    try {
+      await capture.open();
+      recorder.current = capture;
+      setIsRecording(true);
+      logger.info({ settings }, 'Session recording started');
+    } catch (err) {
+      capture.close();
+      setIsRecording(false);
+      logger.warn({ error: err }, 'Recording unavailable, continuing without it');
+    }
+  }, []);
+
+  const closeRecorder = useCallback(() => {
+    recorder.current?.close();
+    recorder.current = null;
+    setIsRecording(false);
+  }, []);
+
+  // Clips start when a prompt is shown, before its start time is taken
+  const beginClip = () => {
+    if (recorder.current?.settings.mode === 'clips') recorder.current.begin();
+  };
+
+  /**
+   * Upload an answer's clip; it is stored under the saved session
+   */
+  const uploadClip = useCallback(
+    (clip: RecordedClip | null, sessionId: string | undefined, prompt: PromptRef) => {
+      if (!clip || !userId) return;
+      if (!sessionId) {
+        logger.warn({ prompt }, 'Answer clip dropped: the session was not saved');
+        return;
+      }
+
+      recordingUploads.enqueue({
+        clip,
+        userId,
+        sessionId,
+        prompt,
+        label: sessionRecording.getPromptLabel(prompt),
+      });
+    },
+    [userId]
+  );
+
+  const startInterview = useCallback(async (
+    track: InterviewTrack = 'technical',
+    { repeatWeakQuestions = false, questionSet, persona = DEFAULT_INTERVIEW_PERSONA, recording }: StartInterviewOptions = {}
+  ) => {
     if (!userProfile || !userId) {
       setError(handleError(new Error('Missing profile or user ID')));
       return;
@@ -34,43 +337,106 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
     setError(null);
 
     try {
+      // Camera and microphone are asked for up front, while nothing is timed yet
+      if (recording) await openRecorder(recording);
       sessionStartTime.current = Date.now();
-
-      // First question is always "Introduce Yourself"
-      const firstQuestion: InterviewQuestion = {
-        qText: `Please introduce yourself. Tell us about your background, experience with ${userProfile.skills.slice(0, 2).join(' and ')}, and what you're looking to achieve in this role.`,
-        isCoding: false,
-        category: 'Introduction',
-      };
+      // A question set is the whole interview: no target job, company track or retries
+      const setSnapshot = questionSet ? questionSets.toSnapshot(questionSet) : undefined;
+      const targetJob = setSnapshot ? undefined : userProfile.targetJob || undefined;
+      const companyTrack = setSnapshot ? undefined : await loadCompanyTrack();
+      const template = setSnapshot
+        ? questionSets.toTemplate(setSnapshot)
+        : companyTrack
+          ? companyTracks.toTemplate(companyTrack)
+          : interviewTemplates.get(userProfile.interviewTemplateId);
+      const language = await loadLanguage();
+      const past = await loadPastQuestions(language);
+      // Retries stay within the track: behavioral questions only in behavioral sessions
+      const retryQueue = repeatWeakQuestions && !setSnapshot
+        ? questionHistory.getRetryQuestions(
+            past.filter((q) => (q.type === 'behavioral') === (track === 'behavioral')),
+            template.questions.length
+          )
+        : [];
 
       const newSession: InterviewSession = {
         id: '',
         userId,
         interviewType: 'ai',
+        track,
+        templateId: template.id,
         role: userProfile.role,
-        skills: userProfile.skills,
+        // A target job's required skills come first so they are probed first
+        skills: setSnapshot?.skills.length
+          ? setSnapshot.skills
+          : targetJob
+            ? jobDescriptionService.getInterviewSkills(targetJob.requirements, userProfile.skills)
+            : userProfile.skills,
+        ...(targetJob ? { targetJob } : {}),
+        ...(companyTrack ? { companyTrack } : {}),
+        ...(setSnapshot ? { questionSet: setSnapshot } : {}),
+        language,
+        persona,
+        ...(recording ? { recordingSettings: recording } : {}),
         resumeExperience,
         date: new Date(),
         score: 0,
         duration: 0,
-        questions: [firstQuestion],
+        questions: [],
+        difficultyPath: [],
+        ...(retryQueue.length > 0 ? { retryQueue } : {}),
         status: 'in-progress',
       };
 
-      setCurrentSession(newSession);
-      logger.info('Interview started with introduction question');
+      // Templates with an intro open with "Introduce Yourself"
+      const firstQuestion: InterviewQuestion = template.includeIntro
+        ? {
+            qText: interviewLanguage.getIntroQuestion(language, userProfile.skills),
+            isCoding: false,
+            category: 'Introduction',
+            timeLimitSeconds: template.introTimeLimitSeconds,
+          }
+        : await generateSessionQuestion(newSession, past);
+
+      // The run feeds the set author's stats; a session without one still counts for the candidate
+      if (setSnapshot && isQuestionSetServiceAvailable()) {
+        try {
+          newSession.questionSetRunId = await getQuestionSetService().startRun(setSnapshot.id, userId);
+        } catch (err) {
+          logger.warn({ error: err, setId: setSnapshot.id }, 'Question set run not recorded');
+        }
+      }
+
+      recorder.current?.begin();
+      setCurrentSession(withQuestion(newSession, firstQuestion));
+      logger.info(
+        {
+          track,
+          template: template.id,
+          intro: template.includeIntro,
+          retries: retryQueue.length,
+          targetJob: targetJob?.id,
+          companyTrack: companyTrack?.id,
+          questionSet: setSnapshot?.id,
+          language,
+          persona,
+          recording,
+        },
+        'Interview started'
+      );
     } catch (err) {
       const appError = handleError(err);
       setError(appError);
       setCurrentSession(null);
+      closeRecorder();
       logger.error({ error: err }, 'Failed to start interview');
     } finally {
       setIsLoading(false);
     }
-  }, [userProfile, userId, resumeExperience]);
+  }, [userProfile, userId, resumeExperience, loadPastQuestions, loadCompanyTrack, loadLanguage, openRecorder, closeRecorder]);
 
   const submitAnswer = useCallback(
-    async (answer: string) => {
+    async (answer: string, codeLanguage?: CodeLanguage, { timedOut = false, delivery }: SubmitAnswerOptions = {}) => {
       if (!currentSession) {
         setError(handleError(new Error('No active interview')));
         return;
@@ -82,45 +448,177 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
         return;
       }
 
+      // Grading time does not count against the candidate
+      const submittedAt = Date.now();
+      // The answer's clip runs from the prompt being shown until now
+      const promptRef = followUpEngine.getActivePromptRef(currentSession);
+      const clip = recorder.current?.settings.mode === 'clips' ? recorder.current.end() : Promise.resolve(null);
       setIsLoading(true);
+      setIsEvaluating(true);
+      setStreamingFeedback(null);
       setError(null);
 
       try {
         const currentQuestion = currentSession.questions[currentQuestionIndex];
+        const followUpIndex = followUpEngine.getFollowUpIndex(currentSession);
+        const activePrompt = followUpEngine.getActivePrompt(currentSession)!;
+        // Follow-ups are graded with the parent question as context
+        const questionText =
+          followUpIndex > 0
+            ? `${currentQuestion.qText}\n\nFollow-up: ${activePrompt.qText}`
+            : activePrompt.qText;
+
+        // The model answer is fetched alongside grading, once per main question;
+        // the review simply goes without it if this fails
+        const needsModelAnswer =
+          followUpIndex === 0 &&
+          currentQuestion.category !== 'Introduction' &&
+          !currentQuestion.modelAnswer?.keyConcepts.length;
+        const modelAnswerRequest = needsModelAnswer
+          ? geminiApiService.getModelAnswer(currentSession.skills, currentQuestion, currentSession.language).catch((err) => {
+              logger.warn({ error: err }, 'Model answer unavailable');
+              return currentQuestion.modelAnswer;
+            })
+          : Promise.resolve(undefined);
+
+        // The question set's or company track's rubric weighting
+        const gradingEmphasis = (currentSession.questionSet ?? currentSession.companyTrack)?.gradingEmphasis;
+        // A question set's own questions are graded against the author's answer
+        const referenceAnswer =
+          followUpIndex === 0 && currentQuestion.modelAnswer?.source === 'interviewer'
+            ? currentQuestion.modelAnswer.text
+            : undefined;
         const evaluation = await geminiApiService.evaluateAnswer(
           currentSession.skills,
-          currentQuestion.qText,
-          answer
+          questionText,
+          answer,
+          {
+            questionType: rubricScoring.getQuestionType(activePrompt),
+            // Coding answers are run against the hidden tests on the backend
+            ...(activePrompt.challenge?.id && codeLanguage
+              ? { challengeId: activePrompt.challenge.id, codeLanguage }
+              : {}),
+            priorAnswers: [currentQuestion, ...(currentQuestion.followUps || [])]
+              .slice(0, followUpIndex)
+              .map((q) => q.answerText || ''),
+            onFeedback: setStreamingFeedback,
+            hints: activePrompt.hints,
+            language: currentSession.language,
+            ...(gradingEmphasis ? { gradingEmphasis } : {}),
+            ...(referenceAnswer ? { referenceAnswer } : {}),
+            ...(currentSession.id ? { sessionId: currentSession.id } : {}),
+          }
         );
 
-        setCurrentSession((prev) => {
-          if (!prev) return null;
-
-          const updatedQuestions = [...prev.questions];
-          updatedQuestions[currentQuestionIndex] = {
-            ...updatedQuestions[currentQuestionIndex],
-            answerText: answer,
-            feedback: evaluation.feedback,
-            score: evaluation.score,
-            improvementSuggestions: evaluation.improvementSuggestions,
-          };
+        const modelAnswer = await modelAnswerRequest;
+
+        const answered = followUpEngine.updateActivePrompt(currentQuestion, {
+          answerText: answer,
+          submittedAt,
+          ...(timedOut ? { timedOut } : {}),
+          ...(delivery ? { delivery } : {}),
+          feedback: evaluation.feedback,
+          score: evaluation.score,
+          rubric: evaluation.rubric,
+          improvementSuggestions: evaluation.improvementSuggestions,
+          ...(evaluation.star ? { star: evaluation.star } : {}),
+          ...(evaluation.confidence ? { confidence: evaluation.confidence } : {}),
+          ...(evaluation.flags?.length ? { flags: evaluation.flags } : {}),
+          ...(codeLanguage ? { codeLanguage } : {}),
+          ...(evaluation.codeExecution ? { codeExecution: evaluation.codeExecution } : {}),
+          ...(modelAnswer ? { modelAnswer } : {}),
+        });
+        const replaceAnswered = (questions: InterviewQuestion[]) =>
+          questions.map((q, i) => (i === currentQuestionIndex ? answered : q));
 
-          return { ...prev, questions: updatedQuestions };
+        setCurrentSession((prev) =>
+          prev ? { ...prev, questions: replaceAnswered(prev.questions) } : null
+        );
+        const sessionId = await checkpointSession({
+          ...currentSession,
+          questions: replaceAnswered(currentSession.questions),
         });
+        uploadClip(await clip, sessionId, promptRef);
 
         logger.info(
-          { questionIndex: currentQuestionIndex, score: evaluation.score },
+          { questionIndex: currentQuestionIndex, followUpIndex, score: evaluation.score, timedOut, flags: evaluation.flags },
           'Answer evaluated'
         );
       } catch (err) {
         const appError = handleError(err);
         setError(appError);
         logger.error({ error: err }, 'Failed to submit answer');
+        // The prompt is still open, so its clip starts over
+        beginClip();
       } finally {
         setIsLoading(false);
+        setIsEvaluating(false);
+        setStreamingFeedback(null);
+      }
+    },
+    [currentSession, checkpointSession, uploadClip]
+  );
+
+  /**
+   * Reveal the next hint tier on the active prompt; resolves to null when
+   * no hint could be given. The hint is checkpointed with the session so it
+   * still caps the score after a resume.
+   */
+  const requestHint = useCallback(
+    async (draft?: string): Promise<InterviewHint | null> => {
+      if (!currentSession) {
+        setError(handleError(new Error('No active interview')));
+        return null;
+      }
+
+      const currentQuestionIndex = currentSession.questions.length - 1;
+      const currentQuestion = currentSession.questions[currentQuestionIndex];
+      const activePrompt = followUpEngine.getActivePrompt(currentSession);
+      if (!currentQuestion || !activePrompt) return null;
+
+      setIsHintLoading(true);
+      setError(null);
+
+      try {
+        const followUpIndex = followUpEngine.getFollowUpIndex(currentSession);
+        const questionText =
+          followUpIndex > 0
+            ? `${currentQuestion.qText}\n\nFollow-up: ${activePrompt.qText}`
+            : activePrompt.qText;
+        const hint = await geminiApiService.getHint(
+          currentSession.skills,
+          questionText,
+          activePrompt,
+          draft,
+          currentSession.language
+        );
+
+        const hinted = followUpEngine.updateActivePrompt(currentQuestion, {
+          hints: [...(activePrompt.hints || []), hint],
+        });
+        const replaceHinted = (questions: InterviewQuestion[]) =>
+          questions.map((q, i) => (i === currentQuestionIndex ? hinted : q));
+
+        setCurrentSession((prev) =>
+          prev ? { ...prev, questions: replaceHinted(prev.questions) } : null
+        );
+        await checkpointSession({
+          ...currentSession,
+          questions: replaceHinted(currentSession.questions),
+        });
+
+        logger.info({ questionIndex: currentQuestionIndex, followUpIndex, level: hint.level }, 'Hint given');
+        return hint;
+      } catch (err) {
+        const appError = handleError(err);
+        setError(appError);
+        logger.error({ error: err }, 'Failed to get hint');
+        return null;
+      } finally {
+        setIsHintLoading(false);
       }
     },
-    [currentSession]
+    [currentSession, checkpointSession]
   );
 
   const nextQuestion = useCallback(async () => {
@@ -130,8 +628,10 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
     }
 
     const nextIndex = currentSession.questions.length;
+    const askFollowUp = followUpEngine.shouldAskFollowUp(currentSession);
+    const template = interviewTemplates.forSession(currentSession);
 
-    if (nextIndex >= INTERVIEW_LENGTH) {
+    if (nextIndex >= interviewTemplates.getQuestionCount(template) && !askFollowUp) {
       // All questions answered
       return;
     }
@@ -140,33 +640,50 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
     setError(null);
 
     try {
-      // Get asked topics, excluding 'Introduction' to prevent duplicates
-      const askedTopics = currentSession.questions
-        .map((q) => q.category)
-        .filter((cat) => cat !== 'Introduction');
-
-      const question = await geminiApiService.generateQuestion(
-        currentSession.role,
-        currentSession.skills,
-        askedTopics,
-        nextIndex,
-        INTERVIEW_LENGTH,
-        currentSession.resumeExperience
-      );
+      if (askFollowUp) {
+        // Dig into the vague answer before moving to a new topic
+        const parentIndex = nextIndex - 1;
+        const parent = currentSession.questions[parentIndex];
+        const followUpText = await geminiApiService.generateFollowUp(
+          currentSession.skills,
+          parent,
+          currentSession.language,
+          currentSession.persona
+        );
 
-      const newQuestion: InterviewQuestion = {
-        qText: question.question,
-        isCoding: question.isCoding,
-        category: question.category,
-      };
+        beginClip();
+        const followUp: InterviewQuestion = {
+          qText: followUpText,
+          isCoding: false,
+          category: parent.category,
+          startedAt: Date.now(),
+          ...(parent.type ? { type: parent.type } : {}),
+        };
 
-      setCurrentSession((prev) =>
-        prev
-          ? { ...prev, questions: [...prev.questions, newQuestion] }
-          : null
-      );
+        setCurrentSession((prev) => {
+          if (!prev) return null;
+
+          const updatedQuestions = [...prev.questions];
+          updatedQuestions[parentIndex] = {
+            ...updatedQuestions[parentIndex],
+            followUps: [...(updatedQuestions[parentIndex].followUps || []), followUp],
+          };
 
-      logger.info({ questionIndex: nextIndex }, 'Next question loaded');
+          return { ...prev, questions: updatedQuestions };
+        });
+
+        logger.info({ questionIndex: parentIndex }, 'Follow-up question loaded');
+        return;
+      }
+
+      const newQuestion = await generateSessionQuestion(currentSession, pastQuestions.current);
+      beginClip();
+      setCurrentSession((prev) => (prev ? withQuestion(prev, newQuestion) : null));
+
+      logger.info(
+        { questionIndex: nextIndex, type: newQuestion.type, difficulty: newQuestion.difficulty },
+        'Next question loaded'
+      );
     } catch (err) {
       const appError = handleError(err);
       setError(appError);
@@ -185,15 +702,19 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
     setIsLoading(true);
     setError(null);
 
+    // A whole-session recording ends with the interview
+    const sessionClip = recorder.current?.settings.mode === 'session' ? await recorder.current.end() : null;
+    closeRecorder();
+
     try {
       const totalScore = currentSession.questions.reduce(
-        (sum, q) => sum + (q.score || 0),
+        (sum, q) => sum + followUpEngine.getQuestionScore(q),
         0
       );
       const averageScore = totalScore / currentSession.questions.length;
-      const duration = sessionStartTime.current
-        ? Math.floor((Date.now() - sessionStartTime.current) / 1000)
-        : 0;
+      const duration = getElapsedSeconds(sessionStartTime.current);
+      const rubricAverages = rubricScoring.getDimensionAverages(currentSession.questions);
+      const timeByCategory = questionTiming.getCategoryTimes(currentSession.questions);
 
       const completedSession: InterviewSession = {
         ...currentSession,
@@ -203,9 +724,9 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
         metrics: {
           averageScore: parseFloat(averageScore.toFixed(1)),
           completionTime: duration,
-          averageTimePerQuestion: Math.floor(
-            duration / currentSession.questions.length
-          ),
+          averageTimePerQuestion: questionTiming.getAverageTimePerQuestion(currentSession.questions, duration),
+          ...(Object.keys(rubricAverages).length > 0 ? { rubricAverages } : {}),
+          ...(timeByCategory.length > 0 ? { timeByCategory } : {}),
         },
       };
 
@@ -215,7 +736,23 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
         completedSession
       );
 
-      setCurrentSession((prev) => (prev ? { ...prev, id: sessionId } : null));
+      setCurrentSession((prev) => (prev ? { ...prev, id: sessionId, status: 'completed' } : null));
+
+      if (sessionClip) {
+        recordingUploads.enqueue({
+          clip: sessionClip,
+          userId,
+          sessionId,
+          label: `${completedSession.role} interview`,
+        });
+      }
+
+      const { questionSet, questionSetRunId } = completedSession;
+      if (questionSet && questionSetRunId && isQuestionSetServiceAvailable()) {
+        getQuestionSetService()
+          .completeRun(questionSet.id, questionSetRunId, completedSession.score)
+          .catch((err) => logger.warn({ error: err, setId: questionSet.id }, 'Question set run not completed'));
+      }
 
       logger.info(
         {
@@ -232,23 +769,83 @@ export const useInterview = (userProfile: UserProfile | null, userId: string | n
     } finally {
       setIsLoading(false);
     }
-  }, [currentSession, userId]);
+  }, [currentSession, userId, closeRecorder]);
 
   const abandonInterview = useCallback(() => {
     setCurrentSession(null);
     setError(null);
     sessionStartTime.current = null;
+    closeRecorder();
     logger.info('Interview abandoned');
-  }, []);
+  }, [closeRecorder]);
+
+  /**
+   * Continue a checkpointed session. The clock picks up from the saved
+   * duration so idle time away is not counted. An opted-in session records
+   * again from here; what was recorded before the break was not uploaded.
+   */
+  const resumeInterview = useCallback(
+    async (session: InterviewSession) => {
+      if (!userId) {
+        setError(handleError(new Error('Missing user ID')));
+        return;
+      }
+
+      const lastIndex = session.questions.length - 1;
+      const active = followUpEngine.getActivePrompt(session);
+      if (session.recordingSettings) {
+        await openRecorder(session.recordingSettings);
+        // An answered prompt's clip is done; the next one starts with the next prompt
+        if (session.recordingSettings.mode === 'session' || (active && !active.answerText)) {
+          recorder.current?.begin();
+        }
+      }
+      sessionStartTime.current = Date.now() - session.duration * 1000;
+      setError(null);
+      // The countdown of an unanswered prompt restarts: time away does not count
+      const questions =
+        active && !active.answerText
+          ? session.questions.map((q, i) =>
+              i === lastIndex ? followUpEngine.updateActivePrompt(q, { startedAt: Date.now() }) : q
+            )
+          : session.questions;
+      setCurrentSession({ ...session, questions, userId, interviewType: 'ai', status: 'in-progress' });
+      loadPastQuestions(session.language);
+      logger.info({ sessionId: session.id, questions: session.questions.length }, 'Interview resumed');
+    },
+    [userId, loadPastQuestions, openRecorder]
+  );
+
+  /**
+   * Candidate quit: mark the checkpoint abandoned so it is not offered
+   * for resume, then clear the local session
+   */
+  const cancelInterview = useCallback(async () => {
+    if (currentSession?.id && userId) {
+      try {
+        await getFirestoreService().updateInterviewStatus(userId, currentSession.id, 'abandoned');
+      } catch (err) {
+        logger.warn({ error: err }, 'Failed to mark interview abandoned');
+      }
+    }
+    abandonInterview();
+  }, [currentSession, userId, abandonInterview]);
 
   return {
     currentSession,
     isLoading,
+    isEvaluating,
+    isHintLoading,
+    isRecording,
+    streamingFeedback,
     error,
     startInterview,
     submitAnswer,
+    requestHint,
     nextQuestion,
     finishInterview,
+    resumeInterview,
+    cancelInterview,
     abandonInterview,
   };
 };
@@ -0,0 +1,44 @@
+/**
+ * @file hooks/useQuestionTimer.ts
+ * @description Countdown for the active interview prompt
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { questionTiming } from '../services/question-timing';
+import type { InterviewQuestion } from '../types';
+
+/**
+ * Seconds left on a timed prompt (null when it is untimed). `onExpire` runs
+ * once per prompt when the countdown reaches zero, unless `paused` (e.g.
+ * while the answer is being graded).
+ */
+export const useQuestionTimer = (
+  prompt: InterviewQuestion | undefined,
+  onExpire: () => void,
+  paused = false
+): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  const expiredPromptRef = useRef<number | null>(null);
+  const remaining = questionTiming.getRemainingSeconds(prompt, now);
+  const isCounting = remaining !== null;
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+
+  useEffect(() => {
+    if (!isCounting) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isCounting]);
+
+  const startedAt = prompt?.startedAt;
+  useEffect(() => {
+    if (remaining !== 0 || paused || !startedAt || expiredPromptRef.current === startedAt) return;
+    expiredPromptRef.current = startedAt;
+    onExpireRef.current();
+  }, [remaining, paused, startedAt]);
+
+  return remaining;
+};
@@ -9,12 +9,21 @@ import { Badge } from '../components/Badge';
 import { InterviewerReviews } from '../components/InterviewerReviews';
 import { PaymentCheckout } from '../components/PaymentCheckout';
 import { FavoriteButton } from '../components/FavoriteButton';
-import type { UserProfile } from '../types';
+import type { CompanyTrack, UserProfile } from '../types';
 import { INTERVIEW_DURATIONS } from '../utils/constants';
 import { BookingService } from '../services/booking';
 import { NotificationService } from '../services/notifications';
 import { getFirebaseInstances } from '../services/firebase';
-import { getInterviewerService, type InterviewerWithProfile } from '../services/interviewer';
+import {
+  getInterviewerCompany,
+  getInterviewerService,
+  type InterviewerWithProfile,
+} from '../services/interviewer';
+import {
+  companyTracks,
+  getCompanyTrackService,
+  isCompanyTrackServiceAvailable,
+} from '../services/company-tracks';
 import { getRatingService } from '../services/rating';
 import { getPaymentService } from '../services/payment';
 import { createLogger } from '../utils/logger';
@@ -40,6 +49,8 @@ export const BookInterviewScreen: React.FC<BookInterviewScreenProps> = ({
   const [selectedDuration, setSelectedDuration] = useState(45);
   const [selectedSpecialization, setSelectedSpecialization] = useState<string>('');
   const [minExperience, setMinExperience] = useState(0);
+  const [companyTrack, setCompanyTrack] = useState<CompanyTrack | null>(null);
+  const [onlyTrackCompanyChoice, setOnlyTrackCompany] = useState<boolean | null>(null);
   const [isBooking, setIsBooking] = useState(false);
   const [interviewerRatings, setInterviewerRatings] = useState<Record<string, { rating: number; count: number }>>({});
   const [showPayment, setShowPayment] = useState(false);
@@ -101,10 +112,33 @@ export const BookInterviewScreen: React.FC<BookInterviewScreenProps> = ({
     fetchInterviewers();
   }, []);
 
+  // Surface interviewers who have been at the candidate's company track company
+  useEffect(() => {
+    if (!currentUser.companyTrackId || !isCompanyTrackServiceAvailable()) return;
+
+    getCompanyTrackService()
+      .getTrack(currentUser.companyTrackId)
+      .then(setCompanyTrack)
+      .catch((error) => logger.warn({ error }, 'Company track unavailable'));
+  }, [currentUser.companyTrackId]);
+
+  const trackCompanyCount = companyTrack
+    ? interviewers.filter((i) => companyTracks.matchesCompany(companyTrack, getInterviewerCompany(i))).length
+    : 0;
+
+  // On by default when anyone matches
+  const onlyTrackCompany = onlyTrackCompanyChoice ?? trackCompanyCount > 0;
+
   // Filter interviewers based on criteria
   useEffect(() => {
     let filtered = [...interviewers];
 
+    if (companyTrack && onlyTrackCompany) {
+      filtered = filtered.filter((interviewer) =>
+        companyTracks.matchesCompany(companyTrack, getInterviewerCompany(interviewer))
+      );
+    }
+
     if (selectedSpecialization) {
       filtered = filtered.filter(interviewer =>
         interviewer.interviewerProfile.specializations.includes(selectedSpecialization)
@@ -121,7 +155,7 @@ export const BookInterviewScreen: React.FC<BookInterviewScreenProps> = ({
     filtered.sort((a, b) => (b.interviewerProfile.rating || 0) - (a.interviewerProfile.rating || 0));
 
     setFilteredInterviewers(filtered);
-  }, [selectedSpecialization, minExperience, interviewers]);
+  }, [selectedSpecialization, minExperience, interviewers, companyTrack, onlyTrackCompany]);
 
   // Clear booking state when interviewer changes
   useEffect(() => {
@@ -333,6 +367,20 @@ export const BookInterviewScreen: React.FC<BookInterviewScreenProps> = ({
               <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg p-6 border border-white/20 sticky top-6">
                 <h2 className="text-xl font-bold text-gray-800 mb-6">🔍 Filters</h2>
 
+                {/* Company Filter */}
+                {companyTrack && (
+                  <div className="mb-6">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={onlyTrackCompany}
+                        onChange={(e) => setOnlyTrackCompany(e.target.checked)}
+                      />
+                      🏢 Been at {companyTrack.company} ({trackCompanyCount})
+                    </label>
+                  </div>
+                )}
+
                 {/* Specialization Filter */}
                 <div className="mb-6">
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -417,14 +465,14 @@ export const BookInterviewScreen: React.FC<BookInterviewScreenProps> = ({
                                   interviewerId={interviewer.id}
                                   interviewerName={interviewer.name || interviewer.email?.split('@')[0] || 'Unknown'}
                                   interviewerTitle={interviewer.interviewerProfile.title}
-                                  interviewerCompany={interviewer.interviewerProfile.company}
+                                  interviewerCompany={getInterviewerCompany(interviewer)}
                                   interviewerRating={interviewerRatings[interviewer.id]?.rating}
                                   size="md"
                                 />
                               </div>
                               <p className="text-gray-600 font-medium">
                                 {interviewer.interviewerProfile.title || interviewer.role || 'Interviewer'}
-                                {interviewer.interviewerProfile.company && ` at ${interviewer.interviewerProfile.company}`}
+                                {getInterviewerCompany(interviewer) && ` at ${getInterviewerCompany(interviewer)}`}
                               </p>
                             </div>
                           </div>
@@ -4,21 +4,116 @@
  */
 
 import { Button } from '../components/Button';
-import { SCORE_RANGES } from '../utils/constants';
-import type { QuestionFeedback } from '../types';
+import { RUBRIC_DIMENSIONS, SCORE_RANGES } from '../utils/constants';
+import { STAR_COMPONENTS } from '../services/behavioral-interview';
+import { answerComparison } from '../services/answer-comparison';
+import { questionTiming } from '../services/question-timing';
+import { interviewHints } from '../services/interview-hints';
+import { answerGuard } from '../services/answer-guard';
+import { speechAnalytics } from '../services/speech-analytics';
+import type {
+  CategoryTime,
+  ModelAnswer,
+  QuestionFeedback,
+  QuestionPace,
+  RubricDimension,
+  SpeechDeliverySummary,
+} from '../types';
 
 interface FeedbackModalProps {
   score: number;
   feedback: QuestionFeedback[];
+  rubricAverages?: Partial<Record<RubricDimension, number>>;
+  timeByCategory?: CategoryTime[];
+  speechDelivery?: SpeechDeliverySummary; // Every spoken answer in the session
   role: string;
   onRetake: () => void;
   onExit: () => void;
   isLoading?: boolean;
 }
 
+/**
+ * Candidate's answer next to the model answer; sentences of the model answer
+ * carrying a key concept the candidate missed are highlighted
+ */
+const PACE_BADGES: Record<QuestionPace, { label: string; background: string }> = {
+  rushed: { label: 'Rushed', background: '#fef3c7' },
+  'on-pace': { label: 'On pace', background: '#dcfce7' },
+  long: { label: 'Ran long', background: '#fee2e2' },
+};
+
+const MODEL_ANSWER_SOURCES: Record<ModelAnswer['source'], string> = {
+  'question-bank': ' (question bank)',
+  interviewer: " (interviewer's reference answer)",
+  generated: '',
+};
+
+const DeliveryStats: React.FC<{ delivery: SpeechDeliverySummary }> = ({ delivery }) => (
+  <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', fontSize: '13px', color: '#444' }}>
+    {[
+      `${delivery.wordsPerMinute} words/min`,
+      `${delivery.fillersPer100Words} fillers per 100 words`,
+      `${delivery.hedgesPer100Words} hedges per 100 words`,
+      `${delivery.longPausesPerAnswer} long pauses per answer`,
+      `talking ${Math.round(delivery.talkTimeRatio * 100)}% of the time`,
+    ].map((stat) => (
+      <span key={stat} style={{ background: 'white', border: '1px solid #e5e7eb', borderRadius: '12px', padding: '2px 10px' }}>
+        {stat}
+      </span>
+    ))}
+  </div>
+);
+
+const ModelAnswerComparison: React.FC<{ answer: string; modelAnswer: ModelAnswer }> = ({ answer, modelAnswer }) => {
+  const { covered, missed } = answerComparison.compare(answer, modelAnswer);
+  const segments = answerComparison.segment(modelAnswer, missed);
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      {modelAnswer.keyConcepts.length > 0 && (
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '12px' }}>
+          {covered.map((concept) => (
+            <span key={concept} style={{ background: '#dcfce7', color: '#111', padding: '4px 10px', borderRadius: '20px', fontSize: '13px', fontWeight: '600' }}>
+              ✓ {concept}
+            </span>
+          ))}
+          {missed.map((concept) => (
+            <span key={concept} style={{ background: '#fee2e2', color: '#111', padding: '4px 10px', borderRadius: '20px', fontSize: '13px', fontWeight: '600' }}>
+              ✗ {concept}
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+        <div style={{ flex: '1 1 280px', background: 'white', padding: '16px', borderRadius: '8px' }}>
+          <p style={{ fontSize: '14px', fontWeight: '600', color: '#666', marginBottom: '8px' }}>Your answer</p>
+          <p style={{ fontSize: '14px', color: '#444', whiteSpace: 'pre-wrap' }}>{answer || 'No answer given.'}</p>
+        </div>
+        <div style={{ flex: '1 1 280px', background: 'white', padding: '16px', borderRadius: '8px' }}>
+          <p style={{ fontSize: '14px', fontWeight: '600', color: '#666', marginBottom: '8px' }}>
+            Model answer{MODEL_ANSWER_SOURCES[modelAnswer.source]}
+          </p>
+          <p style={{ fontSize: '14px', color: '#444', whiteSpace: 'pre-wrap' }}>
+            {segments.map((segment, i) =>
+              segment.missed ? (
+                <mark key={i} style={{ background: '#fef3c7' }} title="Covers a concept your answer missed">{segment.text}</mark>
+              ) : (
+                <span key={i}>{segment.text}</span>
+              )
+            )}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export const FeedbackModal: React.FC<FeedbackModalProps> = ({
   score,
   feedback,
+  rubricAverages = {},
+  timeByCategory = [],
+  speechDelivery,
   role,
   onRetake,
   onExit,
@@ -31,6 +126,13 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
     decimal: Math.round((score - Math.floor(score)) * 10),
   };
 
+  const dimensionLabel = (key: RubricDimension) =>
+    RUBRIC_DIMENSIONS.find((d) => d.key === key)?.label || key;
+  const scoredDimensions = RUBRIC_DIMENSIONS.filter(({ key }) => rubricAverages[key] !== undefined);
+  const weakestDimension = [...scoredDimensions].sort(
+    (a, b) => (rubricAverages[a.key] ?? 0) - (rubricAverages[b.key] ?? 0)
+  )[0];
+
   return (
     <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '16px', zIndex: 50 }}>
       <div style={{ width: '100%', maxWidth: '800px', maxHeight: '90vh', overflowY: 'auto' }}>
@@ -72,6 +174,79 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
             </div>
           </div>
 
+          {/* Rubric Breakdown */}
+          {scoredDimensions.length > 0 && (
+            <div style={{ marginBottom: '48px' }}>
+              <h2 style={{ fontSize: '24px', fontWeight: 'bold', color: '#111', marginBottom: '24px' }}>Score Breakdown</h2>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {scoredDimensions.map(({ key, label }) => {
+                  const value = rubricAverages[key] ?? 0;
+                  const isWeakest = weakestDimension?.key === key && value < 4;
+                  return (
+                    <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                      <span style={{ width: '160px', fontSize: '14px', fontWeight: '600', color: isWeakest ? '#dc2626' : '#444' }}>{label}</span>
+                      <div style={{ flex: 1, height: '10px', background: '#e5e7eb', borderRadius: '5px', overflow: 'hidden' }}>
+                        <div style={{ width: `${(value / 5) * 100}%`, height: '100%', background: isWeakest ? '#dc2626' : '#0066cc' }} />
+                      </div>
+                      <span style={{ width: '40px', textAlign: 'right', fontSize: '14px', fontWeight: 'bold', color: '#111' }}>{value.toFixed(1)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              {weakestDimension && (rubricAverages[weakestDimension.key] ?? 5) < 4 && (
+                <p style={{ marginTop: '16px', fontSize: '14px', color: '#666' }}>
+                  You lose the most points on <strong>{weakestDimension.label.toLowerCase()}</strong>. The per-question notes below explain why.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Time per Category */}
+          {timeByCategory.length > 0 && (
+            <div style={{ marginBottom: '48px' }}>
+              <h2 style={{ fontSize: '24px', fontWeight: 'bold', color: '#111', marginBottom: '24px' }}>Time per Category</h2>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {timeByCategory.map((entry) => (
+                  <div key={entry.category} style={{ display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+                    <span style={{ width: '160px', fontSize: '14px', fontWeight: '600', color: '#444' }}>{entry.category}</span>
+                    <span style={{ fontSize: '14px', color: '#666', fontVariantNumeric: 'tabular-nums' }}>
+                      {questionTiming.format(entry.averageSeconds)}
+                      {entry.averageLimitSeconds ? ` of ${questionTiming.format(entry.averageLimitSeconds)}` : ''} avg
+                      {entry.questions > 1 ? ` · ${entry.questions} questions` : ''}
+                    </span>
+                    {entry.pace && (
+                      <span style={{ background: PACE_BADGES[entry.pace].background, color: '#111', padding: '4px 10px', borderRadius: '20px', fontSize: '13px', fontWeight: '600' }}>
+                        {PACE_BADGES[entry.pace].label}
+                      </span>
+                    )}
+                    {entry.timedOut > 0 && (
+                      <span style={{ fontSize: '13px', color: '#dc2626', fontWeight: '600' }}>
+                        ⏰ {entry.timedOut} timed out
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Speech Delivery */}
+          {speechDelivery && (
+            <div style={{ marginBottom: '48px' }}>
+              <h2 style={{ fontSize: '24px', fontWeight: 'bold', color: '#111', marginBottom: '24px' }}>Speech Delivery</h2>
+              <DeliveryStats delivery={speechDelivery} />
+              {speechAnalytics.getTips(speechDelivery).length > 0 ? (
+                <ul style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '16px' }}>
+                  {speechAnalytics.getTips(speechDelivery).map((tip) => (
+                    <li key={tip} style={{ fontSize: '14px', color: '#666' }}>→ {tip}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p style={{ marginTop: '16px', fontSize: '14px', color: '#666' }}>✓ Clear, steady delivery across your spoken answers.</p>
+              )}
+            </div>
+          )}
+
           {/* Feedback */}
           {feedback && feedback.length > 0 && (
             <div style={{ marginBottom: '48px' }}>
@@ -83,7 +258,99 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
                       <p style={{ fontWeight: '600', color: '#111' }}>Q{index + 1}: {item.question.substring(0, 100)}...</p>
                       <span style={{ fontSize: '20px', fontWeight: 'bold', color: '#0066cc' }}>{item.score.toFixed(1)}</span>
                     </div>
+                    {item.confidence?.isLow && (
+                      <div style={{ display: 'inline-block', background: '#fef3c7', color: '#111', padding: '6px 12px', borderRadius: '20px', fontSize: '13px', fontWeight: '600', marginBottom: '12px' }} title={`Sample scores: ${item.confidence.scores.join(', ')}`}>
+                        ⚠️ Low-confidence grade: {item.confidence.samples} gradings ranged {Math.min(...item.confidence.scores)}-{Math.max(...item.confidence.scores)}, take this score with a grain of salt
+                      </div>
+                    )}
+                    {item.timeSpentSeconds !== undefined && (
+                      <div style={{ display: 'inline-block', background: item.timedOut ? '#fee2e2' : '#f3f4f6', color: '#111', padding: '6px 12px', borderRadius: '20px', fontSize: '13px', fontWeight: '600', marginBottom: '12px' }}>
+                        ⏱ {questionTiming.format(item.timeSpentSeconds)}
+                        {item.timeLimitSeconds ? ` / ${questionTiming.format(item.timeLimitSeconds)}` : ''}
+                        {item.timedOut ? ' · timed out' : ''}
+                      </div>
+                    )}
                     <p style={{ color: '#666', marginBottom: '16px' }}>{item.feedback}</p>
+                    {item.rubric && item.rubric.length > 0 && (
+                      <ul style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '16px' }}>
+                        {item.rubric.map((entry) => (
+                          <li key={entry.dimension} style={{ display: 'flex', gap: '12px', fontSize: '13px', color: '#666' }}>
+                            <span style={{ minWidth: '150px', fontWeight: '600', color: entry.score <= 2 ? '#dc2626' : '#444' }}>
+                              {dimensionLabel(entry.dimension)} {entry.score}/5
+                            </span>
+                            <span>{entry.justification}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {item.codeExecution && (
+                      <div style={{ display: 'inline-block', background: item.codeExecution.passed === item.codeExecution.total ? '#dcfce7' : '#fef3c7', color: '#111', padding: '6px 12px', borderRadius: '20px', fontSize: '13px', fontWeight: '600', marginBottom: '16px' }}>
+                        🧪 {item.codeExecution.passed}/{item.codeExecution.total} hidden tests passed · {item.codeExecution.runtimeMs}ms · {item.codeExecution.language}
+                      </div>
+                    )}
+                    {item.star && (
+                      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '16px' }}>
+                        {STAR_COMPONENTS.map(({ key, label }) => (
+                          <span key={key} style={{ background: item.star![key] ? '#dcfce7' : '#fee2e2', color: '#111', padding: '4px 10px', borderRadius: '20px', fontSize: '13px', fontWeight: '600' }}>
+                            {item.star![key] ? '✓' : '✗'} {label}
+                          </span>
+                        ))}
+                        <span style={{ background: item.star.quantified ? '#dcfce7' : '#fef3c7', color: '#111', padding: '4px 10px', borderRadius: '20px', fontSize: '13px', fontWeight: '600' }}>
+                          {item.star.quantified ? '📈 Quantified impact' : '📉 No numbers on impact'}
+                        </span>
+                      </div>
+                    )}
+                    {item.followUps && item.followUps.length > 0 && (
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '16px', paddingLeft: '16px', borderLeft: '2px dashed #c7d2fe' }}>
+                        {item.followUps.map((followUp, i) => (
+                          <div key={i}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '16px' }}>
+                              <p style={{ fontSize: '14px', fontWeight: '600', color: '#444' }}>↳ Follow-up: {followUp.question}</p>
+                              <span style={{ fontSize: '14px', fontWeight: 'bold', color: '#0066cc' }} title={followUp.confidence?.isLow ? 'Low-confidence grade' : undefined}>
+                                {followUp.confidence?.isLow ? '⚠️ ' : ''}{followUp.score.toFixed(1)}
+                              </span>
+                            </div>
+                            <p style={{ fontSize: '14px', color: '#666' }}>{followUp.feedback}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {item.flags && item.flags.length > 0 && (
+                      <div role="note" style={{ background: '#fef2f2', padding: '12px 16px', borderRadius: '8px', marginBottom: '16px', display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                        <span style={{ fontSize: '14px', fontWeight: '600', color: '#b91c1c' }}>
+                          🚩 Flagged · capped at {answerGuard.getMaxScore(item.flags)}/5
+                        </span>
+                        {item.flags.map((flag) => (
+                          <span key={flag} style={{ fontSize: '12px', fontWeight: '600', color: '#b91c1c', background: 'white', border: '1px solid #fecaca', borderRadius: '12px', padding: '2px 10px' }}>
+                            {answerGuard.getLabel(flag)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {item.delivery && (
+                      <div style={{ background: '#f0f9ff', padding: '12px 16px', borderRadius: '8px', marginBottom: '16px' }}>
+                        <p style={{ fontSize: '14px', fontWeight: '600', color: '#0369a1', marginBottom: '8px' }}>🗣️ Delivery</p>
+                        <DeliveryStats delivery={item.delivery} />
+                      </div>
+                    )}
+                    {item.hints && item.hints.length > 0 && (
+                      <div style={{ background: '#fffbeb', padding: '16px', borderRadius: '8px', marginBottom: '16px' }}>
+                        <p style={{ fontSize: '14px', fontWeight: '600', color: '#b45309', marginBottom: '8px' }}>
+                          💡 {item.hints.length} hint{item.hints.length === 1 ? '' : 's'} used · capped at {interviewHints.getMaxScore(item.hints)}/5
+                        </p>
+                        <ul style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                          {item.hints.map((hint, i) => (
+                            <li key={i} style={{ display: 'flex', gap: '12px', fontSize: '13px', color: '#666' }}>
+                              <span style={{ minWidth: '120px', fontWeight: '600', color: '#444' }}>{interviewHints.getLabel(hint.level)}</span>
+                              <span>{hint.text}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {item.modelAnswer && (
+                      <ModelAnswerComparison answer={item.answer || ''} modelAnswer={item.modelAnswer} />
+                    )}
                     {item.improvements && item.improvements.length > 0 && (
                       <div style={{ background: 'white', padding: '16px', borderRadius: '8px' }}>
                         <p style={{ fontSize: '14px', fontWeight: '600', color: '#666', marginBottom: '12px' }}>Areas to improve:</p>
@@ -7,36 +7,63 @@ import { useState, useEffect } from 'react';
 import { Button } from '../components/Button';
 import { Progress } from '../components/Progress';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { INTERVIEW_LENGTH } from '../utils/constants';
-import type { InterviewSession } from '../types';
+import { StreamingFeedback } from '../components/StreamingFeedback';
+import { HintPanel } from '../components/HintPanel';
+import { followUpEngine } from '../services/follow-up';
+import { interviewTemplates } from '../services/interview-templates';
+import { questionTiming } from '../services/question-timing';
+import { useQuestionTimer } from '../hooks/useQuestionTimer';
+import { TIMED_OUT_ANSWER } from '../utils/constants';
+import type { CodeLanguage, InterviewHint, InterviewSession, SubmitAnswerOptions } from '../types';
 
 interface InterviewScreenProps {
   session: InterviewSession;
-  onSubmitAnswer: (answer: string) => Promise<void>;
+  onSubmitAnswer: (answer: string, codeLanguage?: CodeLanguage, options?: SubmitAnswerOptions) => Promise<void>;
+  onRequestHint?: (draft?: string) => Promise<InterviewHint | null>;
+  isHintLoading?: boolean;
   isLoading?: boolean;
   isEvaluating?: boolean;
+  streamingFeedback?: string | null;
 }
 
 export const InterviewScreen: React.FC<InterviewScreenProps> = ({
   session,
   onSubmitAnswer,
+  onRequestHint,
+  isHintLoading = false,
   isLoading = false,
   isEvaluating = false,
+  streamingFeedback = null,
 }) => {
   const [error, setError] = useState<string>('');
   const [currentAnswer, setCurrentAnswer] = useState<string>('');
+  const [hintError, setHintError] = useState<string>('');
+  const template = interviewTemplates.forSession(session);
+  const questionCount = interviewTemplates.getQuestionCount(template);
   const currentQuestionIndex = session.questions.length - 1;
-  const currentQuestion = session.questions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / INTERVIEW_LENGTH) * 100;
+  const followUpIndex = followUpEngine.getFollowUpIndex(session);
+  const currentQuestion = followUpEngine.getActivePrompt(session);
+  const progress = ((currentQuestionIndex + 1) / questionCount) * 100;
   const hasAnswer = currentAnswer.trim().length > 0;
-  const isLastQuestion = currentQuestionIndex === INTERVIEW_LENGTH - 1;
+  const isLastQuestion = currentQuestionIndex === questionCount - 1;
 
   // Reset answer when question changes
   useEffect(() => {
     setCurrentAnswer('');
     setError('');
+    setHintError('');
   }, [currentQuestionIndex, currentQuestion?.qText]);
 
+  // Time is up: submit whatever has been written so far
+  const remainingSeconds = useQuestionTimer(currentQuestion, async () => {
+    setError('');
+    try {
+      await onSubmitAnswer(currentAnswer.trim() || TIMED_OUT_ANSWER, undefined, { timedOut: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit answer');
+    }
+  }, isEvaluating);
+
   if (!currentQuestion) {
     return (
       <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f5f5f5' }}>
@@ -45,6 +72,14 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
     );
   }
 
+  const handleRequestHint = async () => {
+    if (!onRequestHint) return;
+    setHintError('');
+    if (!(await onRequestHint(currentAnswer))) {
+      setHintError('Could not get a hint. Please try again.');
+    }
+  };
+
   const handleSubmit = async () => {
     setError('');
     if (!hasAnswer) {
@@ -65,11 +100,22 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
         <div style={{ marginBottom: '24px' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
             <h1 style={{ fontSize: '28px', fontWeight: 'bold', color: '#111' }}>
-              {session.role} • Question {currentQuestionIndex + 1}/{INTERVIEW_LENGTH}
+              {session.role} • Question {currentQuestionIndex + 1}/{questionCount}
             </h1>
-            <Button variant="secondary" disabled={isEvaluating} size="sm">
-              Exit Interview
-            </Button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              {remainingSeconds !== null && (
+                <span
+                  role="timer"
+                  aria-label="Time left for this question"
+                  style={{ fontSize: '16px', fontWeight: 'bold', fontVariantNumeric: 'tabular-nums', padding: '6px 12px', borderRadius: '20px', background: remainingSeconds <= 30 ? '#fee2e2' : '#e0e7ff', color: remainingSeconds <= 30 ? '#dc2626' : '#0066cc' }}
+                >
+                  ⏱ {questionTiming.format(remainingSeconds)}
+                </span>
+              )}
+              <Button variant="secondary" disabled={isEvaluating} size="sm">
+                Exit Interview
+              </Button>
+            </div>
           </div>
           <Progress value={progress} />
         </div>
@@ -85,7 +131,7 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
             <>
               <div style={{ marginBottom: '24px' }}>
                 <div style={{ display: 'inline-block', background: '#e0e7ff', color: '#0066cc', padding: '8px 16px', borderRadius: '20px', fontSize: '14px', fontWeight: '600', marginBottom: '12px' }}>
-                  Question {currentQuestionIndex + 1}
+                  Question {currentQuestionIndex + 1}{followUpIndex > 0 ? ` • Follow-up ${followUpIndex}` : ''}
                 </div>
                 <h2 style={{ fontSize: '24px', fontWeight: 'bold', color: '#111', lineHeight: '1.4' }}>{currentQuestion.qText}</h2>
               </div>
@@ -119,6 +165,11 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
                 </div>
               )}
 
+              {onRequestHint && currentQuestion.category !== 'Introduction' && !isEvaluating && (
+                <HintPanel prompt={currentQuestion} onRequestHint={handleRequestHint} isLoading={isHintLoading} error={hintError} />
+              )}
+              {isEvaluating && <StreamingFeedback feedback={streamingFeedback} />}
+
               <div style={{ display: 'flex', gap: '12px' }}>
                 {isLastQuestion ? (
                   <Button
@@ -162,8 +213,8 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({
             <p style={{ color: '#666', fontSize: '14px' }}>Use specific examples from your experience to provide comprehensive answers.</p>
           </div>
           <div style={{ background: 'white', padding: '20px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
-            <p style={{ fontSize: '14px', fontWeight: '600', color: '#0066cc', marginBottom: '8px' }}>⏱️ Take Your Time</p>
-            <p style={{ color: '#666', fontSize: '14px' }}>There's no time limit. Quality of answers matters more than speed.</p>
+            <p style={{ fontSize: '14px', fontWeight: '600', color: '#0066cc', marginBottom: '8px' }}>⏱️ Watch the Clock</p>
+            <p style={{ color: '#666', fontSize: '14px' }}>Timed questions are submitted automatically when the countdown reaches zero, so wrap up before it runs out.</p>
           </div>
         </div>
       </div>
@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { AnalyticsDashboard } from '../components/AnalyticsDashboard';
+import { QuestionSetAnalytics } from '../components/QuestionSetAnalytics';
 import type { UserProfile } from '../types';
 import { createLogger } from '../utils/logger';
 
@@ -52,6 +53,9 @@ export const InterviewerAnalyticsScreen: React.FC<InterviewerAnalyticsScreenProp
 
         {/* Analytics Dashboard */}
         <AnalyticsDashboard interviewerId={currentUser.id} />
+
+        {/* Question Set Usage */}
+        <QuestionSetAnalytics interviewerId={currentUser.id} />
       </div>
     </div>
   );
@@ -7,6 +7,7 @@ import React, { useState, useEffect } from 'react';
 import { Badge } from '../components/Badge';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { VideoMeetingInfo } from '../components/VideoMeetingInfo';
+import { QuestionSetManager } from '../components/QuestionSetManager';
 import type { InterviewBooking, UserProfile } from '../types';
 import { BOOKING_STATUS } from '../utils/constants';
 import { BookingService } from '../services/booking';
@@ -508,6 +509,8 @@ export const InterviewerDashboardScreen: React.FC<InterviewerDashboardScreenProp
               )}
             </div>
           </div>
+
+          <QuestionSetManager currentUser={currentUser} />
         </div>
       </div>
 
@@ -3,18 +3,48 @@
  * @description Main dashboard with modern design
  */
 
-import { useMemo, useState, useEffect } from 'react';
+import { Fragment, useMemo, useState, useEffect } from 'react';
 import { Button } from '../components/Button';
 import { Badge } from '../components/Badge';
-import { INTERVIEW_LENGTH, SCORE_RANGES } from '../utils/constants';
-import type { UserProfile, InterviewSession, InterviewBooking } from '../types';
+import { SessionRecordingPlayer } from '../components/SessionRecordingPlayer';
+import {
+  DEFAULT_INTERVIEW_PERSONA,
+  INTERVIEW_PERSONAS,
+  INTERVIEW_TRACKS,
+  RECORDING_MODES,
+  SCORE_RANGES,
+} from '../utils/constants';
+import { interviewTemplates } from '../services/interview-templates';
+import { jobDescriptionService } from '../services/job-description';
+import { interviewPersona } from '../services/interview-persona';
+import { speechAnalytics } from '../services/speech-analytics';
+import { sessionRecording } from '../services/session-recording';
+import {
+  companyTracks,
+  getCompanyTrackService,
+  isCompanyTrackServiceAvailable,
+} from '../services/company-tracks';
+import { getQuestionSetService, isQuestionSetServiceAvailable } from '../services/question-sets';
+import type {
+  CompanyTrack,
+  InterviewPersona,
+  QuestionSet,
+  RecordingMedia,
+  RecordingMode,
+  UserProfile,
+  InterviewSession,
+  InterviewBooking,
+  InterviewTrack,
+  StartInterviewOptions,
+} from '../types';
 import { BookingService } from '../services/booking';
 import { getFirebaseInstances } from '../services/firebase';
 
 interface LobbyScreenProps {
   profile: UserProfile;
   history: InterviewSession[];
-  onStartInterview: () => void;
+  onStartInterview: (track: InterviewTrack, options: StartInterviewOptions) => void;
+  onResumeInterview?: (session: InterviewSession) => void;
   onEditProfile: () => void;
   onBookInterview?: () => void;
   onViewDashboard?: () => void;
@@ -25,12 +55,46 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
   profile,
   history,
   onStartInterview,
+  onResumeInterview,
   onEditProfile,
   onBookInterview,
   onViewDashboard,
   isLoading = false,
 }) => {
   const [upcomingBookings, setUpcomingBookings] = useState<InterviewBooking[]>([]);
+  const [track, setTrack] = useState<InterviewTrack>('technical');
+  const [repeatWeakQuestions, setRepeatWeakQuestions] = useState(false);
+  const [persona, setPersona] = useState<InterviewPersona>(DEFAULT_INTERVIEW_PERSONA);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode | 'off'>('off');
+  const [recordingMedia, setRecordingMedia] = useState<RecordingMedia>('video');
+  const [watchingSessionId, setWatchingSessionId] = useState<string | null>(null);
+  // Recording is opt-in, for every way of starting an interview
+  const recordingOption: StartInterviewOptions =
+    recordingMode === 'off' ? {} : { recording: { mode: recordingMode, media: recordingMedia } };
+  const [companyTrack, setCompanyTrack] = useState<CompanyTrack | null>(null);
+
+  // The company track replaces the template, so its name is shown instead
+  useEffect(() => {
+    if (!profile.companyTrackId || !isCompanyTrackServiceAvailable()) return;
+
+    getCompanyTrackService()
+      .getTrack(profile.companyTrackId)
+      .then(setCompanyTrack)
+      .catch(() => setCompanyTrack(null));
+  }, [profile.companyTrackId]);
+  const activeCompanyTrack = companyTrack?.id === profile.companyTrackId ? companyTrack : null;
+
+  const [publishedSets, setPublishedSets] = useState<QuestionSet[]>([]);
+
+  // Interviewers' published question sets, for practice sessions
+  useEffect(() => {
+    if (!isQuestionSetServiceAvailable()) return;
+
+    getQuestionSetService()
+      .getPublishedSets()
+      .then(setPublishedSets)
+      .catch(() => setPublishedSets([]));
+  }, []);
 
   // Subscribe to upcoming bookings
   useEffect(() => {
@@ -60,42 +124,72 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
     };
   }, [profile.id]);
 
+  // In-progress and abandoned checkpoints are not finished interviews
+  const completedHistory = useMemo(() => history.filter((s) => s.status === 'completed'), [history]);
+  const resumableSession = history.find((s) => s.status === 'in-progress');
+
   const stats = useMemo(() => {
-    if (history.length === 0) return null;
-    const totalScore = history.reduce((sum, s) => sum + s.score, 0);
-    const avgScore = totalScore / history.length;
-    const best = Math.max(...history.map((s) => s.score));
-    return { avgScore: avgScore.toFixed(1), best, total: history.length };
-  }, [history]);
+    if (completedHistory.length === 0) return null;
+    const totalScore = completedHistory.reduce((sum, s) => sum + s.score, 0);
+    const avgScore = totalScore / completedHistory.length;
+    const best = Math.max(...completedHistory.map((s) => s.score));
+    return { avgScore: avgScore.toFixed(1), best, total: completedHistory.length };
+  }, [completedHistory]);
+
+  const jobProgress = useMemo(() => jobDescriptionService.getProgress(completedHistory), [completedHistory]);
+  const personaPerformance = useMemo(() => interviewPersona.getPerformance(completedHistory), [completedHistory]);
+  // Latest five sessions with spoken answers, newest first
+  const speakingTrend = useMemo(() => speechAnalytics.getTrend(completedHistory).slice(-5).reverse(), [completedHistory]);
 
   const historyList = useMemo(() => {
-    return history.slice(0, 5).map((session) => {
+    return completedHistory.slice(0, 5).map((session) => {
       const scoreRange = Object.values(SCORE_RANGES).find((r) => session.score >= r.min) || SCORE_RANGES.POOR;
+      const isRecorded = Boolean(session.recordingSettings);
+      const isWatching = watchingSessionId === session.id;
       return (
-        <div key={session.id} style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '16px', flexWrap: 'wrap' }}>
-          <div style={{ flex: 1, minWidth: '200px' }}>
-            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px', flexWrap: 'wrap' }}>
-              <h4 style={{ fontWeight: 'bold', color: '#111', fontSize: 'clamp(14px, 4vw, 16px)' }}>{session.role}</h4>
-              <Badge label={`${session.questions.length}/${INTERVIEW_LENGTH} Q`} variant="info" size="sm" />
+        <Fragment key={session.id}>
+          <div style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '16px', flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: '200px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px', flexWrap: 'wrap' }}>
+                <h4 style={{ fontWeight: 'bold', color: '#111', fontSize: 'clamp(14px, 4vw, 16px)' }}>{session.role}</h4>
+                <Badge label={`${session.questions.length}/${interviewTemplates.getQuestionCount(interviewTemplates.forSession(session))} Q`} variant="info" size="sm" />
+                {session.track === 'behavioral' && <Badge label="Behavioral" variant="primary" size="sm" />}
+                {session.persona && session.persona !== DEFAULT_INTERVIEW_PERSONA && <Badge label={`🎭 ${interviewPersona.getLabel(session.persona)}`} variant="secondary" size="sm" />}
+                {session.companyTrack && <Badge label={`🏢 ${session.companyTrack.company}`} variant="secondary" size="sm" />}
+                {session.questionSet && <Badge label={`📝 ${session.questionSet.title}`} variant="secondary" size="sm" />}
+                {session.targetJob && <Badge label={`🎯 ${session.targetJob.requirements.title}`} variant="secondary" size="sm" />}
+              </div>
+              <p style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#999' }}>
+                {new Date(session.date).toLocaleDateString()} • {Math.floor(session.duration / 60)}m
+              </p>
+              {isRecorded && (
+                <div style={{ marginTop: '8px' }}>
+                  <Button variant="ghost" size="sm" onClick={() => setWatchingSessionId(isWatching ? null : session.id)}>
+                    {isWatching ? '✕ Close recording' : '🎬 Watch recording'}
+                  </Button>
+                </div>
+              )}
             </div>
-            <p style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#999' }}>
-              {new Date(session.date).toLocaleDateString()} • {Math.floor(session.duration / 60)}m
-            </p>
-          </div>
-          <div style={{ textAlign: 'right', minWidth: 'auto' }}>
-            <div style={{ fontSize: 'clamp(20px, 5vw, 28px)', fontWeight: 'bold', marginBottom: '8px', color: scoreRange.color }}>
-              {session.score.toFixed(1)}
+            <div style={{ textAlign: 'right', minWidth: 'auto' }}>
+              <div style={{ fontSize: 'clamp(20px, 5vw, 28px)', fontWeight: 'bold', marginBottom: '8px', color: scoreRange.color }}>
+                {session.score.toFixed(1)}
+              </div>
+              <Badge label={scoreRange.label} variant={
+                scoreRange.label === 'Excellent' ? 'success' :
+                scoreRange.label === 'Good' ? 'primary' :
+                scoreRange.label === 'Fair' ? 'warning' : 'danger'
+              } size="sm" />
             </div>
-            <Badge label={scoreRange.label} variant={
-              scoreRange.label === 'Excellent' ? 'success' :
-              scoreRange.label === 'Good' ? 'primary' :
-              scoreRange.label === 'Fair' ? 'warning' : 'danger'
-            } size="sm" />
           </div>
-        </div>
+          {isWatching && (
+            <div style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+              <SessionRecordingPlayer session={session} />
+            </div>
+          )}
+        </Fragment>
       );
     });
-  }, [history]);
+  }, [completedHistory, watchingSessionId]);
 
   return (
     <div style={{ minHeight: '100vh', width: '100%', background: '#f8f9fa' }}>
@@ -106,13 +200,80 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
           <div style={{ display: 'flex', flexDirection: 'column', gap: 'clamp(16px, 5vw, 24px)', marginBottom: 'clamp(24px, 6vw, 32px)' }}>
           <div>
             <h1 style={{ fontSize: 'clamp(24px, 8vw, 36px)', fontWeight: 'bold', color: '#111', marginBottom: '8px' }}>Welcome back!</h1>
-            <p style={{ fontSize: 'clamp(14px, 4vw, 16px)', color: '#666' }}>{profile.role} • {profile.skills.length} skills</p>
+            <p style={{ fontSize: 'clamp(14px, 4vw, 16px)', color: '#666' }}>{profile.role} • {profile.skills.length} skills • {activeCompanyTrack ? companyTracks.toTemplate(activeCompanyTrack).name : interviewTemplates.get(profile.interviewTemplateId).name}</p>
+            {profile.targetJob && (
+              <p style={{ fontSize: '14px', color: '#4f46e5', marginTop: '4px' }}>
+                🎯 Targeting {profile.targetJob.requirements.title}
+                {profile.targetJob.requirements.company ? ` at ${profile.targetJob.requirements.company}` : ''}
+              </p>
+            )}
           </div>
           <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
             <Button variant="secondary" onClick={onEditProfile} size="md">
               ✏️ Edit Profile
             </Button>
-            <Button variant="primary" onClick={onStartInterview} disabled={isLoading} size="md">
+            <select
+              value={track}
+              onChange={(e) => setTrack(e.target.value as InterviewTrack)}
+              disabled={isLoading}
+              aria-label="Interview type"
+              style={{ padding: '8px 12px', borderRadius: '6px', border: '1px solid #d1d5db', background: 'white', fontSize: '14px' }}
+            >
+              {INTERVIEW_TRACKS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={persona}
+              onChange={(e) => setPersona(e.target.value as InterviewPersona)}
+              disabled={isLoading}
+              aria-label="Interviewer style"
+              title={INTERVIEW_PERSONAS.find((p) => p.value === persona)?.description}
+              style={{ padding: '8px 12px', borderRadius: '6px', border: '1px solid #d1d5db', background: 'white', fontSize: '14px' }}
+            >
+              {INTERVIEW_PERSONAS.map(({ value, label }) => (
+                <option key={value} value={value}>🎭 {label}</option>
+              ))}
+            </select>
+            {sessionRecording.isSupported() && (
+              <select
+                value={recordingMode}
+                onChange={(e) => setRecordingMode(e.target.value as RecordingMode | 'off')}
+                disabled={isLoading}
+                aria-label="Recording"
+                title={RECORDING_MODES.find((m) => m.value === recordingMode)?.description}
+                style={{ padding: '8px 12px', borderRadius: '6px', border: '1px solid #d1d5db', background: 'white', fontSize: '14px' }}
+              >
+                <option value="off">⏺ Don't record</option>
+                {RECORDING_MODES.map(({ value, label }) => (
+                  <option key={value} value={value}>⏺ Record: {label}</option>
+                ))}
+              </select>
+            )}
+            {recordingMode !== 'off' && (
+              <select
+                value={recordingMedia}
+                onChange={(e) => setRecordingMedia(e.target.value as RecordingMedia)}
+                disabled={isLoading}
+                aria-label="Recording media"
+                style={{ padding: '8px 12px', borderRadius: '6px', border: '1px solid #d1d5db', background: 'white', fontSize: '14px' }}
+              >
+                <option value="video">📹 Video and audio</option>
+                <option value="audio">🎙️ Audio only</option>
+              </select>
+            )}
+            {completedHistory.length > 0 && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: '#444', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={repeatWeakQuestions}
+                  onChange={(e) => setRepeatWeakQuestions(e.target.checked)}
+                  disabled={isLoading}
+                />
+                🔁 Repeat questions I scored poorly on
+              </label>
+            )}
+            <Button variant="primary" onClick={() => onStartInterview(track, { repeatWeakQuestions, persona, ...recordingOption })} disabled={isLoading} size="md">
               {isLoading ? 'Starting...' : '🚀 Start AI Interview'}
             </Button>
             {profile.userType === 'candidate' && onBookInterview && (
@@ -128,6 +289,21 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
           </div>
         </div>
 
+        {/* Resume In-Progress Interview */}
+        {resumableSession && onResumeInterview && (
+          <div style={{ background: '#eef2ff', border: '1px solid #c7d2fe', padding: 'clamp(16px, 5vw, 24px)', borderRadius: '8px', marginBottom: '24px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+            <div>
+              <h3 style={{ fontSize: '18px', fontWeight: 'bold', color: '#111', marginBottom: '4px' }}>⏸️ Interview in progress</h3>
+              <p style={{ fontSize: '14px', color: '#666' }}>
+                {resumableSession.role} • {resumableSession.questions.length}/{interviewTemplates.getQuestionCount(interviewTemplates.forSession(resumableSession))} questions • started {new Date(resumableSession.date).toLocaleString()}
+              </p>
+            </div>
+            <Button variant="primary" onClick={() => onResumeInterview(resumableSession)} disabled={isLoading} size="md">
+              ▶️ Resume where you left off
+            </Button>
+          </div>
+        )}
+
         {/* Profile Card */}
         <div style={{ background: 'white', padding: 'clamp(16px, 5vw, 24px)', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '24px' }}>
           <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(min(200px, 100%), 1fr))', gap: 'clamp(16px, 4vw, 24px)' }}>
@@ -303,8 +479,145 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
           </div>
         )}
 
+        {/* Target Job Progress */}
+        {jobProgress.length > 0 && (
+          <div style={{ marginBottom: '24px' }}>
+            <h2 style={{ fontSize: 'clamp(20px, 6vw, 24px)', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>🎯 Target Job Progress</h2>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+              {jobProgress.map((progress) => (
+                <div key={progress.job.id} style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+                  <div style={{ flex: 1, minWidth: '200px' }}>
+                    <h4 style={{ fontWeight: 'bold', color: '#111', fontSize: 'clamp(14px, 4vw, 16px)', marginBottom: '4px' }}>
+                      {progress.job.requirements.title}
+                      {progress.job.requirements.company ? ` · ${progress.job.requirements.company}` : ''}
+                    </h4>
+                    <p style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#999' }}>
+                      {progress.sessions} {progress.sessions === 1 ? 'session' : 'sessions'} • last practiced {progress.lastPracticed.toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div style={{ display: 'flex', gap: '24px', textAlign: 'right' }}>
+                    <div>
+                      <p style={{ fontSize: '10px', color: '#999', fontWeight: '600', textTransform: 'uppercase' }}>Latest</p>
+                      <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#111' }}>{progress.latestScore.toFixed(1)}</p>
+                    </div>
+                    <div>
+                      <p style={{ fontSize: '10px', color: '#999', fontWeight: '600', textTransform: 'uppercase' }}>Best</p>
+                      <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#111' }}>{progress.bestScore.toFixed(1)}</p>
+                    </div>
+                    {progress.sessions > 1 && (
+                      <div>
+                        <p style={{ fontSize: '10px', color: '#999', fontWeight: '600', textTransform: 'uppercase' }}>Trend</p>
+                        <p style={{ fontSize: '20px', fontWeight: 'bold', color: progress.trend >= 0 ? '#16a34a' : '#dc2626' }}>
+                          {progress.trend >= 0 ? '+' : ''}{progress.trend.toFixed(1)}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Performance by Interviewer Style */}
+        {personaPerformance.length > 1 && (
+          <div style={{ marginBottom: '24px' }}>
+            <h2 style={{ fontSize: 'clamp(20px, 6vw, 24px)', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>🎭 Performance by Interviewer Style</h2>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(min(200px, 100%), 1fr))', gap: '12px' }}>
+              {personaPerformance.map((entry) => (
+                <div key={entry.persona} style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+                  <h4 style={{ fontWeight: 'bold', color: '#111', fontSize: 'clamp(14px, 4vw, 16px)', marginBottom: '4px' }}>{interviewPersona.getLabel(entry.persona)}</h4>
+                  <p style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#999', marginBottom: '8px' }}>
+                    {entry.sessions} {entry.sessions === 1 ? 'session' : 'sessions'}
+                  </p>
+                  <div style={{ display: 'flex', gap: '24px' }}>
+                    <div>
+                      <p style={{ fontSize: '10px', color: '#999', fontWeight: '600', textTransform: 'uppercase' }}>Average</p>
+                      <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#111' }}>{entry.averageScore.toFixed(1)}</p>
+                    </div>
+                    <div>
+                      <p style={{ fontSize: '10px', color: '#999', fontWeight: '600', textTransform: 'uppercase' }}>Best</p>
+                      <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#111' }}>{entry.bestScore.toFixed(1)}</p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Speaking Trend */}
+        {speakingTrend.length > 1 && (
+          <div style={{ marginBottom: '24px' }}>
+            <h2 style={{ fontSize: 'clamp(20px, 6vw, 24px)', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>🗣️ Speaking Trend</h2>
+            <div style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflowX: 'auto' }}>
+              <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: '#999', fontSize: '12px', textTransform: 'uppercase' }}>
+                    <th style={{ padding: '6px 12px 6px 0' }}>Session</th>
+                    <th style={{ padding: '6px 12px 6px 0' }}>Words/min</th>
+                    <th style={{ padding: '6px 12px 6px 0' }}>Fillers /100 words</th>
+                    <th style={{ padding: '6px 12px 6px 0' }}>Hedges /100 words</th>
+                    <th style={{ padding: '6px 12px 6px 0' }}>Long pauses /answer</th>
+                    <th style={{ padding: '6px 0' }}>Talk time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {speakingTrend.map((point) => (
+                    <tr key={point.sessionId} style={{ borderTop: '1px solid #f3f4f6', color: '#444' }}>
+                      <td style={{ padding: '8px 12px 8px 0' }}>{point.date.toLocaleDateString()}</td>
+                      <td style={{ padding: '8px 12px 8px 0' }}>{point.wordsPerMinute}</td>
+                      <td style={{ padding: '8px 12px 8px 0' }}>{point.fillersPer100Words}</td>
+                      <td style={{ padding: '8px 12px 8px 0' }}>{point.hedgesPer100Words}</td>
+                      <td style={{ padding: '8px 12px 8px 0' }}>{point.longPausesPerAnswer}</td>
+                      <td style={{ padding: '8px 0' }}>{Math.round(point.talkTimeRatio * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Interviewer Question Sets */}
+        {publishedSets.length > 0 && (
+          <div style={{ marginBottom: '24px' }}>
+            <h2 style={{ fontSize: 'clamp(20px, 6vw, 24px)', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>📝 Practice with interviewer question sets</h2>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(min(280px, 100%), 1fr))', gap: '12px' }}>
+              {publishedSets.slice(0, 6).map((set) => (
+                <div key={set.id} style={{ background: 'white', padding: '16px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  <div>
+                    <h3 style={{ fontWeight: 'bold', color: '#111', fontSize: '16px' }}>{set.title}</h3>
+                    <p style={{ fontSize: '14px', color: '#666' }}>
+                      Questions by {set.interviewerName} • {set.questions.length} question{set.questions.length === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  {set.description && <p style={{ fontSize: '14px', color: '#444' }}>{set.description}</p>}
+                  {set.skills.length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                      {set.skills.slice(0, 4).map((skill) => (
+                        <Badge key={skill} label={skill} variant="primary" size="sm" />
+                      ))}
+                    </div>
+                  )}
+                  <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginTop: 'auto' }}>
+                    <Button variant="primary" onClick={() => onStartInterview('technical', { questionSet: set, persona, ...recordingOption })} disabled={isLoading} size="sm">
+                      🚀 Practice
+                    </Button>
+                    {profile.userType === 'candidate' && onBookInterview && set.interviewerId !== profile.id && (
+                      <Button variant="secondary" onClick={onBookInterview} size="sm">
+                        📅 Book {set.interviewerName}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Interviews */}
-        {history.length > 0 && (
+        {completedHistory.length > 0 && (
           <div style={{ marginBottom: '24px' }}>
             <h2 style={{ fontSize: '24px', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>Recent Interviews</h2>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
@@ -314,11 +627,11 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
         )}
 
         {/* Empty State */}
-        {history.length === 0 && (
+        {completedHistory.length === 0 && !resumableSession && (
           <div style={{ background: 'white', padding: '64px 24px', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', textAlign: 'center' }}>
             <h3 style={{ fontSize: '28px', fontWeight: 'bold', color: '#111', marginBottom: '16px' }}>No interviews yet</h3>
             <p style={{ color: '#666', marginBottom: '24px', fontSize: '16px' }}>Start your first interview to track progress</p>
-            <Button onClick={onStartInterview} disabled={isLoading} variant="primary" size="lg">
+            <Button onClick={() => onStartInterview(track, { persona, ...recordingOption })} disabled={isLoading} variant="primary" size="lg">
               {isLoading ? 'Starting...' : '🚀 Start First Interview'}
             </Button>
           </div>
@@ -7,7 +7,9 @@ import { useState, useRef } from 'react';
 import { Button } from '../components/Button';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { speechService } from '../services/speech';
+import { speechAnalytics } from '../services/speech-analytics';
 import { createLogger } from '../utils/logger';
+import type { SpeechSegment } from '../types';
 
 const logger = createLogger('self-intro-screen');
 
@@ -26,6 +28,8 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
   const [feedback, setFeedback] = useState('');
   const [error, setError] = useState('');
   const recordingStartTime = useRef<number | null>(null);
+  const recordingEndTime = useRef<number | null>(null);
+  const segments = useRef<SpeechSegment[]>([]);
 
   const startRecording = () => {
     if (!speechService.isSupported()) {
@@ -38,9 +42,12 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
     setInterimTranscript('');
     setError('');
     recordingStartTime.current = Date.now();
+    recordingEndTime.current = null;
+    segments.current = [];
 
     speechService.startListening(
       (result) => {
+        segments.current.push(...result.segments);
         if (result.isFinal) {
           setTranscript((prev) => prev + result.transcript);
         } else {
@@ -52,6 +59,7 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
         setIsListening(false);
       },
       () => {
+        if (!recordingEndTime.current) recordingEndTime.current = Date.now();
         setIsListening(false);
         setInterimTranscript('');
       }
@@ -59,6 +67,7 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
   };
 
   const stopRecording = () => {
+    recordingEndTime.current = Date.now();
     speechService.stopListening();
     setIsListening(false);
   };
@@ -74,7 +83,9 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
       setError('');
 
       const fullTranscript = transcript + interimTranscript;
-      const duration = recordingStartTime.current ? Math.round((Date.now() - recordingStartTime.current) / 1000) : 0;
+      const startedAt = recordingStartTime.current ?? Date.now();
+      const endedAt = recordingEndTime.current ?? Date.now();
+      const duration = Math.round((endedAt - startedAt) / 1000);
 
       // Generate feedback based on introduction
       const feedbackItems: string[] = [];
@@ -121,17 +132,12 @@ export const SelfIntroScreen: React.FC<SelfIntroScreenProps> = ({ role, onIntroC
         feedbackItems.push('→ Mention your career goals or what you\'re looking for');
       }
 
-      // Fluency feedback
-      const wordCount = fullTranscript.split(/\s+/).length;
-      if (wordCount > 0) {
-        const speed = Math.round(wordCount / (duration / 60));
-        if (speed < 100) {
-          feedbackItems.push('→ Speak a bit faster - you seemed a bit slow');
-        } else if (speed > 180) {
-          feedbackItems.push('→ Slow down slightly - you were speaking quite fast');
-        } else {
-          feedbackItems.push('✓ Good speaking pace');
-        }
+      // Delivery feedback: pace, filler words, hedging and pauses
+      const delivery = speechAnalytics.analyze(segments.current, { startedAt, endedAt });
+      const deliverySummary = delivery && speechAnalytics.summarize([delivery]);
+      if (deliverySummary) {
+        const tips = speechAnalytics.getTips(deliverySummary);
+        feedbackItems.push(...(tips.length > 0 ? tips.map((tip) => `→ ${tip}`) : ['✓ Good speaking pace and delivery']));
       }
 
       const generatedFeedback = feedbackItems.join('\n');
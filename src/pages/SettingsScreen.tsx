@@ -5,7 +5,8 @@
 
 import React, { useState } from 'react';
 import { PreferencesSettings } from '../components/PreferencesSettings';
-import { ArrowLeft, User, Code } from 'lucide-react';
+import { AiUsagePanel } from '../components/AiUsagePanel';
+import { ArrowLeft, User, Code, Activity } from 'lucide-react';
 import { Input } from '../components/Input';
 import { Textarea } from '../components/Textarea';
 import { Button } from '../components/Button';
@@ -27,7 +28,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
   currentUser,
   onBack,
 }) => {
-  const [activeTab, setActiveTab] = useState<'profile' | 'preferences'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'usage'>('profile');
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -150,6 +151,19 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
             <Code className="inline h-5 w-5 mr-2" />
             Preferences
           </button>
+          {currentUser.userType === 'candidate' && (
+            <button
+              onClick={() => setActiveTab('usage')}
+              className={`px-4 py-2 font-semibold transition-colors ${
+                activeTab === 'usage'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              <Activity className="inline h-5 w-5 mr-2" />
+              AI Usage
+            </button>
+          )}
         </div>
 
         {/* Profile Tab */}
@@ -297,6 +311,9 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
         {activeTab === 'preferences' && (
           <PreferencesSettings userId={currentUser.id} />
         )}
+
+        {/* AI Usage Tab */}
+        {activeTab === 'usage' && <AiUsagePanel />}
       </div>
     </div>
   );
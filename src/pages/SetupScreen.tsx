@@ -3,12 +3,22 @@
  * @description User profile setup with professional header and enhanced UI
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
 import { createLogger } from '../utils/logger';
+import {
+  DEFAULT_INTERVIEW_TEMPLATE_ID,
+  INTERVIEW_TEMPLATES,
+  JOB_DESCRIPTION_MAX_LENGTH,
+  JOB_SENIORITY_LEVELS,
+} from '../utils/constants';
+import { interviewTemplates } from '../services/interview-templates';
+import { jobDescriptionService } from '../services/job-description';
+import { getCompanyTrackService, isCompanyTrackServiceAvailable } from '../services/company-tracks';
+import { resumeAnalyzer } from '../services/resume-analyzer';
 import ResumeScannerPage from './ResumeScannerPage';
-import type { UserProfile } from '../types';
+import type { CompanyTrack, TargetJob, UserProfile } from '../types';
 
 const logger = createLogger('setup-screen');
 
@@ -43,8 +53,16 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({
   const [email, setEmail] = useState(initialProfile?.email || '');
   const [skills, setSkills] = useState<string[]>(initialProfile?.skills || []);
   const [customSkill, setCustomSkill] = useState('');
+  const [interviewTemplateId, setInterviewTemplateId] = useState(
+    initialProfile?.interviewTemplateId || DEFAULT_INTERVIEW_TEMPLATE_ID
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showResumScanner, setShowResumScanner] = useState(false);
+  const [jobDescription, setJobDescription] = useState(initialProfile?.targetJob?.description || '');
+  const [targetJob, setTargetJob] = useState<TargetJob | null>(initialProfile?.targetJob || null);
+  const [isAnalyzingJob, setIsAnalyzingJob] = useState(false);
+  const [companyTracks, setCompanyTracks] = useState<CompanyTrack[]>([]);
+  const [companyTrackId, setCompanyTrackId] = useState<string | null>(initialProfile?.companyTrackId || null);
   
   // Interviewer-specific state
   const [yearsOfExperience, setYearsOfExperience] = useState(initialProfile?.interviewerProfile?.yearsOfExperience || 0);
@@ -55,6 +73,18 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({
   const [bio, setBio] = useState(initialProfile?.interviewerProfile?.bio || '');
   const [linkedInUrl, setLinkedInUrl] = useState(initialProfile?.interviewerProfile?.linkedInUrl || '');
 
+  // Company tracks are optional; without them setup only offers templates
+  useEffect(() => {
+    if (!isCompanyTrackServiceAvailable()) return;
+
+    getCompanyTrackService()
+      .getTracks()
+      .then(setCompanyTracks)
+      .catch((error) => logger.warn({ error }, 'Company tracks unavailable'));
+  }, []);
+
+  const selectedCompanyTrack = companyTracks.find((track) => track.id === companyTrackId);
+
   const addSkill = (skill: string) => {
     const trimmed = skill.trim();
     if (trimmed && !skills.includes(trimmed) && skills.length < 20) {
@@ -69,6 +99,34 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({
     }
   };
 
+  const handleJobFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await resumeAnalyzer.extractTextFromFile(file);
+      setJobDescription(text.slice(0, JOB_DESCRIPTION_MAX_LENGTH));
+      if (errors.targetJob) setErrors({ ...errors, targetJob: '' });
+    } catch (error) {
+      logger.error({ error }, 'Failed to read job description file');
+      setErrors({ ...errors, targetJob: 'Could not read that file. Try pasting the job description instead.' });
+    }
+  };
+
+  const analyzeJobDescription = async () => {
+    setIsAnalyzingJob(true);
+    try {
+      const job = await jobDescriptionService.analyze(jobDescription);
+      setTargetJob(job);
+      if (errors.targetJob) setErrors({ ...errors, targetJob: '' });
+      logger.info({ jobId: job.id, skills: job.requirements.requiredSkills.length }, 'Target job analyzed');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to analyze job description';
+      setErrors({ ...errors, targetJob: errorMsg });
+    } finally {
+      setIsAnalyzingJob(false);
+    }
+  };
+
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {};
     
@@ -106,6 +164,9 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({
         role: role.trim(), 
         skills, 
         email: email || undefined,
+        interviewTemplateId: userType === 'candidate' ? interviewTemplateId : undefined,
+        targetJob: userType === 'candidate' ? targetJob : undefined,
+        companyTrackId: userType === 'candidate' ? companyTrackId : undefined,
         interviewerProfile: userType === 'interviewer' ? {
           yearsOfExperience,
           companyName,
@@ -483,6 +544,177 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({
                     )}
                   </div>
 
+                  {/* Interview Format Section */}
+                  {userType === 'candidate' && (
+                    <div>
+                      <label className="block text-base font-bold mb-3 text-gray-800 flex items-center gap-2">
+                        <span className="text-2xl">🗂️</span>
+                        <span>Interview Format</span>
+                      </label>
+                      <p className="text-sm text-gray-600 mb-4">Choose how your AI practice interviews are structured</p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {INTERVIEW_TEMPLATES.map((template) => (
+                          <button
+                            key={template.id}
+                            type="button"
+                            onClick={() => setInterviewTemplateId(template.id)}
+                            className={`p-4 rounded-xl text-left transition-all duration-200 ${
+                              interviewTemplateId === template.id
+                                ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg'
+                                : 'bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200'
+                            }`}
+                          >
+                            <p className="font-semibold text-sm">{template.name}</p>
+                            <p className={`text-xs mt-1 ${interviewTemplateId === template.id ? 'text-white/80' : 'text-gray-500'}`}>
+                              {template.description} · {interviewTemplates.getQuestionCount(template)} questions · ~{template.durationMinutes} min
+                            </p>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Company Track Section */}
+                  {userType === 'candidate' && companyTracks.length > 0 && (
+                    <div>
+                      <label className="block text-base font-bold mb-3 text-gray-800 flex items-center gap-2">
+                        <span className="text-2xl">🏢</span>
+                        <span>Company Track</span>
+                        <span className="text-gray-400 text-sm font-normal">(Optional)</span>
+                      </label>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Practice in a specific company's interview style. A track replaces the interview format above.
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {[null, ...companyTracks].map((track) => {
+                          const isSelected = (track?.id ?? null) === companyTrackId;
+                          return (
+                            <button
+                              key={track?.id ?? 'none'}
+                              type="button"
+                              onClick={() => setCompanyTrackId(track?.id ?? null)}
+                              className={`p-4 rounded-xl text-left transition-all duration-200 ${
+                                isSelected
+                                  ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg'
+                                  : 'bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200'
+                              }`}
+                            >
+                              <p className="font-semibold text-sm">{track ? `${track.company}-style` : 'No company track'}</p>
+                              <p className={`text-xs mt-1 ${isSelected ? 'text-white/80' : 'text-gray-500'}`}>
+                                {track
+                                  ? `${track.description} · ${track.questions.length + (track.includeIntro ? 1 : 0)} questions · ~${track.durationMinutes} min`
+                                  : 'Use the interview format above'}
+                              </p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {selectedCompanyTrack && selectedCompanyTrack.topics.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-3">
+                          Typical topics: {selectedCompanyTrack.topics.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Target Job Section */}
+                  {userType === 'candidate' && (
+                    <div>
+                      <label className="block text-base font-bold mb-3 text-gray-800 flex items-center gap-2">
+                        <span className="text-2xl">🎯</span>
+                        <span>Target Job</span>
+                        <span className="text-gray-400 text-sm font-normal">(Optional)</span>
+                      </label>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Paste or upload a job description to focus interviews on its required skills and seniority
+                      </p>
+
+                      {targetJob ? (
+                        <div className="p-4 bg-gradient-to-r from-blue-50 to-purple-50 rounded-xl border border-blue-100">
+                          <div className="flex items-start justify-between gap-3 mb-3">
+                            <div>
+                              <p className="font-semibold text-gray-900">
+                                {targetJob.requirements.title}
+                                {targetJob.requirements.company && (
+                                  <span className="font-normal text-gray-600"> · {targetJob.requirements.company}</span>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {JOB_SENIORITY_LEVELS.find((level) => level.value === targetJob.requirements.seniority)?.label}
+                              </p>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => setTargetJob(null)}
+                              className="text-sm text-red-600 hover:text-red-700 font-semibold"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          {targetJob.requirements.requiredSkills.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-3">
+                              {targetJob.requirements.requiredSkills.map((skill) => (
+                                <span
+                                  key={skill}
+                                  className="px-3 py-1 bg-white text-blue-700 border border-blue-200 rounded-full text-xs font-semibold"
+                                >
+                                  {skill}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {targetJob.requirements.responsibilities.length > 0 && (
+                            <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                              {targetJob.requirements.responsibilities.map((responsibility) => (
+                                <li key={responsibility}>{responsibility}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="space-y-3">
+                          <textarea
+                            value={jobDescription}
+                            onChange={(e) => {
+                              setJobDescription(e.target.value);
+                              if (errors.targetJob) setErrors({ ...errors, targetJob: '' });
+                            }}
+                            maxLength={JOB_DESCRIPTION_MAX_LENGTH}
+                            rows={6}
+                            placeholder="Paste the job posting here..."
+                            className="w-full px-4 py-3 text-sm rounded-xl border-2 border-gray-200 focus:border-blue-500 focus:outline-none"
+                          />
+                          <div className="flex flex-wrap items-center gap-3">
+                            <label className="px-4 py-2 text-sm font-semibold text-gray-700 bg-gray-50 border border-gray-200 rounded-xl cursor-pointer hover:bg-gray-100">
+                              📎 Upload file
+                              <input
+                                type="file"
+                                accept=".txt,.pdf,.docx"
+                                onChange={handleJobFileUpload}
+                                className="hidden"
+                              />
+                            </label>
+                            <Button
+                              type="button"
+                              onClick={analyzeJobDescription}
+                              disabled={!jobDescription.trim() || isAnalyzingJob}
+                              variant="secondary"
+                              size="sm"
+                            >
+                              {isAnalyzingJob ? 'Analyzing...' : 'Analyze Job Description'}
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {errors.targetJob && (
+                        <p className="text-red-600 text-sm mt-2 flex items-center gap-1">
+                          <span>ℹ️</span> {errors.targetJob}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Email Section */}
                   <div>
                     <label className="block text-base font-bold mb-3 text-gray-800 flex items-center gap-2">
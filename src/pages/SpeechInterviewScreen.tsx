@@ -6,20 +6,40 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '../components/Button';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { INTERVIEW_LENGTH } from '../utils/constants';
+import { StreamingFeedback } from '../components/StreamingFeedback';
 import { speechService } from '../services/speech';
-import type { InterviewSession } from '../types';
+import { followUpEngine } from '../services/follow-up';
+import { interviewTemplates } from '../services/interview-templates';
+import { CODE_LANGUAGES, codeExecutionService } from '../services/code-execution';
+import { questionTiming } from '../services/question-timing';
+import { useQuestionTimer } from '../hooks/useQuestionTimer';
+import { interviewLanguage } from '../services/interview-language';
+import { interviewPersona } from '../services/interview-persona';
+import { speechAnalytics } from '../services/speech-analytics';
+import { DEFAULT_INTERVIEW_LANGUAGE, DEFAULT_INTERVIEW_PERSONA, TIMED_OUT_ANSWER } from '../utils/constants';
+import { HintPanel } from '../components/HintPanel';
+import type { CodeLanguage, InterviewHint, InterviewSession, SpeechSegment, SubmitAnswerOptions } from '../types';
 
 interface SpeechInterviewScreenProps {
   session: InterviewSession;
-  onSubmitAnswer: (answer: string) => Promise<void>;
+  onSubmitAnswer: (answer: string, codeLanguage?: CodeLanguage, options?: SubmitAnswerOptions) => Promise<void>;
   onExit?: () => void;
+  onRequestHint?: (draft?: string) => Promise<InterviewHint | null>;
+  isEvaluating?: boolean;
+  isHintLoading?: boolean;
+  isRecording?: boolean; // The session's opt-in recording is capturing
+  streamingFeedback?: string | null;
 }
 
 export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
   session,
   onSubmitAnswer,
   onExit,
+  onRequestHint,
+  isEvaluating = false,
+  isHintLoading = false,
+  isRecording = false,
+  streamingFeedback = null,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [error, setError] = useState<string>('');
@@ -28,13 +48,26 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
   const [interimTranscript, setInterimTranscript] = useState<string>('');
   const [isQuestionPlaying, setIsQuestionPlaying] = useState(false);
   const [isCameraReady, setIsCameraReady] = useState(false);
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('javascript');
+  const [code, setCode] = useState<string>('');
+  const [hintError, setHintError] = useState<string>('');
   const questionPlayedRef = useRef<boolean>(false);
+  const codeLanguageRef = useRef<CodeLanguage>('javascript');
+  // Timed phrases of the spoken answer, for delivery analytics
+  const segmentsRef = useRef<SpeechSegment[]>([]);
+  const listeningStartedAtRef = useRef<number | null>(null);
 
+  const template = interviewTemplates.forSession(session);
+  const questionCount = interviewTemplates.getQuestionCount(template);
   const currentQuestionIndex = session.questions.length - 1;
-  const currentQuestion = session.questions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / INTERVIEW_LENGTH) * 100;
-  const isLastQuestion = currentQuestionIndex === INTERVIEW_LENGTH - 1;
+  const followUpIndex = followUpEngine.getFollowUpIndex(session);
+  const currentQuestion = followUpEngine.getActivePrompt(session);
+  // Changes for every new prompt, including follow-ups on the same question
+  const promptKey = `${currentQuestionIndex}-${followUpIndex}`;
+  const progress = ((currentQuestionIndex + 1) / questionCount) * 100;
+  const isLastQuestion = currentQuestionIndex === questionCount - 1;
   const isCodingQuestion = currentQuestion?.isCoding;
+  const challenge = currentQuestion?.challenge;
 
   // Initialize camera on component mount
   useEffect(() => {
@@ -135,6 +168,18 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     };
   }, [currentQuestion]);
 
+  // Listen and speak in the session's language (set before the question plays)
+  const language = session.language ?? DEFAULT_INTERVIEW_LANGUAGE;
+  useEffect(() => {
+    speechService.setLanguage(language);
+  }, [language]);
+
+  // Speak with the interviewer persona's voice and pace
+  const persona = session.persona ?? DEFAULT_INTERVIEW_PERSONA;
+  useEffect(() => {
+    speechService.setPersona(persona);
+  }, [persona]);
+
   // Cleanup on component unmount (when exiting interview)
   useEffect(() => {
     return () => {
@@ -155,11 +200,18 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     setTranscript('');
     setInterimTranscript('');
     setError('');
+    setHintError('');
     setIsListening(false);
     // Reset flag when question index changes
     questionPlayedRef.current = false;
     speechService.cancelSpeech();
-  }, [currentQuestionIndex]);
+  }, [promptKey]);
+
+  // Fresh editor skeleton for each coding question, in the last chosen language
+  const functionName = challenge?.functionName;
+  useEffect(() => {
+    setCode(functionName ? codeExecutionService.getStarterCode(codeLanguageRef.current, functionName) : '');
+  }, [promptKey, functionName]);
 
   // Play question on load - only play once per question
   useEffect(() => {
@@ -174,7 +226,7 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
 
     questionPlayedRef.current = true;
     playQuestion();
-  }, [currentQuestionIndex]);
+  }, [promptKey]);
 
   const playQuestion = async () => {
     try {
@@ -182,6 +234,7 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
       speechService.cancelSpeech();
       setIsQuestionPlaying(true);
       setError('');
+      if (!currentQuestion) return;
       await speechService.speak(currentQuestion.qText);
       // Auto-start listening after question finishes
       setTimeout(() => {
@@ -204,9 +257,12 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     setTranscript('');
     setInterimTranscript('');
     setError('');
+    segmentsRef.current = [];
+    listeningStartedAtRef.current = Date.now();
 
     speechService.startListening(
       (result) => {
+        segmentsRef.current.push(...result.segments);
         if (result.isFinal) {
           setTranscript((prev) => prev + result.transcript);
         } else {
@@ -229,7 +285,44 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     setIsListening(false);
   };
 
+  const handleLanguageChange = (language: CodeLanguage) => {
+    // Swap the skeleton only if the candidate has not started writing
+    if (challenge && code === codeExecutionService.getStarterCode(codeLanguage, challenge.functionName)) {
+      setCode(codeExecutionService.getStarterCode(language, challenge.functionName));
+    }
+    setCodeLanguage(language);
+    codeLanguageRef.current = language;
+  };
+
+  const handleSubmitCode = async () => {
+    if (!code.trim()) {
+      setError('Please write your solution before continuing');
+      return;
+    }
+
+    setError('');
+
+    try {
+      await onSubmitAnswer(code, codeLanguage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit answer');
+    }
+  };
+
+  // Filler words, pace and pauses of the answer spoken since listening started
+  const getDelivery = (): Pick<SubmitAnswerOptions, 'delivery'> => {
+    const startedAt = listeningStartedAtRef.current;
+    const delivery = startedAt
+      ? speechAnalytics.analyze(segmentsRef.current, { startedAt, endedAt: Date.now(), language })
+      : undefined;
+    return delivery ? { delivery } : {};
+  };
+
   const handleSubmit = async () => {
+    if (isCodingQuestion) {
+      return handleSubmitCode();
+    }
+
     const finalAnswer = transcript + interimTranscript;
     if (!finalAnswer.trim()) {
       setError('Please provide an answer before continuing');
@@ -240,7 +333,7 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     setError('');
 
     try {
-      await onSubmitAnswer(finalAnswer);
+      await onSubmitAnswer(finalAnswer, undefined, getDelivery());
       setTranscript('');
       setInterimTranscript('');
     } catch (err) {
@@ -248,6 +341,36 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
     }
   };
 
+  // Time is up: submit whatever has been said or written so far
+  const handleTimeUp = async () => {
+    stopListening();
+    setError('');
+    const answer = isCodingQuestion ? code : transcript + interimTranscript;
+
+    try {
+      await onSubmitAnswer(
+        answer.trim() || TIMED_OUT_ANSWER,
+        isCodingQuestion ? codeLanguage : undefined,
+        { timedOut: true, ...(isCodingQuestion ? {} : getDelivery()) }
+      );
+      setTranscript('');
+      setInterimTranscript('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit answer');
+    }
+  };
+
+  const handleRequestHint = async () => {
+    if (!onRequestHint) return;
+    setHintError('');
+    const hint = await onRequestHint(isCodingQuestion ? code : transcript + interimTranscript);
+    if (!hint) {
+      setHintError('Could not get a hint. Please try again.');
+    }
+  };
+
+  const remainingSeconds = useQuestionTimer(currentQuestion, handleTimeUp, isEvaluating);
+
   if (!currentQuestion) {
     return (
       <div style={{ minHeight: '100vh', width: '100%', background: '#f8f9fa' }}>
@@ -273,7 +396,7 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
   }
 
   const finalAnswer = transcript + interimTranscript;
-  const hasAnswer = finalAnswer.trim().length > 0;
+  const hasAnswer = isCodingQuestion ? code.trim().length > 0 : finalAnswer.trim().length > 0;
 
   return (
     <div style={{ minHeight: '100vh', width: '100%', background: '#f8f9fa' }}>
@@ -290,15 +413,32 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
           <div style={{ display: 'flex', alignItems: 'center', gap: '16px', flex: 1, minWidth: '200px' }}>
             <div style={{ fontSize: 'clamp(18px, 5vw, 24px)', fontWeight: 'bold', color: '#0066cc', letterSpacing: '-0.5px' }}>Intervuu</div>
             <div style={{ height: '24px', width: '1px', background: '#e5e7eb' }}></div>
-            <div style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#666', fontWeight: '500' }}>{session.role}</div>
+            <div style={{ fontSize: 'clamp(12px, 3vw, 14px)', color: '#666', fontWeight: '500' }}>{session.role} • {template.name}</div>
           </div>
           <div style={{ display: 'flex', alignItems: 'center', gap: 'clamp(12px, 3vw, 24px)', flexWrap: 'wrap' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0f4ff', padding: '8px 12px', borderRadius: '20px', border: '1px solid #d0deff' }}>
-              <span style={{ fontSize: 'clamp(10px, 2.5vw, 12px)', fontWeight: '600', color: '#0066cc' }}>Q {currentQuestionIndex + 1}/{INTERVIEW_LENGTH}</span>
+              <span style={{ fontSize: 'clamp(10px, 2.5vw, 12px)', fontWeight: '600', color: '#0066cc' }}>Q {currentQuestionIndex + 1}/{questionCount}{followUpIndex > 0 ? ` • Follow-up ${followUpIndex}` : ''}{currentQuestion?.isRetry ? ' • 🔁 Retry' : ''}{language !== DEFAULT_INTERVIEW_LANGUAGE ? ` • 🌐 ${interviewLanguage.getLabel(language)}` : ''}{persona !== DEFAULT_INTERVIEW_PERSONA ? ` • 🎭 ${interviewPersona.getLabel(persona)}` : ''}</span>
               <div style={{ width: '50px', height: '6px', background: '#e5e7eb', borderRadius: '3px', overflow: 'hidden' }}>
                 <div style={{ width: `${progress}%`, height: '100%', background: '#0066cc', transition: 'width 0.3s ease' }}></div>
               </div>
             </div>
+            {session.recordingSettings && (
+              <div
+                title={isRecording ? 'This session is being recorded' : 'Camera or microphone access was not granted'}
+                style={{ fontSize: 'clamp(10px, 2.5vw, 12px)', fontWeight: '600', padding: '8px 12px', borderRadius: '20px', background: isRecording ? '#fee2e2' : '#f3f4f6', color: isRecording ? '#dc2626' : '#666' }}
+              >
+                {isRecording ? '⏺ REC' : '⏺ Not recording'}
+              </div>
+            )}
+            {remainingSeconds !== null && (
+              <div
+                role="timer"
+                aria-label="Time left for this question"
+                style={{ fontSize: 'clamp(12px, 3vw, 14px)', fontWeight: 'bold', fontVariantNumeric: 'tabular-nums', padding: '8px 12px', borderRadius: '20px', background: remainingSeconds <= 30 ? '#fee2e2' : '#f0f4ff', color: remainingSeconds <= 30 ? '#dc2626' : '#0066cc' }}
+              >
+                ⏱ {questionTiming.format(remainingSeconds)}
+              </div>
+            )}
             <Button variant="danger" onClick={() => {
               // Stop all speech/audio before exiting
               speechService.cancelSpeech();
@@ -513,12 +653,64 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
           </div>
         </div>
 
+        {/* Code Editor (coding questions) */}
+        {isCodingQuestion && (
+          <div style={{ background: 'white', padding: 'clamp(16px, 4vw, 24px)', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '24px' }}>
+            <p style={{ fontSize: '16px', fontWeight: '600', color: '#111', marginBottom: '8px', lineHeight: '1.5' }}>{currentQuestion.qText}</p>
+            {challenge && (
+              <p style={{ fontSize: '13px', color: '#666', marginBottom: '16px' }}>
+                Implement <code style={{ background: '#f3f4f6', padding: '2px 6px', borderRadius: '4px' }}>{challenge.functionName}</code>.
+                {challenge.id && challenge.testCount
+                  ? ` Your solution runs against ${challenge.testCount} hidden tests when you submit.`
+                  : ''}
+              </p>
+            )}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+              <label htmlFor="code-language" style={{ fontSize: '13px', fontWeight: '600', color: '#444' }}>Language</label>
+              <select
+                id="code-language"
+                value={codeLanguage}
+                onChange={(e) => handleLanguageChange(e.target.value as CodeLanguage)}
+                style={{ padding: '6px 10px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '13px' }}
+              >
+                {CODE_LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              spellCheck={false}
+              rows={14}
+              style={{ width: '100%', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: '14px', lineHeight: '1.5', padding: '12px', borderRadius: '8px', border: '1px solid #d1d5db', background: '#0f172a', color: '#e2e8f0', resize: 'vertical' }}
+            />
+            {error && (
+              <p style={{ fontSize: '13px', color: '#dc2626', marginTop: '8px' }}>{error}</p>
+            )}
+          </div>
+        )}
+
+        {/* Hints */}
+        {onRequestHint && currentQuestion.category !== 'Introduction' && !isEvaluating && (
+          <HintPanel
+            prompt={currentQuestion}
+            onRequestHint={handleRequestHint}
+            isLoading={isHintLoading}
+            disabled={isQuestionPlaying}
+            error={hintError}
+          />
+        )}
+
+        {/* Streamed evaluation feedback */}
+        {isEvaluating && <StreamingFeedback feedback={streamingFeedback} />}
+
         {/* Controls Section */}
         <div style={{ background: 'white', padding: 'clamp(16px, 4vw, 24px)', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', display: 'flex', justifyContent: 'center', gap: '16px', flexWrap: 'wrap' }}>
           {!isCodingQuestion && (
             <>
               {!isListening ? (
-                <Button onClick={startListening} variant="primary" size="lg" disabled={false || isQuestionPlaying}>
+                <Button onClick={startListening} variant="primary" size="lg" disabled={isEvaluating || isQuestionPlaying}>
                   🎤 Start Speaking
                 </Button>
               ) : (
@@ -537,11 +729,11 @@ export const SpeechInterviewScreen: React.FC<SpeechInterviewScreenProps> = ({
 
           <Button
             onClick={handleSubmit}
-            disabled={!hasAnswer || false || isListening || isQuestionPlaying}
+            disabled={!hasAnswer || isEvaluating || isListening || isQuestionPlaying}
             variant="primary"
             size="lg"
           >
-            {false ? '⏳ Evaluating...' : isLastQuestion ? '✅ Submit & Get Results' : 'Next Question →'}
+            {isEvaluating ? '⏳ Evaluating...' : isLastQuestion ? '✅ Submit & Get Results' : 'Next Question →'}
           </Button>
         </div>
       </div>
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { adaptiveDifficultyEngine } from './adaptive-difficulty';
+import type { InterviewQuestion } from '../types';
+
+const question = (qText: string, score?: number, category = 'General'): InterviewQuestion =>
+  ({ qText, category, ...(score !== undefined ? { score } : {}) }) as InterviewQuestion;
+
+describe('adaptiveDifficultyEngine.getFocusSkills', () => {
+  it('matches skills as whole words', () => {
+    const questions = [question('How do closures work in JavaScript?', 2), question('What makes a good API?', 4)];
+
+    expect(adaptiveDifficultyEngine.getFocusSkills(['Java', 'Go', 'JavaScript'], questions)).toEqual(['JavaScript', 'Java', 'Go']);
+  });
+
+  it('matches skills ending in symbols and ignores case and spacing', () => {
+    const questions = [
+      question('Explain move semantics in c++.', 1),
+      question('When would you use  Node.js streams?', 5),
+      question('Describe async/await in C#', 4, 'C#'),
+    ];
+
+    expect(adaptiveDifficultyEngine.getFocusSkills(['C++', 'Node.js', 'C#', 'Rust'], questions)).toEqual(['C++', 'Rust']);
+  });
+
+  it('lists weak skills before untested ones', () => {
+    const questions = [question('Design a React hook for polling', 2), question('Index a SQL table', 5)];
+
+    expect(adaptiveDifficultyEngine.getFocusSkills(['SQL', 'Docker', 'React'], questions)).toEqual(['React', 'Docker']);
+  });
+});
+
+describe('adaptiveDifficultyEngine.getNextDifficulty', () => {
+  it('starts from the resume and steps with the last score', () => {
+    const scored = (score: number): InterviewQuestion => ({ ...question('Q', score), difficulty: 'intermediate' });
+
+    expect(adaptiveDifficultyEngine.getNextDifficulty([], 'Engineer with 6 years of experience')).toBe('intermediate');
+    expect(adaptiveDifficultyEngine.getNextDifficulty([], '2 yrs')).toBe('basic');
+    expect(adaptiveDifficultyEngine.getNextDifficulty([scored(4)])).toBe('advanced');
+    expect(adaptiveDifficultyEngine.getNextDifficulty([scored(3)])).toBe('intermediate');
+    expect(adaptiveDifficultyEngine.getNextDifficulty([scored(2)])).toBe('basic');
+  });
+});
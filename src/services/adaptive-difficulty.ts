@@ -0,0 +1,127 @@
+/**
+ * @file services/adaptive-difficulty.ts
+ * @description Adaptive difficulty engine driven by live answer scores
+ * Moves difficulty up after strong answers, down after weak ones, and
+ * steers the next question toward weak or untested skills
+ */
+
+import { createLogger } from '../utils/logger';
+import type { InterviewQuestion, QuestionDifficulty, QuestionType } from '../types';
+
+const logger = createLogger('adaptive-difficulty');
+
+const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['basic', 'intermediate', 'advanced'];
+
+const STEP_UP_SCORE = 4; // Score at or above which difficulty increases
+const STEP_DOWN_SCORE = 2; // Score at or below which difficulty decreases
+const SENIOR_YEARS = 5; // Resume experience that starts at intermediate
+
+export interface QuestionPlan {
+  difficulty: QuestionDifficulty;
+  focusSkills: string[];
+  excludeCategories: string[];
+  excludeQuestions: string[];
+  questionType?: QuestionType; // Set by the interview template slot
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Whether the question names the skill as a whole word, so "Java" does not
+ * match "JavaScript" nor "Go" match "good". Letters and digits mark the
+ * boundaries rather than \b, which never matches after "C++" or "C#".
+ */
+const mentionsSkill = (question: InterviewQuestion, skill: string): boolean => {
+  const needle = normalize(skill);
+  if (!needle) return false;
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'u');
+  return pattern.test(normalize(question.category)) || pattern.test(normalize(question.qText));
+};
+
+export const adaptiveDifficultyEngine = {
+  /**
+   * Starting level before any technical answer has been scored.
+   * Uses the largest "N years" figure found in the resume summary.
+   */
+  getStartingDifficulty(resumeExperience?: string): QuestionDifficulty {
+    const years = (resumeExperience?.match(/(\d+)\s*(?:years?|yrs?)/gi) || [])
+      .map((match) => parseInt(match, 10))
+      .filter((value) => !isNaN(value));
+
+    return years.length > 0 && Math.max(...years) >= SENIOR_YEARS ? 'intermediate' : 'basic';
+  },
+
+  /**
+   * Next difficulty: one step from the last generated level based on that
+   * question's score. The intro is not graded for difficulty. A given
+   * `startingDifficulty` (e.g. a target job's seniority) replaces the
+   * resume-based starting level.
+   */
+  getNextDifficulty(
+    questions: InterviewQuestion[],
+    resumeExperience?: string,
+    startingDifficulty?: QuestionDifficulty
+  ): QuestionDifficulty {
+    const last = [...questions].reverse().find((q) => q.difficulty);
+
+    if (!last?.difficulty) {
+      return startingDifficulty ?? this.getStartingDifficulty(resumeExperience);
+    }
+
+    const current = last.difficulty;
+    const lastScore = last.threadScore ?? last.score;
+
+    if (lastScore === undefined) {
+      return current;
+    }
+
+    const index = DIFFICULTY_LEVELS.indexOf(current);
+    if (lastScore >= STEP_UP_SCORE) {
+      return DIFFICULTY_LEVELS[Math.min(index + 1, DIFFICULTY_LEVELS.length - 1)];
+    }
+    if (lastScore <= STEP_DOWN_SCORE) {
+      return DIFFICULTY_LEVELS[Math.max(index - 1, 0)];
+    }
+    return current;
+  },
+
+  /**
+   * Skills to aim at next: those tied to low-scoring answers first,
+   * then those no question has touched yet
+   */
+  getFocusSkills(skills: string[], questions: InterviewQuestion[]): string[] {
+    const weak = skills.filter((skill) =>
+      questions.some((q) => {
+        const score = q.threadScore ?? q.score;
+        return typeof score === 'number' && score <= STEP_DOWN_SCORE && mentionsSkill(q, skill);
+      })
+    );
+    const untested = skills.filter(
+      (skill) => !weak.includes(skill) && !questions.some((q) => mentionsSkill(q, skill))
+    );
+
+    return [...weak, ...untested];
+  },
+
+  planNextQuestion(
+    skills: string[],
+    questions: InterviewQuestion[],
+    resumeExperience?: string,
+    startingDifficulty?: QuestionDifficulty
+  ): QuestionPlan {
+    const plan: QuestionPlan = {
+      difficulty: this.getNextDifficulty(questions, resumeExperience, startingDifficulty),
+      focusSkills: this.getFocusSkills(skills, questions),
+      excludeCategories: [
+        ...new Set(
+          questions.map((q) => q.category).filter((category) => category !== 'Introduction')
+        ),
+      ],
+      excludeQuestions: questions.map((q) => q.qText),
+    };
+
+    logger.debug(plan, 'Next question planned');
+    return plan;
+  },
+};
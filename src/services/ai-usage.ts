@@ -0,0 +1,54 @@
+/**
+ * @file services/ai-usage.ts
+ * @description Candidate's AI usage and daily quota, metered by the backend
+ * AI proxy (GET /api/ai/usage)
+ */
+
+import axios from 'axios';
+import { createLogger } from '../utils/logger';
+import { AppError } from '../utils/error-handler';
+import { API_TIMEOUT_MS, ERROR_CODES } from '../utils/constants';
+import { getFirebaseInstances } from './firebase';
+import type { AiUsageOverview } from '../types';
+
+const logger = createLogger('ai-usage');
+
+class AiUsageService {
+  private backendUrl: string;
+
+  constructor() {
+    this.backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+  }
+
+  async getUsage(): Promise<AiUsageOverview> {
+    try {
+      const token = await getFirebaseInstances().auth.currentUser?.getIdToken();
+      const response = await axios.get(`${this.backendUrl}/api/ai/usage`, {
+        timeout: API_TIMEOUT_MS,
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      return response.data.usage;
+    } catch (error) {
+      logger.error({ error }, 'Failed to load AI usage');
+      throw new AppError(
+        ERROR_CODES.API_ERROR,
+        'Failed to load AI usage',
+        (error as { response?: { status?: number } })?.response?.status,
+        error
+      );
+    }
+  }
+
+  /**
+   * Share of today's quota used (0-1), by whichever of calls or tokens is
+   * closer to its limit
+   */
+  getQuotaUsed(usage: AiUsageOverview): number {
+    const calls = usage.quota.dailyCalls > 0 ? usage.today.calls / usage.quota.dailyCalls : 1;
+    const tokens = usage.quota.dailyTokens > 0 ? usage.today.totalTokens / usage.quota.dailyTokens : 1;
+    return Math.min(1, Math.max(calls, tokens));
+  }
+}
+
+export const aiUsageService = new AiUsageService();
@@ -0,0 +1,57 @@
+/**
+ * @file services/answer-comparison.ts
+ * @description Compare a candidate's answer with the question's model answer
+ * Key concepts are matched on normalized words (see question-similarity), so
+ * "caching the results" covers the concept "result caching". Sentences of the
+ * model answer that carry a missed concept are marked for highlighting.
+ */
+
+import { questionSimilarity } from './question-similarity';
+import type { AnswerComparison, ModelAnswer } from '../types';
+
+const CONCEPT_MATCH_RATIO = 0.5; // Share of a concept's words the answer must use
+
+export interface ModelAnswerSegment {
+  text: string;
+  missed: boolean; // Carries a key concept the candidate did not cover
+}
+
+const mentions = (words: Set<string>, concept: string): boolean => {
+  const conceptWords = [...questionSimilarity.normalize(concept)];
+  if (conceptWords.length === 0) return false;
+
+  const found = conceptWords.filter((word) => words.has(word)).length;
+  return found / conceptWords.length >= CONCEPT_MATCH_RATIO;
+};
+
+export const answerComparison = {
+  /**
+   * Key concepts of the model answer the candidate did and did not cover
+   */
+  compare(answer: string, modelAnswer: ModelAnswer): AnswerComparison {
+    const words = questionSimilarity.normalize(answer);
+    const covered = modelAnswer.keyConcepts.filter((concept) => mentions(words, concept));
+    const missed = modelAnswer.keyConcepts.filter((concept) => !covered.includes(concept));
+
+    return {
+      covered,
+      missed,
+      coverage: modelAnswer.keyConcepts.length > 0 ? covered.length / modelAnswer.keyConcepts.length : 0,
+    };
+  },
+
+  /**
+   * Model answer split into sentences (line breaks kept as their own
+   * segments), each marked when it mentions a missed concept
+   */
+  segment(modelAnswer: ModelAnswer, missed: string[]): ModelAnswerSegment[] {
+    return modelAnswer.text.split(/(\n+)/).flatMap((line) => {
+      if (/^\n+$/.test(line)) return [{ text: line, missed: false }];
+
+      return (line.match(/[^.!?]*[.!?]+\s*|[^.!?]+$/g) || []).map((sentence) => {
+        const words = questionSimilarity.normalize(sentence);
+        return { text: sentence, missed: missed.some((concept) => mentions(words, concept)) };
+      });
+    });
+  },
+};
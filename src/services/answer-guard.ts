@@ -0,0 +1,76 @@
+/**
+ * @file services/answer-guard.ts
+ * @description Applies the answer guard's flags to evaluations
+ * The backend inspects every answer it is asked to grade (instructions aimed
+ * at the grader, abusive language, empty answers, text copied from the
+ * question or an earlier answer, plus the grader's own flags) and returns
+ * the flags with the grading samples; see backend/src/services/answer-guard.ts.
+ * Here flagged answers are capped and keep their flags for the report.
+ */
+
+import { ANSWER_FLAGS, RUBRIC_DIMENSIONS } from '../utils/constants';
+import type { AnswerFlag, GeminiEvaluationResponse, InterviewQuestion } from '../types';
+
+const getEntry = (flag: AnswerFlag) => ANSWER_FLAGS.find((f) => f.flag === flag)!;
+
+export const answerGuard = {
+  getLabel(flag: AnswerFlag): string {
+    return getEntry(flag).label;
+  },
+
+  /**
+   * Highest score an answer with these flags can get (5 without any)
+   */
+  getMaxScore(flags: AnswerFlag[] = []): number {
+    return Math.min(5, ...flags.map((flag) => getEntry(flag).maxScore));
+  },
+
+  /**
+   * Cap the score by the flags and say why in the feedback. `flags` replaces
+   * whatever flags a single grading sample carried.
+   */
+  applyToEvaluation(evaluation: GeminiEvaluationResponse, flags: AnswerFlag[] = []): GeminiEvaluationResponse {
+    const unique = [...new Set(flags)];
+    if (unique.length === 0) return { ...evaluation, flags: [] };
+
+    const maxScore = this.getMaxScore(unique);
+    const reasons = unique.map((flag) => this.getLabel(flag).toLowerCase()).join(', ');
+
+    return {
+      ...evaluation,
+      score: Math.min(evaluation.score, maxScore),
+      feedback: `This answer was flagged (${reasons}), so it is capped at ${maxScore}/5. ${evaluation.feedback}`,
+      flags: unique,
+    };
+  },
+
+  /**
+   * Evaluation for an answer that is not sent to the grader
+   */
+  getUngradedEvaluation(flags: AnswerFlag[]): GeminiEvaluationResponse {
+    const reason = flags.includes('empty')
+      ? 'There was no answer to grade.'
+      : 'The answer repeats the question or an earlier answer instead of answering it.';
+
+    return this.applyToEvaluation(
+      {
+        score: 1,
+        feedback: reason,
+        improvementSuggestions: [
+          'Answer the question in your own words, even if you are unsure.',
+          'Start with what you know and reason through the rest out loud.',
+          'Ask for a hint when you are stuck rather than leaving the answer blank.',
+        ],
+        rubric: RUBRIC_DIMENSIONS.map(({ key }) => ({ dimension: key, score: 1, justification: reason })),
+      },
+      flags
+    );
+  },
+
+  /**
+   * Every flag raised on a question and its follow-ups
+   */
+  getThreadFlags(question: InterviewQuestion): AnswerFlag[] {
+    return [...new Set([question, ...(question.followUps || [])].flatMap((prompt) => prompt.flags || []))];
+  },
+};
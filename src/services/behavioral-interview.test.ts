@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { behavioralInterview } from './behavioral-interview';
+import { rubricScoring } from './rubric-scoring';
+import type { GeminiEvaluationResponse, StarAnalysis } from '../types';
+
+const COMPLETE =
+  'At my last company our team owned the checkout service. I was responsible for cutting its error rate. ' +
+  'I proposed a retry queue and wrote the runbook. As a result we reduced failed payments by 30% in two weeks.';
+const UNQUANTIFIED =
+  'We were migrating to Kubernetes. I had to move our batch jobs. I wrote the manifests. In the end everything shipped faster.';
+const ACTION_ONLY = 'I decided to rewrite the parser over the weekend.';
+
+const FULL_STAR: StarAnalysis = { situation: true, task: true, action: true, result: true, quantified: true };
+
+const evaluation = (score: number, improvementSuggestions: string[] = []): GeminiEvaluationResponse =>
+  rubricScoring.apply({ score, feedback: 'Feedback', improvementSuggestions, rubric: [] }, 'behavioral');
+
+const rubricScore = (result: GeminiEvaluationResponse, dimension: string) =>
+  result.rubric.find((r) => r.dimension === dimension)?.score;
+
+describe('behavioralInterview.analyzeStar', () => {
+  it('finds every component and the numbers in a complete story', () => {
+    expect(behavioralInterview.analyzeStar(COMPLETE)).toEqual(FULL_STAR);
+  });
+
+  it('flags a complete story without numbers as unquantified', () => {
+    expect(behavioralInterview.analyzeStar(UNQUANTIFIED)).toEqual({ ...FULL_STAR, quantified: false });
+  });
+
+  it('reports the components an answer skips', () => {
+    const star = behavioralInterview.analyzeStar(ACTION_ONLY);
+
+    expect(star).toEqual({ situation: false, task: false, action: true, result: false, quantified: false });
+    expect(behavioralInterview.getMissingComponents(star)).toEqual(['situation', 'task', 'result']);
+  });
+
+  it('counts currency and units as quantified, bare numbers not', () => {
+    expect(behavioralInterview.analyzeStar('It saved $40k a year').quantified).toBe(true);
+    expect(behavioralInterview.analyzeStar('Latency dropped to 120 ms').quantified).toBe(true);
+    expect(behavioralInterview.analyzeStar('It was version 2 of the API').quantified).toBe(false);
+  });
+});
+
+describe('behavioralInterview.applyToEvaluation', () => {
+  it('leaves a complete, quantified story uncapped', () => {
+    const result = behavioralInterview.applyToEvaluation(evaluation(5), FULL_STAR);
+
+    expect(result.score).toBe(5);
+    expect(result.star).toEqual(FULL_STAR);
+    expect(result.feedback).toBe('STAR check: all four components covered with measurable results. Feedback');
+    expect(result.improvementSuggestions).toEqual([]);
+  });
+
+  it('caps structure by the number of components covered', () => {
+    const star = { ...FULL_STAR, task: false, result: false };
+    const result = behavioralInterview.applyToEvaluation(evaluation(5), star);
+
+    expect(rubricScore(result, 'structure')).toBe(3);
+    expect(result.rubric.find((r) => r.dimension === 'structure')?.justification).toMatch(
+      /^STAR check: missing Task and Result\. /
+    );
+    expect(result.feedback).toBe('STAR check: missing Task and Result. Feedback');
+    expect(result.improvementSuggestions).toEqual([
+      'Cover the Task: What specifically were you responsible for in that situation?',
+      'Cover the Result: What was the outcome, and how did you measure it?',
+    ]);
+    expect(result.score).toBe(rubricScoring.computeScore(result.rubric, 'behavioral'));
+  });
+
+  it('caps depth and asks for numbers when the impact is not quantified', () => {
+    const result = behavioralInterview.applyToEvaluation(evaluation(5), { ...FULL_STAR, quantified: false });
+
+    expect(rubricScore(result, 'depth')).toBe(3);
+    expect(rubricScore(result, 'structure')).toBe(5);
+    expect(result.feedback).toBe('STAR check: all four components covered. The impact is not quantified. Feedback');
+    expect(result.improvementSuggestions).toEqual(['Quantify the result (percentages, time saved, users affected).']);
+    expect(result.score).toBe(rubricScoring.computeScore(result.rubric, 'behavioral'));
+  });
+
+  it('does not raise dimensions already below the caps', () => {
+    const result = behavioralInterview.applyToEvaluation(evaluation(2), behavioralInterview.analyzeStar(ACTION_ONLY));
+
+    expect(rubricScore(result, 'structure')).toBe(2);
+    expect(rubricScore(result, 'depth')).toBe(2);
+    expect(result.score).toBe(2);
+  });
+
+  it('puts the STAR suggestions first and keeps at most five', () => {
+    const existing = ['One', 'Two', 'Three'];
+    const result = behavioralInterview.applyToEvaluation(
+      evaluation(4, existing),
+      behavioralInterview.analyzeStar(ACTION_ONLY)
+    );
+
+    expect(result.improvementSuggestions).toHaveLength(5);
+    expect(result.improvementSuggestions[0]).toMatch(/^Cover the Situation: /);
+    expect(result.improvementSuggestions[3]).toBe('Quantify the result (percentages, time saved, users affected).');
+    expect(result.improvementSuggestions[4]).toBe('One');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @file services/behavioral-interview.ts
+ * @description Behavioral interview track with STAR-method evaluation
+ * Questions come from a curated pool (leadership, conflict, failure). Answers
+ * are checked for Situation, Task, Action and Result plus quantified impact,
+ * which caps the structure and depth rubric dimensions.
+ */
+
+import { createLogger } from '../utils/logger';
+import { rubricScoring } from './rubric-scoring';
+import { questionSimilarity } from './question-similarity';
+import type {
+  GeminiEvaluationResponse,
+  InterviewQuestion,
+  StarAnalysis,
+  StarComponent,
+} from '../types';
+
+const logger = createLogger('behavioral-interview');
+
+const UNQUANTIFIED_MAX_DEPTH = 3; // Depth ceiling when the impact has no numbers
+const MAX_SUGGESTIONS = 5;
+
+export const BEHAVIORAL_QUESTIONS: { category: string; question: string }[] = [
+  { category: 'Leadership', question: 'Tell me about a time you led a team or project without formal authority. How did you get people aligned?' },
+  { category: 'Leadership', question: 'Describe a situation where you had to make a difficult decision for your team with incomplete information.' },
+  { category: 'Leadership', question: 'Tell me about a time you mentored someone or helped a teammate grow. What did you do and what changed?' },
+  { category: 'Conflict', question: 'Tell me about a time you strongly disagreed with a colleague on a technical approach. How did you resolve it?' },
+  { category: 'Conflict', question: 'Describe a situation where you had to push back on a stakeholder or manager. What happened?' },
+  { category: 'Conflict', question: 'Tell me about a time two people on your team were in conflict and you had to step in.' },
+  { category: 'Failure', question: 'Tell me about a project that failed or a deadline you missed. What did you learn?' },
+  { category: 'Failure', question: 'Describe a mistake you made that affected users or production. How did you handle it?' },
+  { category: 'Failure', question: 'Tell me about a time you received critical feedback. What did you do with it?' },
+];
+
+export const STAR_COMPONENTS: { key: StarComponent; label: string }[] = [
+  { key: 'situation', label: 'Situation' },
+  { key: 'task', label: 'Task' },
+  { key: 'action', label: 'Action' },
+  { key: 'result', label: 'Result' },
+];
+
+const STAR_PATTERNS: Record<StarComponent, RegExp> = {
+  situation: /\b(when i was|at my (?:last|previous|current)|we were|our team|the company|the project|back in|context|situation|while working)\b/i,
+  task: /\b(i was (?:responsible|tasked|asked|in charge)|my (?:role|job|goal|task|responsibility)|i needed to|i had to|the goal was|we needed to)\b/i,
+  action: /\b(i (?:decided|started|built|created|organized|led|proposed|scheduled|wrote|talked|met|set up|reached out|worked|implemented|introduced|changed|suggested|asked|took|focused|refactored|documented))\b/i,
+  result: /\b(as a result|in the end|ultimately|the outcome|resulted in|led to|we (?:shipped|delivered|launched|reduced|increased|improved|saved)|which (?:reduced|increased|improved|saved)|i learned|lesson)\b/i,
+};
+
+const QUANTIFIED_PATTERN =
+  /(\d+(?:\.\d+)?\s*(?:%|percent|x\b|times|hours?|days?|weeks?|months?|minutes?|ms|seconds?|users?|customers?|people|engineers?|tickets?|bugs?|incidents?|k\b|m\b)|[$€£]\s?\d)/i;
+
+const STAR_FOLLOW_UPS: Record<StarComponent, string> = {
+  situation: 'Can you set the scene first? Where were you working, and what was going on at the time?',
+  task: 'What specifically were you responsible for in that situation?',
+  action: 'Walk me through the specific steps you personally took.',
+  result: 'What was the outcome, and how did you measure it?',
+};
+
+const QUANTIFY_FOLLOW_UP =
+  'Can you put a number on the impact: time saved, revenue, users affected or error rate?';
+
+const formatList = (items: string[]): string =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+export const behavioralInterview = {
+  /**
+   * Next curated question: the least-covered category first, skipping
+   * questions already asked in the session and, while any are left, those
+   * asked in past sessions (`avoid`). Company tracks pass their own
+   * leadership-principle prompts as `questions`.
+   */
+  pickQuestion(
+    asked: InterviewQuestion[],
+    avoid: string[] = [],
+    questions: { category: string; question: string }[] = BEHAVIORAL_QUESTIONS
+  ): { category: string; question: string } {
+    const askedTexts = new Set(asked.map((q) => q.qText));
+    const counts = new Map<string, number>();
+    for (const q of asked) counts.set(q.category, (counts.get(q.category) || 0) + 1);
+
+    const remaining = questions.filter((q) => !askedTexts.has(q.question));
+    const unseen = remaining.filter((q) => !questionSimilarity.isNearDuplicate(q.question, avoid));
+    const pool = unseen.length > 0 ? unseen : remaining.length > 0 ? remaining : questions;
+
+    return [...pool].sort((a, b) => (counts.get(a.category) || 0) - (counts.get(b.category) || 0))[0];
+  },
+
+  /**
+   * Heuristic STAR check over the candidate's answer(s) to one question thread
+   */
+  analyzeStar(answer: string): StarAnalysis {
+    return {
+      situation: STAR_PATTERNS.situation.test(answer),
+      task: STAR_PATTERNS.task.test(answer),
+      action: STAR_PATTERNS.action.test(answer),
+      result: STAR_PATTERNS.result.test(answer),
+      quantified: QUANTIFIED_PATTERN.test(answer),
+    };
+  },
+
+  /**
+   * STAR result for a whole thread: the latest follow-up's check covers
+   * every answer given so far
+   */
+  getThreadStar(question: InterviewQuestion): StarAnalysis | undefined {
+    return [question, ...(question.followUps || [])].reverse().find((q) => q.star)?.star;
+  },
+
+  getMissingComponents(star: StarAnalysis): StarComponent[] {
+    return STAR_COMPONENTS.filter(({ key }) => !star[key]).map(({ key }) => key);
+  },
+
+  /**
+   * Follow-up targeting the first missing STAR component, or the missing
+   * numbers when the story is complete. Undefined when nothing is missing.
+   */
+  getStarFollowUp(star: StarAnalysis): string | undefined {
+    const [missing] = this.getMissingComponents(star);
+    if (missing) return STAR_FOLLOW_UPS[missing];
+    return star.quantified ? undefined : QUANTIFY_FOLLOW_UP;
+  },
+
+  /**
+   * Fold the STAR check into the evaluation: structure is capped by the
+   * number of components covered, depth is capped when the impact is not
+   * quantified, then the score is re-weighted for behavioral questions
+   */
+  applyToEvaluation(evaluation: GeminiEvaluationResponse, star: StarAnalysis): GeminiEvaluationResponse {
+    const missing = this.getMissingComponents(star);
+    const present = STAR_COMPONENTS.length - missing.length;
+    const missingLabels = STAR_COMPONENTS.filter(({ key }) => missing.includes(key)).map(({ label }) => label);
+
+    const summary =
+      missing.length === 0
+        ? `STAR check: all four components covered${star.quantified ? ' with measurable results' : ''}.`
+        : `STAR check: missing ${formatList(missingLabels)}.`;
+    const quantification = star.quantified ? '' : ' The impact is not quantified.';
+
+    const rubric = rubricScoring.complete(evaluation.rubric, evaluation.score).map((entry) => {
+      if (entry.dimension === 'structure') {
+        return {
+          ...entry,
+          score: Math.min(entry.score, 1 + present),
+          justification: `${summary} ${entry.justification}`,
+        };
+      }
+      if (entry.dimension === 'depth' && !star.quantified) {
+        return { ...entry, score: Math.min(entry.score, UNQUANTIFIED_MAX_DEPTH) };
+      }
+      return entry;
+    });
+
+    const starSuggestions = [
+      ...missingLabels.map((label) => `Cover the ${label}: ${STAR_FOLLOW_UPS[label.toLowerCase() as StarComponent]}`),
+      ...(star.quantified ? [] : ['Quantify the result (percentages, time saved, users affected).']),
+    ];
+
+    logger.debug({ missing, quantified: star.quantified }, 'STAR analysis applied');
+
+    return {
+      ...evaluation,
+      rubric,
+      star,
+      score: rubricScoring.computeScore(rubric, 'behavioral'),
+      feedback: `${summary}${quantification} ${evaluation.feedback}`,
+      improvementSuggestions: [...starSuggestions, ...evaluation.improvementSuggestions].slice(0, MAX_SUGGESTIONS),
+    };
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * @file services/code-execution.ts
+ * @description Coding-question editor support and test scoring
+ * Solutions run in the backend sandbox against tests that never leave the
+ * server: the evaluation routes run the answer and return the results with
+ * the grade. This client folds those results into the evaluation rubric so
+ * the score reflects working code, not just the explanation.
+ */
+
+import { rubricScoring } from './rubric-scoring';
+import type {
+  CodeExecutionResult,
+  CodeLanguage,
+  GeminiEvaluationResponse,
+} from '../types';
+
+const TEST_SCORE_WEIGHT = 0.7; // Share of the problem-solving score driven by hidden tests
+
+export const CODE_LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' },
+];
+
+class CodeExecutionService {
+  /**
+   * Skeleton shown in the editor for a new coding question
+   */
+  getStarterCode(language: CodeLanguage, functionName: string): string {
+    if (language === 'python') return `def ${functionName}(*args):\n    pass\n`;
+    return language === 'typescript'
+      ? `function ${functionName}(...args: unknown[]): unknown {\n  \n}\n`
+      : `function ${functionName}(...args) {\n  \n}\n`;
+  }
+
+  /**
+   * Fold the test results into the rubric: technical accuracy becomes the
+   * pass rate and problem solving is mostly driven by it, then the overall
+   * score is re-weighted. A solution that fails to compile counts as 0 passed.
+   */
+  applyToEvaluation(
+    evaluation: GeminiEvaluationResponse,
+    result: CodeExecutionResult
+  ): GeminiEvaluationResponse {
+    const passRate = result.total > 0 ? result.passed / result.total : 0;
+    const testScore = Math.round(1 + 4 * passRate);
+    const summary = `Hidden tests: ${result.passed}/${result.total} passed in ${result.runtimeMs}ms${
+      result.error ? ` (${result.error})` : ''
+    }.`;
+
+    const rubric = rubricScoring.complete(evaluation.rubric, evaluation.score).map((entry) => {
+      if (entry.dimension === 'technicalAccuracy') {
+        return { ...entry, score: testScore, justification: summary };
+      }
+      if (entry.dimension === 'problemSolving') {
+        return {
+          ...entry,
+          score: Math.round(TEST_SCORE_WEIGHT * testScore + (1 - TEST_SCORE_WEIGHT) * entry.score),
+        };
+      }
+      return entry;
+    });
+
+    return {
+      ...evaluation,
+      rubric,
+      score: rubricScoring.computeScore(rubric, 'coding'),
+      feedback: `${summary} ${evaluation.feedback}`,
+    };
+  }
+}
+
+export const codeExecutionService = new CodeExecutionService();
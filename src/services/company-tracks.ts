@@ -0,0 +1,137 @@
+/**
+ * @file services/company-tracks.ts
+ * @description Company-specific interview tracks stored in Firestore
+ * A track defines a company's interview structure, leadership-principle
+ * style behavioral prompts, typical topics and grading emphasis. Admins
+ * manage tracks with scripts/company-tracks.mjs; sessions keep a snapshot of
+ * the track they followed.
+ */
+
+import { Firestore, collection, getDocs } from 'firebase/firestore';
+import { createLogger } from '../utils/logger';
+import type { CompanyTrack, InterviewTemplate } from '../types';
+
+const logger = createLogger('company-tracks');
+
+export const COMPANY_TRACKS_COLLECTION = 'company_tracks';
+
+const normalizeCompany = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+class CompanyTrackService {
+  private db: Firestore;
+  private tracks: CompanyTrack[] | null = null;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Active tracks sorted by company; read once per page load
+   */
+  async getTracks(): Promise<CompanyTrack[]> {
+    if (this.tracks) return this.tracks;
+
+    try {
+      const snapshot = await getDocs(collection(this.db, COMPANY_TRACKS_COLLECTION));
+      this.tracks = snapshot.docs
+        .filter((docSnap) => docSnap.data().active !== false)
+        .map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            company: data.company,
+            aliases: data.aliases || [],
+            description: data.description || '',
+            durationMinutes: data.durationMinutes,
+            includeIntro: data.includeIntro ?? true,
+            introTimeLimitSeconds: data.introTimeLimitSeconds || 0,
+            questions: data.questions || [],
+            behavioralPrompts: data.behavioralPrompts || [],
+            topics: data.topics || [],
+            gradingEmphasis: data.gradingEmphasis || {},
+          } as CompanyTrack;
+        })
+        .sort((a, b) => a.company.localeCompare(b.company));
+
+      logger.debug({ count: this.tracks.length }, 'Company tracks loaded');
+      return this.tracks;
+    } catch (error) {
+      logger.error({ error }, 'Failed to read company tracks');
+      throw error;
+    }
+  }
+
+  async getTrack(id: string): Promise<CompanyTrack | null> {
+    const tracks = await this.getTracks();
+    return tracks.find((track) => track.id === id) ?? null;
+  }
+}
+
+export const companyTracks = {
+  /**
+   * The track's structure as an interview template
+   */
+  toTemplate(track: CompanyTrack): InterviewTemplate {
+    return {
+      id: `company-${track.id}`,
+      name: `${track.company}-style loop`,
+      description: track.description,
+      durationMinutes: track.durationMinutes,
+      includeIntro: track.includeIntro,
+      introTimeLimitSeconds: track.introTimeLimitSeconds,
+      questions: track.questions,
+    };
+  },
+
+  /**
+   * Style summary for question generation prompts
+   */
+  toPromptContext(track: CompanyTrack): string {
+    return [
+      `Company: ${track.company}`,
+      track.description,
+      track.topics.length > 0 ? `Typical topics: ${track.topics.join(', ')}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  },
+
+  /**
+   * Whether an interviewer's company is the track's company or one of its
+   * aliases ("Amazon Web Services" matches "AWS" only when listed)
+   */
+  matchesCompany(track: CompanyTrack, companyName?: string): boolean {
+    if (!companyName) return false;
+
+    const name = normalizeCompany(companyName);
+    return [track.company, ...track.aliases].some((alias) => {
+      const candidate = normalizeCompany(alias);
+      return Boolean(candidate) && (name === candidate || name.startsWith(`${candidate} `));
+    });
+  },
+};
+
+let companyTrackServiceInstance: CompanyTrackService | null = null;
+
+export function initializeCompanyTrackService(db: Firestore): CompanyTrackService {
+  if (!companyTrackServiceInstance) {
+    companyTrackServiceInstance = new CompanyTrackService(db);
+    logger.info('CompanyTrackService initialized');
+  }
+  return companyTrackServiceInstance;
+}
+
+export function getCompanyTrackService(): CompanyTrackService {
+  if (!companyTrackServiceInstance) {
+    throw new Error('CompanyTrackService not initialized. Call initializeCompanyTrackService first.');
+  }
+  return companyTrackServiceInstance;
+}
+
+/**
+ * Whether tracks can be read (not initialized in offline/test runs)
+ */
+export function isCompanyTrackServiceAvailable(): boolean {
+  return companyTrackServiceInstance !== null;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { evaluationConsistency } from './evaluation-consistency';
+import { rubricScoring } from './rubric-scoring';
+import type { GeminiEvaluationResponse, RubricDimension } from '../types';
+
+const sample = (
+  scores: Record<RubricDimension, number>,
+  feedback = 'Feedback'
+): GeminiEvaluationResponse =>
+  rubricScoring.apply(
+    {
+      score: 3,
+      feedback,
+      improvementSuggestions: [],
+      rubric: Object.entries(scores).map(([dimension, score]) => ({
+        dimension: dimension as RubricDimension,
+        score,
+        justification: `${dimension} ${score}`,
+      })),
+    },
+    'conceptual'
+  );
+
+const uniform = (score: number, feedback?: string) =>
+  sample({ technicalAccuracy: score, depth: score, communication: score, structure: score, problemSolving: score }, feedback);
+
+describe('evaluationConsistency.getConfidence', () => {
+  it('is 1 when the samples agree', () => {
+    expect(evaluationConsistency.getConfidence([4, 4, 4])).toEqual({
+      samples: 3,
+      scores: [4, 4, 4],
+      stdDev: 0,
+      confidence: 1,
+      isLow: false,
+    });
+  });
+
+  it('is 0 at the widest spread and flags low confidence', () => {
+    const result = evaluationConsistency.getConfidence([1, 5]);
+
+    expect(result.stdDev).toBe(2);
+    expect(result.confidence).toBe(0);
+    expect(result.isLow).toBe(true);
+  });
+});
+
+describe('evaluationConsistency.aggregate', () => {
+  it('returns a single sample as is', () => {
+    const only = uniform(4);
+
+    expect(evaluationConsistency.aggregate([only], 'conceptual')).toBe(only);
+  });
+
+  it('averages each dimension and recomputes the weighted score', () => {
+    const result = evaluationConsistency.aggregate(
+      [
+        sample({ technicalAccuracy: 5, depth: 4, communication: 3, structure: 3, problemSolving: 2 }),
+        sample({ technicalAccuracy: 3, depth: 4, communication: 3, structure: 5, problemSolving: 2 }),
+      ],
+      'conceptual'
+    );
+
+    expect(result.rubric.map((r) => r.score)).toEqual([4, 4, 3, 4, 2]);
+    expect(result.score).toBe(rubricScoring.computeScore(result.rubric, 'conceptual'));
+    expect(result.confidence).toMatchObject({ samples: 2 });
+  });
+
+  it('takes the text from the sample closest to the combined score, the first on ties', () => {
+    const result = evaluationConsistency.aggregate(
+      [uniform(2, 'low'), uniform(4, 'high'), uniform(3, 'middle')],
+      'conceptual'
+    );
+    const tied = evaluationConsistency.aggregate([uniform(2, 'first'), uniform(4, 'second')], 'conceptual');
+
+    expect(result).toMatchObject({ score: 3, feedback: 'middle' });
+    expect(tied.feedback).toBe('first');
+  });
+});
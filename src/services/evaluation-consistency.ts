@@ -0,0 +1,69 @@
+/**
+ * @file services/evaluation-consistency.ts
+ * @description Multi-sample scoring: the same answer is graded several times
+ * and the samples are aggregated into one evaluation with a confidence value,
+ * so a lucky or unlucky single grade does not decide the score
+ */
+
+import { EVALUATION_MIN_CONFIDENCE, RUBRIC_DIMENSIONS } from '../utils/constants';
+import { rubricScoring } from './rubric-scoring';
+import type { EvaluationConfidence, GeminiEvaluationResponse, QuestionType } from '../types';
+
+const MAX_STD_DEV = 2; // Largest possible spread on the 1-5 scale
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const evaluationConsistency = {
+  /**
+   * Agreement between sample scores: 1 when identical, 0 at the widest
+   * possible spread
+   */
+  getConfidence(scores: number[]): EvaluationConfidence {
+    const average = mean(scores);
+    const stdDev = Math.sqrt(mean(scores.map((score) => (score - average) ** 2)));
+    const confidence = parseFloat(Math.max(0, 1 - stdDev / MAX_STD_DEV).toFixed(2));
+
+    return {
+      samples: scores.length,
+      scores,
+      stdDev: parseFloat(stdDev.toFixed(2)),
+      confidence,
+      isLow: confidence < EVALUATION_MIN_CONFIDENCE,
+    };
+  },
+
+  /**
+   * Combine rubric-weighted samples: each dimension is the mean of the
+   * samples, and the feedback, justifications and suggestions come from the
+   * sample closest to the combined score (the first one on ties, which is
+   * the one streamed to the candidate). A single sample is returned as is.
+   */
+  aggregate(samples: GeminiEvaluationResponse[], type: QuestionType): GeminiEvaluationResponse {
+    if (samples.length <= 1) return samples[0];
+
+    const dimensionScores = new Map(
+      RUBRIC_DIMENSIONS.map(({ key }) => [
+        key,
+        Math.round(mean(samples.map((s) => s.rubric.find((r) => r.dimension === key)?.score ?? s.score))),
+      ])
+    );
+    const score = rubricScoring.computeScore(
+      RUBRIC_DIMENSIONS.map(({ key }) => ({ dimension: key, score: dimensionScores.get(key)!, justification: '' })),
+      type
+    );
+
+    const representative = samples.reduce((best, sample) =>
+      Math.abs(sample.score - score) < Math.abs(best.score - score) ? sample : best
+    );
+
+    return {
+      ...representative,
+      score,
+      rubric: representative.rubric.map((entry) => ({
+        ...entry,
+        score: dimensionScores.get(entry.dimension) ?? entry.score,
+      })),
+      confidence: this.getConfidence(samples.map((s) => s.score)),
+    };
+  },
+};
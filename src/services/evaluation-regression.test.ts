@@ -0,0 +1,51 @@
+/**
+ * Offline evaluation regression check: the grader samples recorded for each
+ * fixture (`npm run eval:regression` in backend/) are replayed through the
+ * same rubric scoring and aggregation as a live interview, and the
+ * resulting score must stay within the fixture's tolerance
+ */
+
+import { describe, expect, it } from 'vitest';
+import fixtures from '../../backend/fixtures/evaluation-regression.json';
+import { evaluationConsistency } from './evaluation-consistency';
+import { rubricScoring } from './rubric-scoring';
+import { QUESTION_TYPES } from '../utils/constants';
+import type { GeminiEvaluationResponse, QuestionType } from '../types';
+
+interface RegressionFixture {
+  id: string;
+  questionType: QuestionType;
+  expectedScore: number;
+  tolerance: number;
+  // The grader may omit the rubric; its overall score then stands for every dimension
+  recordedSamples?: (Pick<GeminiEvaluationResponse, 'score' | 'flags'> & Partial<Pick<GeminiEvaluationResponse, 'rubric'>>)[];
+}
+
+const regressionFixtures = fixtures as RegressionFixture[];
+
+const replay = ({ questionType, recordedSamples = [] }: RegressionFixture): number =>
+  evaluationConsistency.aggregate(
+    recordedSamples.map((s) =>
+      rubricScoring.apply({ ...s, rubric: s.rubric ?? [], feedback: '', improvementSuggestions: [] }, questionType)
+    ),
+    questionType
+  ).score;
+
+describe('evaluation regression fixtures', () => {
+  it('are well formed', () => {
+    const types = QUESTION_TYPES.map((t) => t.value);
+
+    expect(new Set(regressionFixtures.map((f) => f.id)).size).toBe(regressionFixtures.length);
+    for (const fixture of regressionFixtures) {
+      expect(types).toContain(fixture.questionType);
+      expect(fixture.expectedScore).toBeGreaterThanOrEqual(1);
+      expect(fixture.expectedScore).toBeLessThanOrEqual(5);
+      expect(fixture.tolerance).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it.each(regressionFixtures)('$id scores within tolerance', (fixture) => {
+    expect(fixture.recordedSamples ?? [], 'record its samples with npm run eval:regression in backend/').not.toHaveLength(0);
+    expect(Math.abs(replay(fixture) - fixture.expectedScore)).toBeLessThanOrEqual(fixture.tolerance);
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * @file services/file-storage.ts
  * @description Service for managing file uploads to Firebase Storage (resumes, portfolios, documents)
+ * and interview recordings
  */
 
 import {
@@ -80,6 +81,17 @@ export interface ValidationSuccess {
 
 export type ValidationResult = ValidationSuccess | ValidationError;
 
+/**
+ * An upload in flight that can be paused, resumed or cancelled; `result`
+ * settles when it completes, fails or is cancelled
+ */
+export interface ResumableUpload {
+  pause: () => boolean;
+  resume: () => boolean;
+  cancel: () => boolean;
+  result: Promise<UploadResult>;
+}
+
 /**
  * FileStorageService - Manages file uploads and downloads with Firebase Storage
  */
@@ -191,6 +203,67 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Upload a recorded blob to an explicit storage path (practice session
+   * recordings live under the session, not a file-type folder)
+   */
+  uploadRecording(
+    blob: Blob,
+    storagePath: string,
+    userId: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): ResumableUpload {
+    const storageRef = ref(this.storage, storagePath);
+    const contentType = blob.type.split(';')[0];
+    const fileName = storagePath.split('/').pop() || storagePath;
+
+    const uploadTask = uploadBytesResumable(storageRef, blob, {
+      contentType,
+      customMetadata: {
+        uploadedBy: userId,
+        originalName: fileName,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    if (onProgress) {
+      uploadTask.on('state_changed', (snapshot) => {
+        onProgress({
+          bytesTransferred: snapshot.bytesTransferred,
+          totalBytes: snapshot.totalBytes,
+          progress: (snapshot.bytesTransferred / snapshot.totalBytes) * 100,
+        });
+      });
+    }
+
+    const result = (async (): Promise<UploadResult> => {
+      try {
+        await uploadTask;
+        const downloadURL = await getDownloadURL(storageRef);
+        logger.info({ storagePath, size: blob.size }, 'Recording uploaded successfully');
+
+        return {
+          downloadURL,
+          fileName,
+          fileSize: blob.size,
+          contentType,
+          uploadedAt: new Date(),
+          storagePath,
+        };
+      } catch (error) {
+        logger.error({ error, storagePath, userId }, 'Recording upload failed');
+        throw error;
+      }
+    })();
+
+    return {
+      pause: () => uploadTask.pause(),
+      resume: () => uploadTask.resume(),
+      cancel: () => uploadTask.cancel(),
+      result,
+    };
+  }
+
   /**
    * Delete a file from Firebase Storage
    */
@@ -12,16 +12,29 @@ import {
   query,
   limit,
   orderBy,
+  where,
+  getDocs,
+  updateDoc,
+  deleteField,
   Timestamp,
   onSnapshot,
+  type QueryDocumentSnapshot,
   type Unsubscribe,
 } from 'firebase/firestore';
 import type { Firestore } from 'firebase/firestore';
 import { createLogger } from '../utils/logger';
 import { AppError } from '../utils/error-handler';
-import { ERROR_CODES } from '../utils/constants';
+import { DEFAULT_INTERVIEW_LANGUAGE, ERROR_CODES, INTERVIEW_HISTORY_LIMIT } from '../utils/constants';
 import { FIRESTORE_PATHS } from '../utils/constants';
-import type { UserProfile, InterviewSession } from '../types';
+import type {
+  UserProfile,
+  InterviewSession,
+  InterviewQuestion,
+  InterviewLanguage,
+  MediaRecording,
+  PromptRef,
+  SavedRecording,
+} from '../types';
 
 const logger = createLogger('firestore');
 
@@ -47,6 +60,10 @@ export class FirestoreService {
     return `${FIRESTORE_PATHS.ARTIFACTS}/${this.appId}/${FIRESTORE_PATHS.USERS}/${userId}/${FIRESTORE_PATHS.INTERVIEWS}`;
   }
 
+  private getRecordingsPath(userId: string, sessionId: string): string {
+    return `${this.getInterviewsPath(userId)}/${sessionId}/${FIRESTORE_PATHS.RECORDINGS}`;
+  }
+
   async getUserProfile(userId: string): Promise<UserProfile | null> {
     try {
       const profileRef = doc(
@@ -168,6 +185,19 @@ export class FirestoreService {
       if (profile.resumeUrl) {
         data.resumeUrl = profile.resumeUrl;
       }
+      if (profile.interviewTemplateId) {
+        data.interviewTemplateId = profile.interviewTemplateId;
+      }
+      if (profile.targetJob) {
+        data.targetJob = profile.targetJob;
+      } else if (profile.targetJob === null) {
+        data.targetJob = deleteField(); // Merge would otherwise keep the old posting
+      }
+      if (profile.companyTrackId) {
+        data.companyTrackId = profile.companyTrackId;
+      } else if (profile.companyTrackId === null) {
+        data.companyTrackId = deleteField();
+      }
       if (profile.interviewerProfile) {
         data.interviewerProfile = profile.interviewerProfile;
       }
@@ -203,6 +233,10 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Create or overwrite an interview session. Sessions without an id are
+   * created; in-progress sessions are checkpointed here after every answer.
+   */
   async saveInterviewSession(userId: string, session: InterviewSession): Promise<string> {
     try {
       const sessionsRef = collection(this.db, this.getInterviewsPath(userId));
@@ -214,12 +248,31 @@ export class FirestoreService {
         score: session.score,
         duration: session.duration,
         questions: session.questions,
+        difficultyPath: session.difficultyPath || [],
+        track: session.track || 'technical',
+        ...(session.templateId ? { templateId: session.templateId } : {}),
+        ...(session.retryQueue?.length ? { retryQueue: session.retryQueue } : {}),
+        ...(session.targetJob ? { targetJob: session.targetJob } : {}),
+        ...(session.companyTrack ? { companyTrack: session.companyTrack } : {}),
+        ...(session.questionSet ? { questionSet: session.questionSet } : {}),
+        ...(session.questionSetRunId ? { questionSetRunId: session.questionSetRunId } : {}),
+        ...(session.language ? { language: session.language } : {}),
+        ...(session.persona ? { persona: session.persona } : {}),
+        ...(session.recordingSettings ? { recordingSettings: session.recordingSettings } : {}),
         status: session.status,
-        metrics: session.metrics,
+        updatedAt: Timestamp.now(),
+        ...(session.resumeExperience ? { resumeExperience: session.resumeExperience } : {}),
+        ...(session.metrics ? { metrics: session.metrics } : {}),
       };
 
+      if (session.id) {
+        await setDoc(doc(sessionsRef, session.id), sessionData);
+        logger.info({ userId, sessionId: session.id, status: session.status }, 'Interview session updated');
+        return session.id;
+      }
+
       const docRef = await addDoc(sessionsRef, sessionData);
-      logger.info({ userId, sessionId: docRef.id }, 'Interview session saved');
+      logger.info({ userId, sessionId: docRef.id, status: session.status }, 'Interview session saved');
       return docRef.id;
     } catch (error) {
       logger.error({ error, userId }, 'Failed to save interview session');
@@ -232,6 +285,180 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Main questions (with answers and scores) from the candidate's most
+   * recent sessions held in `language`, newest first. Intros are skipped.
+   */
+  async getPastInterviewQuestions(
+    userId: string,
+    maxSessions: number,
+    language: InterviewLanguage = DEFAULT_INTERVIEW_LANGUAGE
+  ): Promise<InterviewQuestion[]> {
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(this.db, this.getInterviewsPath(userId)),
+          orderBy('date', 'desc'),
+          limit(maxSessions)
+        )
+      );
+
+      return snapshot.docs
+        .filter((d) => (d.data().language || DEFAULT_INTERVIEW_LANGUAGE) === language)
+        .flatMap((d) =>
+          ((d.data().questions || []) as InterviewQuestion[]).filter((q) => q.category !== 'Introduction')
+        );
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to load past interview questions');
+      throw new AppError(
+        ERROR_CODES.DB_ERROR,
+        'Failed to load past interview questions',
+        undefined,
+        error
+      );
+    }
+  }
+
+  async updateInterviewStatus(
+    userId: string,
+    sessionId: string,
+    status: InterviewSession['status']
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(this.db, this.getInterviewsPath(userId), sessionId), {
+        status,
+        updatedAt: Timestamp.now(),
+      });
+      logger.info({ userId, sessionId, status }, 'Interview status updated');
+    } catch (error) {
+      logger.error({ error, userId, sessionId }, 'Failed to update interview status');
+      throw new AppError(
+        ERROR_CODES.DB_ERROR,
+        'Failed to update interview status',
+        undefined,
+        error
+      );
+    }
+  }
+
+  /**
+   * Store an uploaded recording of a session: the whole-session recording,
+   * or one prompt's clip. Uploads finish in the background, often after the
+   * session was saved for the last time, so recordings live in their own
+   * documents, which session saves never overwrite.
+   */
+  async saveSessionRecording(
+    userId: string,
+    sessionId: string,
+    recording: MediaRecording,
+    prompt?: PromptRef
+  ): Promise<void> {
+    try {
+      const recordingId = prompt ? `q${prompt.questionIndex}-${prompt.followUpIndex}` : 'session';
+      const savedRecording: SavedRecording = { ...recording, ...(prompt ? { prompt } : {}) };
+
+      await setDoc(doc(this.db, this.getRecordingsPath(userId, sessionId), recordingId), savedRecording);
+      logger.info({ userId, sessionId, prompt }, 'Session recording saved');
+    } catch (error) {
+      logger.error({ error, userId, sessionId }, 'Failed to save session recording');
+      throw new AppError(
+        ERROR_CODES.DB_ERROR,
+        'Failed to save session recording',
+        undefined,
+        error
+      );
+    }
+  }
+
+  async getSessionRecordings(userId: string, sessionId: string): Promise<SavedRecording[]> {
+    try {
+      const snapshot = await getDocs(collection(this.db, this.getRecordingsPath(userId, sessionId)));
+      return snapshot.docs.map((d) => d.data() as SavedRecording);
+    } catch (error) {
+      logger.error({ error, userId, sessionId }, 'Failed to load session recordings');
+      throw new AppError(
+        ERROR_CODES.DB_ERROR,
+        'Failed to load session recordings',
+        undefined,
+        error
+      );
+    }
+  }
+
+  /**
+   * Mark in-progress sessions untouched for longer than `maxIdleMs` as
+   * abandoned. Returns the number of sessions updated.
+   */
+  async abandonStaleInterviewSessions(userId: string, maxIdleMs: number): Promise<number> {
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(this.db, this.getInterviewsPath(userId)),
+          where('status', '==', 'in-progress')
+        )
+      );
+      const cutoff = Date.now() - maxIdleMs;
+      const stale = snapshot.docs.filter((d) => {
+        const lastActivity: Date | undefined = (d.data().updatedAt ?? d.data().date)?.toDate();
+        return !lastActivity || lastActivity.getTime() < cutoff;
+      });
+
+      await Promise.all(
+        stale.map((d) => updateDoc(d.ref, { status: 'abandoned', updatedAt: Timestamp.now() }))
+      );
+
+      if (stale.length > 0) {
+        logger.info({ userId, count: stale.length }, 'Stale interview sessions abandoned');
+      }
+      return stale.length;
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to abandon stale interview sessions');
+      throw new AppError(
+        ERROR_CODES.DB_ERROR,
+        'Failed to abandon stale interview sessions',
+        undefined,
+        error
+      );
+    }
+  }
+
+  private toInterviewSession(userId: string, doc: QueryDocumentSnapshot): InterviewSession {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      userId,
+      role: data.role,
+      skills: data.skills,
+      date: data.date?.toDate() || new Date(),
+      score: data.score,
+      duration: data.duration,
+      questions: data.questions || [],
+      difficultyPath: data.difficultyPath || [],
+      track: data.track || 'technical',
+      ...(data.templateId ? { templateId: data.templateId } : {}),
+      ...(data.retryQueue ? { retryQueue: data.retryQueue } : {}),
+      ...(data.targetJob ? { targetJob: data.targetJob } : {}),
+      ...(data.companyTrack ? { companyTrack: data.companyTrack } : {}),
+      ...(data.questionSet ? { questionSet: data.questionSet } : {}),
+      ...(data.questionSetRunId ? { questionSetRunId: data.questionSetRunId } : {}),
+      ...(data.language ? { language: data.language } : {}),
+      ...(data.persona ? { persona: data.persona } : {}),
+      ...(data.recordingSettings ? { recordingSettings: data.recordingSettings } : {}),
+      ...(data.resumeExperience ? { resumeExperience: data.resumeExperience } : {}),
+      status: data.status || 'completed',
+      updatedAt: data.updatedAt?.toDate(),
+      metrics: data.metrics,
+    } as InterviewSession;
+  }
+
+  /**
+   * Streams the latest completed sessions, newest first, preceded by the
+   * latest in-progress one (the lobby offers it for resume). Each kind has
+   * its own query so checkpoints and abandoned sessions can't crowd either
+   * out. Sessions saved before statuses existed have none and are listed as
+   * completed; Firestore can't match a missing field, so they come from the
+   * newest sessions overall.
+   */
   subscribeToInterviewHistory(
     userId: string,
     onData: (sessions: InterviewSession[]) => void,
@@ -239,47 +466,49 @@ export class FirestoreService {
   ): Unsubscribe {
     try {
       const sessionsRef = collection(this.db, this.getInterviewsPath(userId));
-      const q = query(
-        sessionsRef,
-        orderBy('date', 'desc'),
-        limit(10)
-      );
+      const newest = [orderBy('date', 'desc'), limit(INTERVIEW_HISTORY_LIMIT)] as const;
+      const queries = [
+        query(sessionsRef, where('status', '==', 'completed'), ...newest),
+        query(sessionsRef, ...newest),
+        query(sessionsRef, where('status', '==', 'in-progress'), orderBy('date', 'desc'), limit(1)),
+      ];
+      const results: (QueryDocumentSnapshot[] | undefined)[] = queries.map(() => undefined);
+
+      const emit = () => {
+        const [completed, latest, inProgress] = results;
+        if (!completed || !latest || !inProgress) return;
+
+        const legacy = latest.filter((doc) => !doc.data().status);
+        const history = [...completed, ...legacy]
+          .map((doc) => this.toInterviewSession(userId, doc))
+          .sort((a, b) => b.date.getTime() - a.date.getTime())
+          .slice(0, INTERVIEW_HISTORY_LIMIT);
+        onData([...inProgress.map((doc) => this.toInterviewSession(userId, doc)), ...history]);
+      };
 
-      return onSnapshot(
-        q,
-        (snapshot) => {
-          const sessions: InterviewSession[] = snapshot.docs.map((doc) => {
-            const data = doc.data();
-            return {
-              id: doc.id,
-              userId,
-              role: data.role,
-              skills: data.skills,
-              date: data.date?.toDate() || new Date(),
-              score: data.score,
-              duration: data.duration,
-              questions: data.questions || [],
-              status: data.status || 'completed',
-              metrics: data.metrics,
-            } as InterviewSession;
-          });
-
-          onData(sessions);
-        },
-        (error) => {
-          logger.error({ error, userId }, 'Failed to listen to interview history');
-          if (onError) {
-            onError(
-              new AppError(
-                ERROR_CODES.DB_ERROR,
-                'Failed to load interview history',
-                undefined,
-                error
-              )
-            );
+      const unsubscribes = queries.map((q, i) =>
+        onSnapshot(
+          q,
+          (snapshot) => {
+            results[i] = snapshot.docs;
+            emit();
+          },
+          (error) => {
+            logger.error({ error, userId }, 'Failed to listen to interview history');
+            if (onError) {
+              onError(
+                new AppError(
+                  ERROR_CODES.DB_ERROR,
+                  'Failed to load interview history',
+                  undefined,
+                  error
+                )
+              );
+            }
           }
-        }
+        )
       );
+      return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
     } catch (error) {
       logger.error({ error, userId }, 'Failed to subscribe to interview history');
       if (onError) {
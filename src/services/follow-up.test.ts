@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { followUpEngine } from './follow-up';
+import type { InterviewQuestion, InterviewSession } from '../types';
+
+const question = (qText: string, updates: Partial<InterviewQuestion> = {}): InterviewQuestion =>
+  ({ qText, category: 'React', ...updates }) as InterviewQuestion;
+
+const session = (questions: InterviewQuestion[], updates: Partial<InterviewSession> = {}): InterviewSession =>
+  ({ questions, ...updates }) as InterviewSession;
+
+describe('followUpEngine.getActivePrompt', () => {
+  it('is the latest follow-up of the latest question, or the question itself', () => {
+    const probed = question('Q2', { followUps: [question('F1'), question('F2')] });
+
+    expect(followUpEngine.getActivePrompt(session([question('Q1'), probed]))?.qText).toBe('F2');
+    expect(followUpEngine.getActivePrompt(session([question('Q1')]))?.qText).toBe('Q1');
+    expect(followUpEngine.getActivePrompt(session([]))).toBeUndefined();
+    expect(followUpEngine.getActivePromptRef(session([question('Q1'), probed]))).toEqual({
+      questionIndex: 1,
+      followUpIndex: 2,
+    });
+  });
+});
+
+describe('followUpEngine.shouldAskFollowUp', () => {
+  it('probes vague answers until the persona stops', () => {
+    const vague = question('Q1', { score: 2 });
+
+    expect(followUpEngine.shouldAskFollowUp(session([vague]))).toBe(true);
+    expect(followUpEngine.shouldAskFollowUp(session([question('Q1', { score: 4 })]))).toBe(false);
+    expect(followUpEngine.shouldAskFollowUp(session([vague], { persona: 'rapid-fire' }))).toBe(false);
+    expect(
+      followUpEngine.shouldAskFollowUp(
+        session([question('Q1', { score: 2, followUps: [question('F1', { score: 2 }), question('F2', { score: 1 })] })])
+      )
+    ).toBe(false);
+  });
+
+  it('never probes the intro, coding questions or unscored answers', () => {
+    expect(followUpEngine.shouldAskFollowUp(session([question('Intro', { score: 1, category: 'Introduction' })]))).toBe(false);
+    expect(followUpEngine.shouldAskFollowUp(session([question('Code', { score: 1, isCoding: true })]))).toBe(false);
+    expect(followUpEngine.shouldAskFollowUp(session([question('Q1')]))).toBe(false);
+  });
+});
+
+describe('followUpEngine.updateActivePrompt', () => {
+  it('updates the latest follow-up and rescores the thread', () => {
+    const parent = question('Q1', { score: 2, followUps: [question('F1', { score: 4 }), question('F2')] });
+    const updated = followUpEngine.updateActivePrompt(parent, { answerText: 'More detail', score: 5 });
+
+    expect(updated.followUps?.[1]).toMatchObject({ qText: 'F2', answerText: 'More detail', score: 5 });
+    expect(updated.threadScore).toBe(3.7);
+    expect(followUpEngine.getQuestionScore(updated)).toBe(3.7);
+  });
+
+  it('updates a question without follow-ups in place', () => {
+    const updated = followUpEngine.updateActivePrompt(question('Q1'), { score: 3 });
+
+    expect(updated).toMatchObject({ qText: 'Q1', score: 3 });
+    expect(updated.threadScore).toBeUndefined();
+    expect(followUpEngine.getQuestionScore(updated)).toBe(3);
+  });
+});
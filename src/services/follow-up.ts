@@ -0,0 +1,99 @@
+/**
+ * @file services/follow-up.ts
+ * @description Conversational follow-ups within an AI interview
+ * Follow-ups live in the parent's `followUps` array; the parent and its
+ * follow-ups are scored together as one thread
+ */
+
+import { interviewPersona } from './interview-persona';
+import type { InterviewQuestion, InterviewSession, PromptRef } from '../types';
+
+export const followUpEngine = {
+  /**
+   * The question currently shown to the candidate: the latest follow-up of
+   * the latest question if there is one, otherwise the question itself
+   */
+  getActivePrompt(session: InterviewSession): InterviewQuestion | undefined {
+    const parent = session.questions[session.questions.length - 1];
+    const followUps = parent?.followUps || [];
+    return followUps.length > 0 ? followUps[followUps.length - 1] : parent;
+  },
+
+  /**
+   * Number of follow-ups already asked on the latest question
+   */
+  getFollowUpIndex(session: InterviewSession): number {
+    return session.questions[session.questions.length - 1]?.followUps?.length || 0;
+  },
+
+  /**
+   * Ask a follow-up when the latest answer was vague (low score) and the
+   * thread still has room; the session's persona sets both. The intro and
+   * coding questions are not probed.
+   */
+  shouldAskFollowUp(session: InterviewSession): boolean {
+    const parent = session.questions[session.questions.length - 1];
+    const active = this.getActivePrompt(session);
+
+    if (!parent || !active || parent.category === 'Introduction' || parent.isCoding) {
+      return false;
+    }
+
+    return (
+      typeof active.score === 'number' &&
+      interviewPersona.shouldProbe(session.persona, active.score, parent.followUps?.length || 0)
+    );
+  },
+
+  /**
+   * Average of the parent's and answered follow-ups' scores
+   */
+  getThreadScore(question: InterviewQuestion): number | undefined {
+    const scores = [question, ...(question.followUps || [])]
+      .map((q) => q.score)
+      .filter((score): score is number => typeof score === 'number');
+
+    if (scores.length === 0) return undefined;
+    return parseFloat((scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1));
+  },
+
+  /**
+   * Apply updates (answer, evaluation) to the active prompt of a question
+   * thread and refresh the combined thread score
+   */
+  updateActivePrompt(
+    parent: InterviewQuestion,
+    updates: Partial<InterviewQuestion>
+  ): InterviewQuestion {
+    const followUps = parent.followUps || [];
+
+    if (followUps.length === 0) {
+      return { ...parent, ...updates };
+    }
+
+    const updatedFollowUps = [...followUps];
+    updatedFollowUps[followUps.length - 1] = {
+      ...followUps[followUps.length - 1],
+      ...updates,
+    };
+
+    const updated = { ...parent, followUps: updatedFollowUps };
+    const threadScore = this.getThreadScore(updated);
+    return threadScore === undefined ? updated : { ...updated, threadScore };
+  },
+
+  /**
+   * The active prompt's position in the session, to update it after the
+   * candidate has moved on
+   */
+  getActivePromptRef(session: InterviewSession): PromptRef {
+    return { questionIndex: session.questions.length - 1, followUpIndex: this.getFollowUpIndex(session) };
+  },
+
+  /**
+   * Score used for session totals: the thread score when follow-ups exist
+   */
+  getQuestionScore(question: InterviewQuestion): number {
+    return question.threadScore ?? question.score ?? 0;
+  },
+};
@@ -1,78 +1,87 @@
 /**
  * @file services/gemini-api.ts
- * @description Gemini API integration with structured output
+ * @description Interview AI facade: question generation and answer evaluation
+ * Delegates to the active LLM provider (see services/llm-provider.ts)
  */
 
-import axios, { type AxiosInstance } from 'axios';
 import { createLogger } from '../utils/logger';
 import { withExponentialBackoff } from '../utils/retry';
-import { validateEvaluation } from '../utils/validation';
 import type {
+  CodeLanguage,
   GeminiQuestionResponse,
   GeminiEvaluationResponse,
+  GradingEmphasis,
+  InterviewHint,
+  InterviewLanguage,
+  InterviewPersona,
+  InterviewQuestion,
+  ModelAnswer,
+  QuestionType,
 } from '../types';
-import {
-  GEMINI_API_URL,
-  GEMINI_MODEL,
-  QUESTION_GENERATION_TIMEOUT_MS,
-  ANSWER_EVALUATION_TIMEOUT_MS,
-} from '../utils/constants';
 import { AppError } from '../utils/error-handler';
-import { ERROR_CODES } from '../utils/constants';
+import { DEFAULT_INTERVIEW_LANGUAGE, DEFAULT_INTERVIEW_PERSONA, ERROR_CODES } from '../utils/constants';
 import { interviewQuestionsService } from './interview-questions';
+import { getLLMProvider } from './llm-provider';
+import { codeExecutionService } from './code-execution';
+import { rubricScoring } from './rubric-scoring';
+import { evaluationConsistency } from './evaluation-consistency';
+import { behavioralInterview } from './behavioral-interview';
+import { interviewHints } from './interview-hints';
+import { answerGuard } from './answer-guard';
+import type { QuestionPlan } from './adaptive-difficulty';
 
 const logger = createLogger('gemini-api');
 
-export class GeminiApiService {
-  private client: AxiosInstance;
-  private apiKey: string;
-
-  constructor() {
-    this.apiKey =
-      import.meta.env.VITE_GEMINI_API_KEY ||
-      (typeof (window as any).__gemini_api_key !== 'undefined'
-        ? (window as any).__gemini_api_key
-        : '');
-
-    if (!this.apiKey) {
-      logger.warn('Gemini API key not configured');
-    }
+const QUESTION_CANDIDATE_COUNT = 3;
 
-    this.client = axios.create({
-      timeout: QUESTION_GENERATION_TIMEOUT_MS,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-  }
+export interface GenerateQuestionContext {
+  resumeExperience?: string;
+  jobContext?: string; // Target job posting summary
+  companyContext?: string; // Company track style and topics
+  language?: InterviewLanguage;
+  persona?: InterviewPersona; // Interviewer style to phrase the question in
+}
 
-  private getUrl(action: string): string {
-    return `${GEMINI_API_URL}/${GEMINI_MODEL}:${action}?key=${this.apiKey}`;
-  }
+export interface EvaluateAnswerOptions {
+  questionType?: QuestionType;
+  challengeId?: string; // Coding answers: run against this challenge's hidden tests
+  codeLanguage?: CodeLanguage;
+  priorAnswers?: string[]; // Earlier answers in the same question thread
+  onFeedback?: (feedback: string) => void; // Streamed feedback text so far
+  gradingEmphasis?: GradingEmphasis; // Company track or question set rubric weighting
+  referenceAnswer?: string; // Question set author's answer to grade against
+  hints?: InterviewHint[]; // Hints taken on this prompt; they cap the score
+  language?: InterviewLanguage; // Language of the answer and the feedback
+  sessionId?: string; // Logged with flagged answers
+}
 
+export class GeminiApiService {
   async generateQuestion(
     role: string,
     skills: string[],
-    _askedTopics: string[],
-    questionIndex: number,
-    totalQuestions: number,
-    _resumeExperience?: string
+    plan: QuestionPlan,
+    { resumeExperience, jobContext, companyContext, language, persona }: GenerateQuestionContext = {}
   ): Promise<GeminiQuestionResponse> {
-    try {
-      // Determine question stage for progressive difficulty
-      let difficulty: 'basic' | 'intermediate' | 'advanced' = 'basic';
-      if (questionIndex >= Math.ceil(totalQuestions * 0.6)) {
-        difficulty = 'advanced';
-      } else if (questionIndex >= Math.ceil(totalQuestions * 0.3)) {
-        difficulty = 'intermediate';
-      }
+    const { difficulty, focusSkills, excludeCategories, excludeQuestions, questionType } = plan;
 
-      // Fetch real interview questions from internet using Gemini
+    try {
+      // Ask for a few candidates so one can be picked outside the asked categories
       const questions = await interviewQuestionsService.getQuestionsForRole(
         role,
         skills,
         difficulty,
-        1
+        QUESTION_CANDIDATE_COUNT,
+        {
+          focusSkills,
+          excludeCategories,
+          excludeQuestions,
+          questionType,
+          experienceSummary: resumeExperience,
+          jobContext,
+          companyContext,
+          language,
+          persona,
+        }
       );
 
       if (questions.length === 0) {
@@ -82,10 +91,14 @@ export class GeminiApiService {
         );
       }
 
-      const question = questions[0];
+      // Prefer the requested type, then a category not yet asked
+      const asked = new Set(excludeCategories.map((category) => category.toLowerCase()));
+      const typed = questionType ? questions.filter((q) => q.type === questionType) : questions;
+      const pool = typed.length > 0 ? typed : questions;
+      const question = pool.find((q) => !asked.has(q.category.toLowerCase())) ?? pool[0];
 
       logger.info(
-        { category: question.category, difficulty, source: question.source },
+        { category: question.category, difficulty, focusSkills, source: question.source },
         'Question fetched successfully'
       );
 
@@ -93,6 +106,9 @@ export class GeminiApiService {
         question: question.question,
         isCoding: question.type === 'coding',
         category: question.category,
+        type: question.type,
+        ...(question.challenge ? { challenge: question.challenge } : {}),
+        ...(question.referenceAnswer ? { referenceAnswer: question.referenceAnswer } : {}),
       };
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -107,72 +123,91 @@ export class GeminiApiService {
     }
   }
 
+  /**
+   * Grade an answer. The overall score is weighted from the rubric for the
+   * question type; coding answers are run against the challenge's hidden
+   * tests by the provider and the results are folded into the rubric.
+   * Behavioral answers get a STAR check over the whole thread, so a
+   * follow-up can fill in what was missing.
+   * With `onFeedback`, the provider's feedback text is streamed while grading;
+   * the returned evaluation (score, rubric, suggestions) is the final one.
+   * The provider's samples (several for the backend, graded in one request)
+   * are aggregated with a confidence value. A company track's
+   * `gradingEmphasis` reweights the final rubric. The backend runs the
+   * answer guard around grading (and logs flagged answers): empty or copied
+   * answers come back ungraded, and flagged answers are capped here (see
+   * answerGuard).
+   */
   async evaluateAnswer(
     skills: string[],
     question: string,
-    answer: string
+    answer: string,
+    {
+      questionType = 'conceptual',
+      challengeId,
+      codeLanguage,
+      priorAnswers = [],
+      onFeedback,
+      gradingEmphasis,
+      referenceAnswer,
+      hints = [],
+      language = DEFAULT_INTERVIEW_LANGUAGE,
+      sessionId,
+    }: EvaluateAnswerOptions = {}
   ): Promise<GeminiEvaluationResponse> {
     return withExponentialBackoff(
       async () => {
         try {
-          const systemPrompt =
-            'You are a senior technical interviewer. Evaluate the candidate\'s answer based on technical accuracy, depth, and clarity. Provide a score from 1 (poor) to 5 (excellent). Your response MUST be a single JSON object.';
-
-          const userQuery = `Candidate's skills: ${skills.join(', ')}. \n\nOriginal Question: ${question}\n\nCandidate's Answer: ${answer}`;
-
-          const payload = {
-            contents: [{ parts: [{ text: userQuery }] }],
-            systemInstruction: { parts: [{ text: systemPrompt }] },
-            generationConfig: {
-              responseMimeType: 'application/json',
-              responseSchema: {
-                type: 'OBJECT',
-                properties: {
-                  score: {
-                    type: 'INTEGER',
-                    description:
-                      'A numerical score from 1 (poor) to 5 (excellent).',
-                  },
-                  feedback: {
-                    type: 'STRING',
-                    description:
-                      "A summary of the answer's strengths and weaknesses.",
-                  },
-                  improvementSuggestions: {
-                    type: 'ARRAY',
-                    items: { type: 'STRING' },
-                    description:
-                      '3-5 actionable suggestions for improving the answer or related knowledge.',
-                  },
-                },
-                required: ['score', 'feedback', 'improvementSuggestions'],
-              },
-            },
-          };
-
-          const response = await this.client.post(
-            this.getUrl('generateContent'),
-            payload,
+          const graded = await getLLMProvider().evaluateAnswer(
             {
-              timeout: ANSWER_EVALUATION_TIMEOUT_MS,
-            }
+              skills,
+              question,
+              answer,
+              questionType,
+              ...(challengeId && codeLanguage ? { challengeId, codeLanguage } : {}),
+              ...(referenceAnswer ? { referenceAnswer } : {}),
+              language,
+              priorAnswers,
+              ...(sessionId ? { sessionId } : {}),
+            },
+            onFeedback
           );
+          if (graded.samples.length === 0) {
+            logger.info({ flags: graded.flags }, 'Answer not graded');
+            return interviewHints.applyToEvaluation(answerGuard.getUngradedEvaluation(graded.flags), hints);
+          }
+          const samples = graded.samples.map((sample) => rubricScoring.apply(sample, questionType));
 
-          const jsonText =
-            response.data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-          if (!jsonText) {
-            throw new AppError(
-              ERROR_CODES.API_ERROR,
-              'Empty response from Gemini API'
+          const evaluation = evaluationConsistency.aggregate(samples, questionType);
+          const codeExecution = samples.find((sample) => sample.codeExecution)?.codeExecution;
+          let validated = codeExecution
+            ? { ...codeExecutionService.applyToEvaluation(evaluation, codeExecution), codeExecution }
+            : evaluation;
+          // The STAR check reads English keywords; other languages rely on the grader
+          if (questionType === 'behavioral' && language === DEFAULT_INTERVIEW_LANGUAGE) {
+            validated = behavioralInterview.applyToEvaluation(
+              validated,
+              behavioralInterview.analyzeStar([...priorAnswers, answer].join('\n'))
             );
           }
-
-          const parsedData = JSON.parse(jsonText);
-          const validated = validateEvaluation(parsedData);
+          if (gradingEmphasis) {
+            validated = {
+              ...validated,
+              score: rubricScoring.computeScore(validated.rubric, questionType, gradingEmphasis),
+            };
+          }
+          validated = interviewHints.applyToEvaluation(validated, hints);
+          validated = answerGuard.applyToEvaluation(validated, graded.flags);
 
           logger.info(
-            { score: validated.score },
+            {
+              score: validated.score,
+              confidence: validated.confidence?.confidence,
+              testsPassed: codeExecution?.passed,
+              star: validated.star,
+              hints: hints.length,
+              flags: validated.flags,
+            },
             'Answer evaluated successfully'
           );
 
@@ -192,6 +227,158 @@ export class GeminiApiService {
       { maxRetries: 3 }
     );
   }
+
+  /**
+   * Probe the latest answer in a question thread. The thread's most recent
+   * answer (parent or follow-up) is the one being dug into. Behavioral
+   * threads ask for the missing STAR component instead.
+   */
+  async generateFollowUp(
+    skills: string[],
+    parent: InterviewQuestion,
+    language: InterviewLanguage = DEFAULT_INTERVIEW_LANGUAGE,
+    persona: InterviewPersona = DEFAULT_INTERVIEW_PERSONA
+  ): Promise<string> {
+    const followUps = parent.followUps || [];
+    const latest = followUps.length > 0 ? followUps[followUps.length - 1] : parent;
+
+    const starFollowUp = latest.star && behavioralInterview.getStarFollowUp(latest.star);
+    if (starFollowUp) {
+      logger.info({ category: parent.category, followUpIndex: followUps.length }, 'STAR follow-up selected');
+      return starFollowUp;
+    }
+
+    try {
+      const question = await getLLMProvider().generateFollowUp({
+        skills,
+        question: parent.qText,
+        answer: latest.answerText || '',
+        feedback: latest.feedback || '',
+        previousFollowUps: followUps.map((f) => ({
+          question: f.qText,
+          answer: f.answerText || '',
+        })),
+        language,
+        persona,
+      });
+
+      logger.info(
+        { category: parent.category, followUpIndex: followUps.length },
+        'Follow-up generated'
+      );
+
+      return question;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      logger.error({ error }, 'Failed to generate follow-up');
+      throw new AppError(
+        ERROR_CODES.API_ERROR,
+        'Failed to generate follow-up question',
+        (error as any)?.response?.status,
+        error
+      );
+    }
+  }
+
+  /**
+   * Reference answer for the results review. A curated answer already on
+   * the question (question bank or interviewer question set) is kept and
+   * only its key concepts are extracted; otherwise the provider writes one.
+   */
+  async getModelAnswer(
+    skills: string[],
+    question: InterviewQuestion,
+    language: InterviewLanguage = DEFAULT_INTERVIEW_LANGUAGE
+  ): Promise<ModelAnswer> {
+    const curatedSource = question.modelAnswer?.source !== 'generated' ? question.modelAnswer?.source : undefined;
+    const curated = curatedSource ? question.modelAnswer!.text : undefined;
+
+    try {
+      const { answer, keyConcepts } = await getLLMProvider().generateModelAnswer({
+        skills,
+        question: question.qText,
+        questionType: rubricScoring.getQuestionType(question),
+        ...(curated ? { referenceAnswer: curated } : {}),
+        language,
+      });
+
+      logger.info(
+        { category: question.category, curated: Boolean(curated), keyConcepts: keyConcepts.length },
+        'Model answer generated'
+      );
+
+      return { text: answer, keyConcepts, source: curatedSource ?? 'generated' };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      logger.error({ error }, 'Failed to generate model answer');
+      throw new AppError(
+        ERROR_CODES.API_ERROR,
+        'Failed to generate model answer',
+        (error as { response?: { status?: number } })?.response?.status,
+        error
+      );
+    }
+  }
+
+  /**
+   * Next hint tier for the prompt. `question` carries the parent question as
+   * context for follow-ups; `answer` is the candidate's draft, if any.
+   */
+  async getHint(
+    skills: string[],
+    question: string,
+    prompt: InterviewQuestion,
+    answer?: string,
+    language: InterviewLanguage = DEFAULT_INTERVIEW_LANGUAGE
+  ): Promise<InterviewHint> {
+    const level = interviewHints.getNextLevel(prompt);
+    if (!level) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'No hints left for this question');
+    }
+
+    try {
+      const text = await getLLMProvider().generateHint({
+        skills,
+        question,
+        questionType: rubricScoring.getQuestionType(prompt),
+        level,
+        previousHints: (prompt.hints || []).map((hint) => hint.text),
+        ...(answer?.trim() ? { answer } : {}),
+        language,
+      });
+
+      logger.info({ category: prompt.category, level }, 'Hint generated');
+      return { level, text, requestedAt: Date.now() };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      logger.error({ error }, 'Failed to generate hint');
+      throw new AppError(
+        ERROR_CODES.API_ERROR,
+        'Failed to generate hint',
+        (error as { response?: { status?: number } })?.response?.status,
+        error
+      );
+    }
+  }
+
+  /**
+   * Curated interview texts in the interview language. English texts need no
+   * translation; the originals are kept if translation fails so the
+   * interview can go on.
+   */
+  async translate(texts: string[], language: InterviewLanguage): Promise<string[]> {
+    if (language === DEFAULT_INTERVIEW_LANGUAGE || texts.length === 0) return texts;
+
+    try {
+      return await getLLMProvider().translate(texts, language);
+    } catch (error) {
+      logger.warn({ error, language }, 'Translation failed, keeping the original texts');
+      return texts;
+    }
+  }
 }
 
 export const geminiApiService = new GeminiApiService();
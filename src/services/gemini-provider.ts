@@ -0,0 +1,288 @@
+/**
+ * @file services/gemini-provider.ts
+ * @description Gemini backend for the LLM provider layer
+ * Calls go through the authenticated backend proxy (/api/ai), which holds the
+ * API key and applies per-user rate limits; the browser never sees the key.
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import { createLogger } from '../utils/logger';
+import { codingChallengeSchema, validateEvaluation } from '../utils/validation';
+import { AppError } from '../utils/error-handler';
+import {
+  API_TIMEOUT_MS,
+  ERROR_CODES,
+  QUESTION_GENERATION_TIMEOUT_MS,
+  ANSWER_EVALUATION_TIMEOUT_MS,
+  CODE_EXECUTION_TIMEOUT_MS,
+} from '../utils/constants';
+import { getFirebaseInstances } from './firebase';
+import type { AnswerFlag, CodeExecutionResult, InterviewLanguage, JobRequirements } from '../types';
+import type {
+  LLMProvider,
+  QuestionGenerationRequest,
+  GeneratedQuestion,
+  AnswerEvaluationRequest,
+  EvaluationSamples,
+  FollowUpRequest,
+  ModelAnswerRequest,
+  GeneratedModelAnswer,
+  HintRequest,
+} from './llm-provider';
+
+const logger = createLogger('gemini-provider');
+
+// Body of POST /evaluate and of the stream's `result` event
+interface EvaluationResult {
+  evaluations?: unknown;
+  flags?: AnswerFlag[];
+  codeExecution?: CodeExecutionResult;
+}
+
+export const getAiBackendUrl = (): string => import.meta.env.VITE_BACKEND_URL || '';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: AxiosInstance;
+
+  constructor() {
+    const backendUrl = getAiBackendUrl();
+
+    if (!backendUrl) {
+      logger.warn('Backend URL not configured, using http://localhost:3000 for AI requests');
+    }
+
+    this.client = axios.create({
+      baseURL: `${backendUrl || 'http://localhost:3000'}/api/ai`,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * POST to an AI route with the user's Firebase ID token. Failures keep the
+   * HTTP status so 429s are retried with backoff; an exhausted daily quota
+   * surfaces as QUOTA_EXCEEDED instead.
+   */
+  private async post<T>(path: string, body: object, timeout: number): Promise<T> {
+    try {
+      const token = await getFirebaseInstances().auth.currentUser?.getIdToken();
+      const response = await this.client.post(path, body, {
+        timeout,
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      return response.data;
+    } catch (error) {
+      const { status, data } =
+        (error as { response?: { status?: number; data?: { error?: string; code?: string } } })
+          ?.response ?? {};
+      const message = data?.error || 'AI service request failed';
+      const code =
+        data?.code === ERROR_CODES.QUOTA_EXCEEDED ? ERROR_CODES.QUOTA_EXCEEDED : ERROR_CODES.API_ERROR;
+      logger.error({ path, status, code, message }, 'AI proxy request failed');
+      throw new AppError(code, message, status, error);
+    }
+  }
+
+  async generateQuestions(request: QuestionGenerationRequest): Promise<GeneratedQuestion[]> {
+    const { questions } = await this.post<{ questions: GeneratedQuestion[] }>(
+      '/questions',
+      request,
+      API_TIMEOUT_MS
+    );
+
+    return questions.map((q) => {
+      // Coding questions without stored tests are still asked, just graded on the text
+      const challenge =
+        q.type === 'coding' && q.challenge ? codingChallengeSchema.safeParse(q.challenge) : null;
+
+      return {
+        question: q.question,
+        category: q.category || 'General',
+        type: q.type || 'conceptual',
+        source: q.source || 'Gemini',
+        ...(challenge?.success ? { challenge: challenge.data } : {}),
+      };
+    });
+  }
+
+  /**
+   * The backend's grading samples, each with its test run of a coding
+   * answer, and the answer guard's flags. No samples is only valid when the
+   * flags say why the answer was not graded.
+   */
+  private toSamples({ evaluations, flags, codeExecution }: EvaluationResult): EvaluationSamples {
+    const answerFlags = Array.isArray(flags) ? flags : [];
+    if (!Array.isArray(evaluations) || (evaluations.length === 0 && answerFlags.length === 0)) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no evaluation');
+    }
+
+    return {
+      samples: evaluations.map((evaluation) => {
+        const validated = validateEvaluation(evaluation);
+        return codeExecution ? { ...validated, codeExecution } : validated;
+      }),
+      flags: answerFlags,
+    };
+  }
+
+  /**
+   * The backend grades the answer several times in parallel and returns every
+   * sample in one response, metered as a single request
+   */
+  async evaluateAnswer(
+    request: AnswerEvaluationRequest,
+    onFeedback?: (feedback: string) => void
+  ): Promise<EvaluationSamples> {
+    if (onFeedback) {
+      return this.streamEvaluation(request, onFeedback);
+    }
+
+    const result = await this.post<EvaluationResult>(
+      '/evaluate',
+      request,
+      ANSWER_EVALUATION_TIMEOUT_MS + (request.challengeId ? CODE_EXECUTION_TIMEOUT_MS : 0)
+    );
+
+    return this.toSamples(result);
+  }
+
+  /**
+   * POST /evaluate/stream and read its server-sent events. axios cannot
+   * stream response bodies in the browser, so this one uses fetch.
+   */
+  private async streamEvaluation(
+    request: AnswerEvaluationRequest,
+    onFeedback: (feedback: string) => void
+  ): Promise<EvaluationSamples> {
+    const fail = (message: string, status?: number, code?: string, error?: unknown): never => {
+      const errorCode =
+        code === ERROR_CODES.QUOTA_EXCEEDED ? ERROR_CODES.QUOTA_EXCEEDED : ERROR_CODES.API_ERROR;
+      logger.error({ status, code: errorCode, message }, 'AI evaluation stream failed');
+      throw new AppError(errorCode, message, status, error);
+    };
+
+    let response: Response;
+    try {
+      const token = await getFirebaseInstances().auth.currentUser?.getIdToken();
+      response = await fetch(`${this.client.defaults.baseURL}/evaluate/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(API_TIMEOUT_MS),
+      });
+    } catch (error) {
+      return fail('AI service request failed', undefined, undefined, error);
+    }
+
+    if (!response.ok || !response.body) {
+      const data: { error?: string; code?: string } = await response.json().catch(() => ({}));
+      return fail(data.error || 'AI service request failed', response.status, data.code);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const event of events) {
+          const name = /^event: (.+)$/m.exec(event)?.[1];
+          const data = /^data: (.+)$/m.exec(event)?.[1];
+          if (!name || !data) continue;
+
+          const payload = JSON.parse(data);
+          if (name === 'feedback') {
+            onFeedback(payload.feedback);
+          } else if (name === 'result') {
+            return this.toSamples(payload);
+          } else if (name === 'error') {
+            return fail(payload.error || 'Evaluation failed', response.status, payload.code);
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      return fail('AI evaluation stream interrupted', undefined, undefined, error);
+    }
+
+    return fail('AI evaluation stream ended without a result');
+  }
+
+  async generateFollowUp(request: FollowUpRequest): Promise<string> {
+    const { question } = await this.post<{ question?: string }>(
+      '/follow-up',
+      request,
+      QUESTION_GENERATION_TIMEOUT_MS
+    );
+
+    if (!question) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no follow-up question');
+    }
+
+    return question;
+  }
+
+  async generateModelAnswer(request: ModelAnswerRequest): Promise<GeneratedModelAnswer> {
+    const { modelAnswer } = await this.post<{ modelAnswer?: GeneratedModelAnswer }>(
+      '/model-answer',
+      request,
+      QUESTION_GENERATION_TIMEOUT_MS
+    );
+
+    if (!modelAnswer?.answer) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no model answer');
+    }
+
+    return { answer: modelAnswer.answer, keyConcepts: modelAnswer.keyConcepts || [] };
+  }
+
+  async generateHint(request: HintRequest): Promise<string> {
+    const { hint } = await this.post<{ hint?: string }>('/hint', request, QUESTION_GENERATION_TIMEOUT_MS);
+
+    if (!hint) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no hint');
+    }
+
+    return hint;
+  }
+
+  async translate(texts: string[], language: InterviewLanguage): Promise<string[]> {
+    const { texts: translated } = await this.post<{ texts?: string[] }>(
+      '/translate',
+      { texts, language },
+      QUESTION_GENERATION_TIMEOUT_MS
+    );
+
+    if (!translated || translated.length !== texts.length) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no translation');
+    }
+
+    return translated;
+  }
+
+  async parseJobDescription(description: string): Promise<JobRequirements> {
+    const { requirements } = await this.post<{ requirements?: JobRequirements }>(
+      '/job-description',
+      { description },
+      QUESTION_GENERATION_TIMEOUT_MS
+    );
+
+    if (!requirements) {
+      throw new AppError(ERROR_CODES.API_ERROR, 'Gemini returned no job requirements');
+    }
+
+    return requirements;
+  }
+}
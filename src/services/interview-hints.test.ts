@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { interviewHints } from './interview-hints';
+import { answerGuard } from './answer-guard';
+import type { GeminiEvaluationResponse, HintLevel, InterviewHint, InterviewQuestion } from '../types';
+
+const hint = (level: HintLevel): InterviewHint => ({ level, text: `${level} hint`, requestedAt: 0 });
+
+const evaluation = (score: number): GeminiEvaluationResponse => ({
+  score,
+  feedback: 'Feedback',
+  improvementSuggestions: [],
+  rubric: [],
+});
+
+describe('interviewHints.getMaxScore', () => {
+  it('is 5 without hints', () => {
+    expect(interviewHints.getMaxScore()).toBe(5);
+    expect(interviewHints.getMaxScore([])).toBe(5);
+  });
+
+  it.each([
+    ['nudge', 4],
+    ['approach', 3],
+    ['partial', 2],
+  ] as const)('caps a %s at %i', (level, maxScore) => {
+    expect(interviewHints.getMaxScore([hint(level)])).toBe(maxScore);
+  });
+
+  it('takes the deepest tier used', () => {
+    expect(interviewHints.getMaxScore([hint('nudge'), hint('approach'), hint('partial')])).toBe(2);
+    expect(interviewHints.getMaxScore([hint('nudge'), hint('approach')])).toBe(3);
+  });
+});
+
+describe('interviewHints.getNextLevel', () => {
+  it('offers the tiers in order, then none', () => {
+    const prompt = { qText: 'Q', category: 'JavaScript' } as InterviewQuestion;
+
+    expect(interviewHints.getNextLevel(prompt)).toBe('nudge');
+    expect(interviewHints.getNextLevel({ ...prompt, hints: [hint('nudge')] })).toBe('approach');
+    expect(interviewHints.getNextLevel({ ...prompt, hints: [hint('nudge'), hint('approach')] })).toBe('partial');
+    expect(interviewHints.getNextLevel({ ...prompt, hints: [hint('nudge'), hint('approach'), hint('partial')] })).toBeNull();
+  });
+});
+
+describe('interviewHints.applyToEvaluation', () => {
+  it('leaves an answer without hints untouched', () => {
+    const graded = evaluation(5);
+
+    expect(interviewHints.applyToEvaluation(graded)).toBe(graded);
+  });
+
+  it('caps the score by the deepest hint and says so', () => {
+    const result = interviewHints.applyToEvaluation(evaluation(5), [hint('nudge'), hint('approach')]);
+
+    expect(result.score).toBe(3);
+    expect(result.feedback).toBe('2 hints used (up to approach), so this answer is capped at 3/5. Feedback');
+  });
+
+  it('keeps lower scores', () => {
+    const result = interviewHints.applyToEvaluation(evaluation(1), [hint('nudge')]);
+
+    expect(result.score).toBe(1);
+    expect(result.feedback).toMatch(/^1 hint used \(up to nudge\), so this answer is capped at 4\/5\. /);
+  });
+
+  it('combines with the answer guard: the lower cap wins', () => {
+    const hinted = interviewHints.applyToEvaluation(evaluation(5), [hint('nudge')]);
+    const offTopic = answerGuard.applyToEvaluation(hinted, ['off-topic']);
+
+    expect(offTopic.score).toBe(2);
+    expect(offTopic.flags).toEqual(['off-topic']);
+    expect(offTopic.feedback).toBe(
+      'This answer was flagged (off topic), so it is capped at 2/5. ' +
+        '1 hint used (up to nudge), so this answer is capped at 4/5. Feedback'
+    );
+
+    const partial = interviewHints.applyToEvaluation(evaluation(5), [hint('partial')]);
+    expect(answerGuard.applyToEvaluation(partial, ['off-topic']).score).toBe(2);
+    expect(answerGuard.applyToEvaluation(partial, ['injection']).score).toBe(1);
+  });
+
+  it('caps an ungraded answer at the guard score', () => {
+    const result = interviewHints.applyToEvaluation(answerGuard.getUngradedEvaluation(['empty']), [hint('nudge')]);
+
+    expect(result.score).toBe(1);
+    expect(result.flags).toEqual(['empty']);
+    expect(result.feedback).toMatch(/^1 hint used \(up to nudge\), so this answer is capped at 4\/5\. This answer was flagged/);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @file services/interview-hints.ts
+ * @description Tiered hints for candidates who are stuck
+ * Hints are offered in order (nudge, approach, partial solution) and recorded
+ * on the prompt they helped with. The deepest tier used caps that answer's
+ * score, and the report lists every hint taken.
+ */
+
+import { HINT_LEVELS } from '../utils/constants';
+import type { GeminiEvaluationResponse, HintLevel, InterviewHint, InterviewQuestion } from '../types';
+
+export const interviewHints = {
+  /**
+   * Next tier to offer on a prompt; null once every tier has been used
+   */
+  getNextLevel(prompt: InterviewQuestion): HintLevel | null {
+    return HINT_LEVELS[prompt.hints?.length ?? 0]?.level ?? null;
+  },
+
+  getLabel(level: HintLevel): string {
+    return HINT_LEVELS.find((h) => h.level === level)?.label ?? level;
+  },
+
+  /**
+   * Highest score an answer can get after these hints (5 without any)
+   */
+  getMaxScore(hints: InterviewHint[] = []): number {
+    return Math.min(5, ...hints.map((hint) => HINT_LEVELS.find((h) => h.level === hint.level)?.maxScore ?? 5));
+  },
+
+  /**
+   * Cap the score by the deepest hint used and say so in the feedback
+   */
+  applyToEvaluation(
+    evaluation: GeminiEvaluationResponse,
+    hints: InterviewHint[] = []
+  ): GeminiEvaluationResponse {
+    if (hints.length === 0) return evaluation;
+
+    const maxScore = this.getMaxScore(hints);
+    const deepest = this.getLabel(hints[hints.length - 1].level).toLowerCase();
+    const summary = `${hints.length} hint${hints.length === 1 ? '' : 's'} used (up to ${deepest}), so this answer is capped at ${maxScore}/5.`;
+
+    return {
+      ...evaluation,
+      score: Math.min(evaluation.score, maxScore),
+      feedback: `${summary} ${evaluation.feedback}`,
+    };
+  },
+
+  /**
+   * Every hint taken on a question and its follow-ups
+   */
+  getThreadHints(question: InterviewQuestion): InterviewHint[] {
+    return [question, ...(question.followUps || [])].flatMap((prompt) => prompt.hints || []);
+  },
+};
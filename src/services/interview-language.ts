@@ -0,0 +1,45 @@
+/**
+ * @file services/interview-language.ts
+ * @description Language an AI interview is held in
+ * Taken from the candidate's language preference and recorded on the
+ * session. It selects the language of generated questions and feedback, the
+ * speech recognition locale and the interviewer's voice.
+ */
+
+import { DEFAULT_INTERVIEW_LANGUAGE, INTERVIEW_LANGUAGES } from '../utils/constants';
+import type { InterviewLanguage } from '../types';
+
+const getEntry = (language: InterviewLanguage) =>
+  INTERVIEW_LANGUAGES.find((l) => l.value === language) ?? INTERVIEW_LANGUAGES[0];
+
+export const interviewLanguage = {
+  /**
+   * Supported interview language for a preference value ("es", "es-MX");
+   * anything else falls back to English
+   */
+  resolve(preference?: string | null): InterviewLanguage {
+    const code = preference?.toLowerCase().split('-')[0];
+    return INTERVIEW_LANGUAGES.find((l) => l.value === code)?.value ?? DEFAULT_INTERVIEW_LANGUAGE;
+  },
+
+  getLabel(language: InterviewLanguage): string {
+    return getEntry(language).label;
+  },
+
+  /**
+   * BCP 47 locale for speech: the browser's own locale when it is a regional
+   * variant of the language (es-AR keeps Argentine Spanish), otherwise the
+   * language's default
+   */
+  getSpeechLocale(language: InterviewLanguage, browserLocale?: string): string {
+    if (browserLocale && browserLocale.toLowerCase().split('-')[0] === language) {
+      return browserLocale;
+    }
+    return getEntry(language).speechLocale;
+  },
+
+  getIntroQuestion(language: InterviewLanguage, skills: string[]): string {
+    const listed = new Intl.ListFormat(language, { type: 'conjunction' }).format(skills.slice(0, 2));
+    return getEntry(language).intro.replace('{skills}', listed);
+  },
+};
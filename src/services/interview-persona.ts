@@ -0,0 +1,69 @@
+/**
+ * @file services/interview-persona.ts
+ * @description Style of the AI interviewer
+ * Chosen in the lobby and recorded on the session. It sets how generated
+ * questions and follow-ups are phrased, how readily answers are probed, the
+ * question time limits and the interviewer's voice. Grading is the same for
+ * every persona, so scores can be compared across styles.
+ */
+
+import { DEFAULT_INTERVIEW_PERSONA, INTERVIEW_PERSONAS } from '../utils/constants';
+import type { InterviewPersona, InterviewSession, PersonaPerformance } from '../types';
+
+// Shortest time limit a persona can scale a question down to
+const MIN_TIME_LIMIT_SECONDS = 60;
+
+const getEntry = (persona: InterviewPersona = DEFAULT_INTERVIEW_PERSONA) =>
+  INTERVIEW_PERSONAS.find((p) => p.value === persona) ??
+  INTERVIEW_PERSONAS.find((p) => p.value === DEFAULT_INTERVIEW_PERSONA)!;
+
+export const interviewPersona = {
+  getLabel(persona?: InterviewPersona): string {
+    return getEntry(persona).label;
+  },
+
+  /**
+   * Whether an answer with this score gets a follow-up, given the
+   * follow-ups already asked on its question
+   */
+  shouldProbe(persona: InterviewPersona | undefined, score: number, followUpsAsked: number): boolean {
+    const { followUpMaxScore, maxFollowUps } = getEntry(persona);
+    return score <= followUpMaxScore && followUpsAsked < maxFollowUps;
+  },
+
+  /**
+   * A question's time limit at the persona's pace, rounded to whole
+   * seconds
+   */
+  scaleTimeLimit(seconds: number, persona?: InterviewPersona): number {
+    const scaled = Math.round(seconds * getEntry(persona).timeFactor);
+    return Math.max(Math.min(seconds, MIN_TIME_LIMIT_SECONDS), scaled);
+  },
+
+  getVoice(persona?: InterviewPersona): { rate: number; pitch: number; voiceNames: string[] } {
+    const { speechRate, speechPitch, voiceNames } = getEntry(persona);
+    return { rate: speechRate, pitch: speechPitch, voiceNames };
+  },
+
+  /**
+   * Completed sessions' scores per persona, in persona order; sessions
+   * without a persona count as the neutral screener
+   */
+  getPerformance(sessions: InterviewSession[]): PersonaPerformance[] {
+    return INTERVIEW_PERSONAS.flatMap(({ value }) => {
+      const scores = sessions
+        .filter((s) => s.status === 'completed' && (s.persona ?? DEFAULT_INTERVIEW_PERSONA) === value)
+        .map((s) => s.score);
+      if (scores.length === 0) return [];
+
+      return [
+        {
+          persona: value,
+          sessions: scores.length,
+          averageScore: parseFloat((scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1)),
+          bestScore: Math.max(...scores),
+        },
+      ];
+    });
+  },
+};
@@ -1,13 +1,21 @@
 /**
  * @file services/interview-questions.ts
- * @description Fetch real interview questions from internet using Gemini AI with web search
- * Questions are sourced from LeetCode, HackerRank, company interviews, and industry standards
+ * @description Fetch interview questions through the active LLM provider
+ * With Gemini, questions are sourced from LeetCode, HackerRank, company interviews, and industry standards
  */
 
-import axios from 'axios';
 import { createLogger } from '../utils/logger';
 import { AppError } from '../utils/error-handler';
-import { ERROR_CODES, GEMINI_API_URL, GEMINI_MODEL } from '../utils/constants';
+import {
+  DEFAULT_INTERVIEW_LANGUAGE,
+  DEFAULT_INTERVIEW_PERSONA,
+  ERROR_CODES,
+  PROMPT_EXCLUDED_QUESTIONS,
+} from '../utils/constants';
+import { getLLMProvider } from './llm-provider';
+import { getQuestionBankService, isQuestionBankAvailable } from './question-bank';
+import { questionSimilarity } from './question-similarity';
+import type { CodingChallenge, InterviewLanguage, InterviewPersona, QuestionType } from '../types';
 
 const logger = createLogger('interview-questions');
 
@@ -16,143 +24,104 @@ export interface InterviewQuestion {
   question: string;
   category: string;
   difficulty: 'basic' | 'intermediate' | 'advanced';
-  type: 'conceptual' | 'coding' | 'design';
-  source: string; // e.g., "LeetCode", "HackerRank", "Company Interview"
+  type: QuestionType;
+  source: string; // e.g., "LeetCode", "HackerRank", "Company Interview", "Question Bank"
+  referenceAnswer?: string; // Only for curated bank questions
+  challenge?: CodingChallenge; // Hidden tests for coding questions
+}
+
+export interface QuestionSteering {
+  focusSkills?: string[];
+  excludeCategories?: string[];
+  excludeQuestions?: string[]; // Question texts already asked (this and past sessions), most recent first
+  questionType?: QuestionType;
+  experienceSummary?: string;
+  jobContext?: string; // Target job posting summary
+  companyContext?: string; // Company track style and topics
+  language?: InterviewLanguage; // Language to ask in (default English)
+  persona?: InterviewPersona; // Interviewer style to phrase generated questions in
 }
 
 class InterviewQuestionsService {
-  private apiKey: string;
   private questionCache: Map<string, InterviewQuestion[]> = new Map();
 
-  constructor() {
-    this.apiKey =
-      import.meta.env.VITE_GEMINI_API_KEY ||
-      (typeof (window as any).__gemini_api_key !== 'undefined'
-        ? (window as any).__gemini_api_key
-        : '');
-
-    if (!this.apiKey) {
-      logger.warn('Gemini API key not configured');
-    }
-  }
-
-  private getUrl(action: string): string {
-    return `${GEMINI_API_URL}/${GEMINI_MODEL}:${action}?key=${this.apiKey}`;
-  }
-
   /**
-   * Fetch most asked interview questions for a specific role and difficulty level
-   * Uses Gemini with web search to find real questions from various sources
+   * Fetch interview questions for a specific role and difficulty level
+   * The curated question bank is used first (English interviews only, as it
+   * is written in English); when it has no unused match,
+   * Gemini searches the web for real questions (or the local provider serves fixtures).
+   * Near-duplicates of `steering.excludeQuestions` are dropped; only the
+   * most recent of them are sent to the provider, which caps the list.
    */
   async getQuestionsForRole(
     role: string,
     skills: string[],
     difficulty: 'basic' | 'intermediate' | 'advanced',
-    count: number = 5
+    count: number = 5,
+    steering: QuestionSteering = {}
   ): Promise<InterviewQuestion[]> {
-    // Check cache first
-    const cacheKey = `${role}-${difficulty}-${count}`;
-    if (this.questionCache.has(cacheKey)) {
-      return this.questionCache.get(cacheKey)!;
+    const bankQuestions = this.withoutRepeats(
+      await this.getBankQuestions(role, skills, difficulty, count, steering),
+      steering
+    );
+    if (bankQuestions.length > 0) {
+      return bankQuestions;
+    }
+
+    // Check cache first (steering changes the result, so it is part of the key)
+    const cacheKey = [
+      role,
+      difficulty,
+      count,
+      (steering.focusSkills || []).join(','),
+      (steering.excludeCategories || []).join(','),
+      steering.questionType || '',
+      steering.jobContext || '',
+      steering.companyContext || '',
+      steering.language || DEFAULT_INTERVIEW_LANGUAGE,
+      steering.persona || DEFAULT_INTERVIEW_PERSONA,
+    ].join('-');
+    const cached = this.withoutRepeats(this.questionCache.get(cacheKey) || [], steering);
+    if (cached.length > 0) {
+      return cached;
     }
 
     try {
-      const prompt = `Search the internet and find the TOP ${count} most frequently asked "${difficulty}" level interview questions for a "${role}" position.
-
-Include questions that are commonly asked in real interviews from sources like:
-- LeetCode
-- HackerRank  
-- Company interviews (Google, Amazon, Microsoft, Facebook, etc.)
-- GeeksforGeeks
-- Interview.io
-- Blind
-- Stack Overflow
-
-The candidate has experience with: ${skills.join(', ')}
-
-Return ONLY a JSON array with this exact structure, no other text:
-[
-  {
-    "question": "The interview question",
-    "category": "Topic/Skill",
-    "type": "conceptual" or "coding" or "design",
-    "source": "Where this question comes from (e.g., 'LeetCode', 'Company Interview', 'HackerRank')"
-  }
-]
-
-Make sure the questions are:
-1. REAL questions from actual sources, not made up
-2. Most frequently asked in interviews
-3. Relevant to their skills and role
-4. Specific and detailed, not generic
-5. Appropriate for "${difficulty}" level`;
-
-      const payload = {
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: 'ARRAY',
-            items: {
-              type: 'OBJECT',
-              properties: {
-                question: { type: 'STRING' },
-                category: { type: 'STRING' },
-                type: {
-                  type: 'STRING',
-                  enum: ['conceptual', 'coding', 'design'],
-                },
-                source: { type: 'STRING' },
-              },
-              required: ['question', 'category', 'type', 'source'],
-            },
-          },
-        },
-      };
-
-      const response = await axios.post(this.getUrl('generateContent'), payload, {
-        timeout: 30000,
+      const provider = getLLMProvider();
+      const parsedQuestions = await provider.generateQuestions({
+        role,
+        skills,
+        difficulty,
+        count,
+        ...steering,
+        ...(steering.excludeQuestions
+          ? { excludeQuestions: steering.excludeQuestions.slice(0, PROMPT_EXCLUDED_QUESTIONS) }
+          : {}),
       });
 
-      const jsonText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!jsonText) {
-        throw new AppError(
-          ERROR_CODES.API_ERROR,
-          'Empty response from Gemini API'
-        );
-      }
-
-      const parsedQuestions = JSON.parse(jsonText);
-      
       // Transform to add IDs and validate
       const questions: InterviewQuestion[] = parsedQuestions.map(
-        (q: any, index: number) => ({
+        (q, index) => ({
           id: `${role}-${difficulty}-${index}-${Date.now()}`,
           question: q.question,
           category: q.category,
           difficulty,
-          type: q.type || 'conceptual',
+          type: q.type,
           source: q.source,
+          ...(q.challenge ? { challenge: q.challenge } : {}),
         })
       );
 
       // Cache the results
       this.questionCache.set(cacheKey, questions);
       logger.info(
-        { role, difficulty, count },
+        { role, difficulty, count, provider: provider.name },
         'Questions fetched successfully'
       );
 
-      return questions;
+      // Better a repeat than no question at all
+      const fresh = this.withoutRepeats(questions, steering);
+      return fresh.length > 0 ? fresh : questions;
     } catch (error) {
       if (error instanceof AppError) throw error;
 
@@ -166,6 +135,66 @@ Make sure the questions are:
     }
   }
 
+  /**
+   * Drop questions that are near-duplicates of ones already asked
+   */
+  private withoutRepeats(questions: InterviewQuestion[], steering: QuestionSteering): InterviewQuestion[] {
+    const asked = steering.excludeQuestions || [];
+    if (asked.length === 0) return questions;
+
+    const fresh = questions.filter((q) => !questionSimilarity.isNearDuplicate(q.question, asked));
+    if (fresh.length < questions.length) {
+      logger.debug({ dropped: questions.length - fresh.length }, 'Repeated questions filtered');
+    }
+    return fresh;
+  }
+
+  /**
+   * Unused curated questions; an unreachable bank is treated as empty
+   */
+  private async getBankQuestions(
+    role: string,
+    skills: string[],
+    difficulty: 'basic' | 'intermediate' | 'advanced',
+    count: number,
+    steering: QuestionSteering
+  ): Promise<InterviewQuestion[]> {
+    if (!isQuestionBankAvailable() || (steering.language ?? DEFAULT_INTERVIEW_LANGUAGE) !== DEFAULT_INTERVIEW_LANGUAGE) {
+      return [];
+    }
+
+    try {
+      const entries = await getQuestionBankService().getQuestions({
+        role,
+        difficulty,
+        skills,
+        focusSkills: steering.focusSkills,
+        excludeQuestions: steering.excludeQuestions,
+        excludeCategories: steering.excludeCategories,
+        questionType: steering.questionType,
+        count,
+      });
+
+      if (entries.length > 0) {
+        logger.info({ role, difficulty, count: entries.length }, 'Questions drawn from question bank');
+      }
+
+      return entries.map((entry) => ({
+        id: entry.id,
+        question: entry.question,
+        category: entry.skill,
+        difficulty,
+        type: entry.type,
+        source: 'Question Bank',
+        referenceAnswer: entry.referenceAnswer,
+        ...(entry.challenge ? { challenge: entry.challenge } : {}),
+      }));
+    } catch (error) {
+      logger.warn({ error }, 'Question bank unavailable, falling back to LLM');
+      return [];
+    }
+  }
+
   /**
    * Get random question from fetched questions
    */
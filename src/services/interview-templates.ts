@@ -0,0 +1,70 @@
+/**
+ * @file services/interview-templates.ts
+ * @description Interview templates: question count, type/category mix,
+ * per-question time limits and whether the intro is asked
+ * Definitions live in INTERVIEW_TEMPLATES (utils/constants.ts)
+ */
+
+import { createLogger } from '../utils/logger';
+import { DEFAULT_INTERVIEW_TEMPLATE_ID, INTERVIEW_TEMPLATES } from '../utils/constants';
+import { companyTracks } from './company-tracks';
+import { questionSets } from './question-sets';
+import type { InterviewSession, InterviewTemplate, InterviewTemplateSlot } from '../types';
+import type { QuestionPlan } from './adaptive-difficulty';
+
+const logger = createLogger('interview-templates');
+
+export const interviewTemplates = {
+  /**
+   * Template by id; unknown or missing ids fall back to the default
+   */
+  get(id?: string): InterviewTemplate {
+    const template = INTERVIEW_TEMPLATES.find((t) => t.id === id);
+    if (!template && id) {
+      logger.warn({ id }, 'Unknown interview template, using default');
+    }
+    return template ?? INTERVIEW_TEMPLATES.find((t) => t.id === DEFAULT_INTERVIEW_TEMPLATE_ID)!;
+  },
+
+  /**
+   * Template a session runs: the interviewer question set or company track
+   * it followed, otherwise the template it recorded
+   */
+  forSession(session: Pick<InterviewSession, 'templateId' | 'companyTrack' | 'questionSet'>): InterviewTemplate {
+    if (session.questionSet) return questionSets.toTemplate(session.questionSet);
+    return session.companyTrack ? companyTracks.toTemplate(session.companyTrack) : this.get(session.templateId);
+  },
+
+  /**
+   * Main questions in a session, intro included (follow-ups are not counted)
+   */
+  getQuestionCount(template: InterviewTemplate): number {
+    return template.questions.length + (template.includeIntro ? 1 : 0);
+  },
+
+  /**
+   * Slot for the question at `questionIndex` in the session. Undefined for
+   * the intro and past the end of the template.
+   */
+  getSlot(template: InterviewTemplate, questionIndex: number): InterviewTemplateSlot | undefined {
+    return template.questions[questionIndex - (template.includeIntro ? 1 : 0)];
+  },
+
+  /**
+   * Narrow an adaptive plan to a template slot: the slot's type is requested
+   * and its category, when set, replaces the adaptive focus
+   */
+  applySlot(plan: QuestionPlan, slot: InterviewTemplateSlot): QuestionPlan {
+    if (!slot.category) {
+      return { ...plan, questionType: slot.type };
+    }
+
+    const category = slot.category.toLowerCase();
+    return {
+      ...plan,
+      questionType: slot.type,
+      focusSkills: [slot.category],
+      excludeCategories: plan.excludeCategories.filter((c) => c.toLowerCase() !== category),
+    };
+  },
+};
@@ -17,6 +17,8 @@ import {
 } from 'firebase/firestore';
 import { createLogger } from '../utils/logger';
 import { FIRESTORE_PATHS } from '../utils/constants';
+import { companyTracks } from './company-tracks';
+import type { CompanyTrack } from '../types';
 
 const logger = createLogger('interviewer-service');
 
@@ -33,7 +35,8 @@ export interface InterviewerWithProfile {
     yearsOfExperience: number;
     specializations: string[];
     bio: string;
-    company?: string;
+    companyName?: string; // Saved by setup
+    company?: string; // Older profiles
     title?: string;
     linkedIn?: string;
     hourlyRate?: number;
@@ -44,8 +47,12 @@ export interface InterviewerWithProfile {
   };
 }
 
+export const getInterviewerCompany = (interviewer: InterviewerWithProfile): string | undefined =>
+  interviewer.interviewerProfile.companyName || interviewer.interviewerProfile.company;
+
 export interface InterviewerFilters {
   specializations?: string[];
+  companyTrack?: CompanyTrack; // Only interviewers who have been at the track's company
   minExperience?: number;
   minRating?: number;
   maxHourlyRate?: number;
@@ -353,6 +360,13 @@ export class InterviewerService {
       });
     }
 
+    // Filter by company (track company or one of its aliases)
+    if (filters.companyTrack) {
+      filtered = filtered.filter((interviewer) =>
+        companyTracks.matchesCompany(filters.companyTrack!, getInterviewerCompany(interviewer))
+      );
+    }
+
     // Filter by minimum experience
     if (filters.minExperience !== undefined) {
       filtered = filtered.filter(
@@ -0,0 +1,147 @@
+/**
+ * @file services/job-description.ts
+ * @description Job-description-targeted interviews
+ * A pasted or uploaded posting is parsed by the active LLM provider into
+ * required skills, seniority and responsibilities. Sessions aimed at it keep
+ * a copy, so progress can be tracked per target job.
+ */
+
+import { createLogger } from '../utils/logger';
+import { AppError } from '../utils/error-handler';
+import { ERROR_CODES, JOB_DESCRIPTION_MAX_LENGTH } from '../utils/constants';
+import { getLLMProvider } from './llm-provider';
+import type {
+  InterviewSession,
+  JobRequirements,
+  JobSeniority,
+  QuestionDifficulty,
+  TargetJob,
+} from '../types';
+
+const logger = createLogger('job-description');
+
+const MIN_DESCRIPTION_LENGTH = 50;
+const MAX_INTERVIEW_SKILLS = 20; // Same cap as the profile's skills
+
+const STARTING_DIFFICULTY: Record<JobSeniority, QuestionDifficulty> = {
+  entry: 'basic',
+  mid: 'intermediate',
+  senior: 'advanced',
+  lead: 'advanced',
+};
+
+export interface TargetJobProgress {
+  job: TargetJob;
+  sessions: number;
+  latestScore: number;
+  bestScore: number;
+  averageScore: number;
+  trend: number; // Latest score minus the first one
+  lastPracticed: Date;
+}
+
+/**
+ * Stable id for a posting: whitespace and case do not matter
+ */
+const getJobId = (description: string): string => {
+  const normalized = description.toLowerCase().replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `job-${(hash >>> 0).toString(36)}`;
+};
+
+export const jobDescriptionService = {
+  /**
+   * Parse a job description into a target job
+   */
+  async analyze(description: string): Promise<TargetJob> {
+    const text = description.trim().slice(0, JOB_DESCRIPTION_MAX_LENGTH);
+    if (text.length < MIN_DESCRIPTION_LENGTH) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Job description is too short (at least ${MIN_DESCRIPTION_LENGTH} characters)`
+      );
+    }
+
+    try {
+      const requirements = await getLLMProvider().parseJobDescription(text);
+      logger.info(
+        { title: requirements.title, seniority: requirements.seniority, skills: requirements.requiredSkills.length },
+        'Job description parsed'
+      );
+      return { id: getJobId(text), description: text, requirements };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      logger.error({ error }, 'Failed to parse job description');
+      throw new AppError(ERROR_CODES.API_ERROR, 'Failed to analyze job description', undefined, error);
+    }
+  },
+
+  /**
+   * Interview skills for a posting: its required skills first, so the
+   * adaptive engine probes them before the candidate's own
+   */
+  getInterviewSkills(requirements: JobRequirements, profileSkills: string[]): string[] {
+    const seen = new Set<string>();
+    return [...requirements.requiredSkills, ...profileSkills]
+      .filter((skill) => {
+        const key = skill.trim().toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_INTERVIEW_SKILLS);
+  },
+
+  getStartingDifficulty(requirements: JobRequirements): QuestionDifficulty {
+    return STARTING_DIFFICULTY[requirements.seniority];
+  },
+
+  /**
+   * Compact summary of the posting for question generation prompts
+   */
+  toPromptContext(requirements: JobRequirements): string {
+    return [
+      `Title: ${requirements.title}${requirements.company ? ` at ${requirements.company}` : ''}`,
+      `Seniority: ${requirements.seniority}`,
+      requirements.requiredSkills.length > 0 ? `Required skills: ${requirements.requiredSkills.join(', ')}` : '',
+      requirements.responsibilities.length > 0
+        ? `Responsibilities:\n${requirements.responsibilities.map((r) => `- ${r}`).join('\n')}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  },
+
+  /**
+   * Completed sessions grouped by target job, most recently practiced first
+   */
+  getProgress(sessions: InterviewSession[]): TargetJobProgress[] {
+    const byJob = new Map<string, InterviewSession[]>();
+    for (const session of sessions) {
+      if (session.status !== 'completed' || !session.targetJob) continue;
+      byJob.set(session.targetJob.id, [...(byJob.get(session.targetJob.id) || []), session]);
+    }
+
+    return [...byJob.values()]
+      .map((jobSessions) => {
+        const ordered = [...jobSessions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        const scores = ordered.map((s) => s.score);
+        const latest = ordered[ordered.length - 1];
+        return {
+          job: latest.targetJob!,
+          sessions: ordered.length,
+          latestScore: latest.score,
+          bestScore: Math.max(...scores),
+          averageScore: parseFloat((scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1)),
+          trend: parseFloat((latest.score - scores[0]).toFixed(1)),
+          lastPracticed: new Date(latest.date),
+        };
+      })
+      .sort((a, b) => b.lastPracticed.getTime() - a.lastPracticed.getTime());
+  },
+};
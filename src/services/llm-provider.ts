@@ -0,0 +1,172 @@
+/**
+ * @file services/llm-provider.ts
+ * @description Provider abstraction for question generation and answer evaluation
+ * Backends: Gemini (network) and a local deterministic provider (offline)
+ */
+
+import { createLogger } from '../utils/logger';
+import type {
+  AnswerFlag,
+  CodeLanguage,
+  CodingChallenge,
+  GeminiEvaluationResponse,
+  HintLevel,
+  InterviewLanguage,
+  InterviewPersona,
+  JobRequirements,
+  QuestionDifficulty,
+  QuestionType,
+} from '../types';
+import { GeminiProvider, getAiBackendUrl } from './gemini-provider';
+import { LocalProvider } from './local-provider';
+
+const logger = createLogger('llm-provider');
+
+export type LLMProviderName = 'gemini' | 'local';
+
+export interface QuestionGenerationRequest {
+  role: string;
+  skills: string[];
+  difficulty: QuestionDifficulty;
+  count: number;
+  focusSkills?: string[]; // Skills to target first (e.g. weak or not yet covered)
+  excludeCategories?: string[]; // Categories already asked in this session
+  excludeQuestions?: string[]; // Questions the candidate has already been asked, most recent first
+  questionType?: QuestionType; // Requested question type (interview template slot)
+  experienceSummary?: string; // Resume-derived context
+  jobContext?: string; // Target job posting summary (see services/job-description.ts)
+  companyContext?: string; // Company track style and topics (see services/company-tracks.ts)
+  language?: InterviewLanguage; // Language to write the questions in (default English)
+  persona?: InterviewPersona; // Interviewer style to phrase the questions in (default neutral screener)
+}
+
+export interface GeneratedQuestion {
+  question: string;
+  category: string;
+  type: QuestionType;
+  source: string;
+  challenge?: CodingChallenge; // Coding questions only
+}
+
+export interface AnswerEvaluationRequest {
+  skills: string[];
+  question: string;
+  answer: string;
+  questionType: QuestionType;
+  challengeId?: string; // Coding answers: the backend runs the answer against this challenge's tests
+  codeLanguage?: CodeLanguage; // Language of the coding answer
+  referenceAnswer?: string; // Question set author's answer to grade against
+  language?: InterviewLanguage; // Language to write the feedback in
+  priorAnswers?: string[]; // Earlier answers in the question's thread, for the answer guard
+  sessionId?: string; // Logged with flagged answers
+}
+
+export interface EvaluationSamples {
+  samples: GeminiEvaluationResponse[]; // Empty when the answer was not graded
+  flags: AnswerFlag[]; // The answer guard's, raised while evaluating
+}
+
+export interface FollowUpRequest {
+  skills: string[];
+  question: string;
+  answer: string;
+  feedback: string;
+  previousFollowUps: { question: string; answer: string }[];
+  language?: InterviewLanguage;
+  persona?: InterviewPersona;
+}
+
+export interface ModelAnswerRequest {
+  skills: string[];
+  question: string;
+  questionType: QuestionType;
+  referenceAnswer?: string; // Curated answer: kept as is, only key concepts are extracted
+  language?: InterviewLanguage;
+}
+
+export interface GeneratedModelAnswer {
+  answer: string;
+  keyConcepts: string[];
+}
+
+export interface HintRequest {
+  skills: string[];
+  question: string;
+  questionType: QuestionType;
+  level: HintLevel;
+  previousHints: string[]; // Hints already given on this prompt, lowest tier first
+  answer?: string; // The candidate's draft so far
+  language?: InterviewLanguage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generateQuestions(request: QuestionGenerationRequest): Promise<GeneratedQuestion[]>;
+  /**
+   * Resolves with one or more independent gradings (samples) of the answer,
+   * all from a single request, and the answer guard's flags. Providers that
+   * stream report the first sample's feedback text received so far through
+   * `onFeedback`; the resolved samples are always complete. A provider that
+   * runs coding answers attaches the run to every sample as `codeExecution`.
+   */
+  evaluateAnswer(
+    request: AnswerEvaluationRequest,
+    onFeedback?: (feedback: string) => void
+  ): Promise<EvaluationSamples>;
+  generateFollowUp(request: FollowUpRequest): Promise<string>;
+  generateModelAnswer(request: ModelAnswerRequest): Promise<GeneratedModelAnswer>;
+  generateHint(request: HintRequest): Promise<string>;
+  /**
+   * Curated texts (behavioral prompts, company track questions) in the
+   * interview language, in the same order
+   */
+  translate(texts: string[], language: InterviewLanguage): Promise<string[]>;
+  parseJobDescription(description: string): Promise<JobRequirements>;
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Resolve the provider from VITE_LLM_PROVIDER.
+ * Without an explicit setting, Gemini (through the backend proxy) is used when
+ * a backend is configured, otherwise the local provider so the interview flow
+ * still works offline.
+ */
+const resolveProviderName = (): LLMProviderName => {
+  const configured = import.meta.env.VITE_LLM_PROVIDER as string | undefined;
+
+  if (configured === 'gemini' || configured === 'local') {
+    return configured;
+  }
+
+  if (configured) {
+    logger.warn({ configured }, 'Unknown LLM provider configured, falling back to auto-detection');
+  }
+
+  return getAiBackendUrl() ? 'gemini' : 'local';
+};
+
+export const createLLMProvider = (name: LLMProviderName): LLMProvider => {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'local':
+      return new LocalProvider();
+  }
+};
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(resolveProviderName());
+    logger.info({ provider: activeProvider.name }, 'LLM provider initialized');
+  }
+  return activeProvider;
+};
+
+/**
+ * Override the active provider (demos, tests, dev tooling)
+ */
+export const setLLMProvider = (provider: LLMProvider): void => {
+  activeProvider = provider;
+  logger.info({ provider: provider.name }, 'LLM provider overridden');
+};
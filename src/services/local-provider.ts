@@ -0,0 +1,444 @@
+/**
+ * @file services/local-provider.ts
+ * @description Offline, deterministic LLM provider backed by fixtures
+ * Same inputs always produce the same questions and scores, so the full
+ * interview flow can run in dev, demos and tests without network access
+ */
+
+import { createLogger } from '../utils/logger';
+import { validateEvaluation } from '../utils/validation';
+import { TECH_SKILL_KEYWORDS } from '../utils/constants';
+import type {
+  CodingChallenge,
+  HintLevel,
+  InterviewLanguage,
+  JobRequirements,
+  JobSeniority,
+  QuestionDifficulty,
+  QuestionType,
+  RubricScore,
+} from '../types';
+import type {
+  LLMProvider,
+  QuestionGenerationRequest,
+  GeneratedQuestion,
+  AnswerEvaluationRequest,
+  EvaluationSamples,
+  FollowUpRequest,
+  ModelAnswerRequest,
+  GeneratedModelAnswer,
+  HintRequest,
+} from './llm-provider';
+
+const logger = createLogger('local-provider');
+
+interface QuestionFixture {
+  template: string; // {skill} and {role} are substituted
+  category: string; // {skill} is substituted
+  type: QuestionType;
+  challenge?: CodingChallenge; // No backend challenge offline, so answers are graded on their text
+}
+
+const QUESTION_FIXTURES: Record<QuestionDifficulty, QuestionFixture[]> = {
+  basic: [
+    { template: 'What are the core concepts of {skill}, and how have you used them in a {role} position?', category: '{skill}', type: 'conceptual' },
+    { template: 'Explain the difference between synchronous and asynchronous code in {skill}. When would you choose each?', category: '{skill}', type: 'conceptual' },
+    {
+      template: 'Write a function `reverseString(s)` that reverses a string without using built-in reverse helpers.',
+      category: 'Algorithms',
+      type: 'coding',
+      challenge: { functionName: 'reverseString' },
+    },
+    { template: 'How do you debug a problem in {skill} that only happens in production?', category: 'Debugging', type: 'conceptual' },
+    { template: 'What version control workflow do you follow as a {role}, and why?', category: 'Tooling', type: 'conceptual' },
+    {
+      template: 'Write a function `firstUniqueChar(s)` that returns the first non-repeating character in a string, or null if there is none.',
+      category: 'Algorithms',
+      type: 'coding',
+      challenge: { functionName: 'firstUniqueChar' },
+    },
+  ],
+  intermediate: [
+    { template: 'How would you structure tests for a feature built with {skill}? What would you unit test versus integration test?', category: 'Testing', type: 'conceptual' },
+    { template: 'Describe a performance bottleneck you have found in {skill} code and how you measured and fixed it.', category: 'Performance', type: 'conceptual' },
+    {
+      template: 'Write a function `mergeSorted(a, b)` that merges two sorted arrays into one sorted array in linear time.',
+      category: 'Algorithms',
+      type: 'coding',
+      challenge: { functionName: 'mergeSorted' },
+    },
+    { template: 'How do you handle errors and retries when {skill} code calls an unreliable external API?', category: 'Error Handling', type: 'conceptual' },
+    { template: 'Design a simple caching layer for a read-heavy {role} workload. What would you cache and how would you invalidate it?', category: 'Caching', type: 'design' },
+    {
+      template: 'Write a function `groupBy(items, key)` that groups an array of objects by the value of `key`. Where does this come up in {skill} code?',
+      category: '{skill}',
+      type: 'coding',
+      challenge: { functionName: 'groupBy' },
+    },
+  ],
+  advanced: [
+    { template: 'Design a URL shortening service. Cover the data model, scaling and failure modes.', category: 'System Design', type: 'design' },
+    { template: 'How would you migrate a large {skill} codebase to a new architecture without stopping feature work?', category: 'Architecture', type: 'conceptual' },
+    {
+      template: 'Implement `lruCache(capacity, operations)`: an LRU cache with O(1) get and put, where each operation is ["put", key, value] or ["get", key]. Return the results of the get operations (-1 when missing).',
+      category: 'Data Structures',
+      type: 'coding',
+      challenge: { functionName: 'lruCache' },
+    },
+    { template: 'Design a real-time notification system for millions of users. How do you guarantee delivery?', category: 'System Design', type: 'design' },
+    { template: 'What trade-offs do you weigh between consistency and availability in a distributed {role} system?', category: 'Distributed Systems', type: 'conceptual' },
+    { template: 'Design the observability strategy (logs, metrics, traces) for a service built with {skill}.', category: 'Observability', type: 'design' },
+  ],
+};
+
+const FOLLOW_UP_TEMPLATES = [
+  'You mentioned "{term}". Can you walk me through a concrete example of how you applied it?',
+  'What trade-offs did you consider around "{term}", and what would you do differently next time?',
+  'How would you verify that your approach to "{term}" actually works? What would you measure?',
+];
+
+const MODEL_ANSWER_TEMPLATES: Record<QuestionType, { answer: string; concepts: string[] }> = {
+  conceptual: {
+    answer: 'Start with a one-sentence definition of {terms}. Explain how it works and why it matters, then give a concrete example from a real project where you applied it. Close with the trade-offs and when you would choose an alternative.',
+    concepts: ['concrete example', 'trade-offs'],
+  },
+  coding: {
+    answer: 'Restate the problem and its edge cases (empty input, duplicates, large input) first. Walk through a straightforward approach, then the optimized one for {terms}, and state its time complexity and space use. Write the function, then test it against the edge cases out loud.',
+    concepts: ['edge cases', 'time complexity'],
+  },
+  design: {
+    answer: 'Clarify the requirements and the expected scale first. Sketch the main components for {terms}, the data model and the API. Then cover scaling, caching and failure modes, and finish with the trade-offs you made.',
+    concepts: ['requirements', 'scaling', 'failure modes'],
+  },
+  behavioral: {
+    answer: 'Situation: set the scene in one or two sentences. Task: state what you were responsible for. Action: walk through the specific steps you personally took on {terms}. Result: close with a measurable outcome and what you learned.',
+    concepts: ['situation', 'specific actions', 'measurable outcome'],
+  },
+};
+
+const HINT_TEMPLATES: Record<HintLevel, Record<QuestionType, string>> = {
+  nudge: {
+    conceptual: 'Start from what "{term}" is for: what problem does it solve, and what would go wrong without it?',
+    coding: 'Before writing code, work through a small example of "{term}" by hand. What are you recomputing or searching for again and again?',
+    design: 'Pin down the requirements for "{term}" first: who uses it, how much traffic it gets and what must never be lost.',
+    behavioral: 'Pick one concrete situation involving "{term}" and start with where you were and what was at stake.',
+  },
+  approach: {
+    conceptual: 'Structure your answer as a one-sentence definition of "{term}", how it works, an example from a real project and its trade-offs.',
+    coding: 'Think about a hash map, a set or two pointers for "{term}": can a single pass with the right lookup structure replace nested loops?',
+    design: 'Sketch the clients, an API layer, a data store and a cache for "{term}", then decide which part has to scale first.',
+    behavioral: 'Use STAR: the Situation, your Task, the Actions you personally took on "{term}" and a measurable Result.',
+  },
+  partial: {
+    conceptual: 'Open with "{term} is ... and it exists because ...". Then walk through how it works step by step, and finish with one example and one trade-off of your own.',
+    coding: 'Skeleton: return early for empty or single-element input. Then loop over the input once, keeping what you have seen for "{term}" in a map or set, and return as soon as the condition holds. What goes in the check inside the loop is up to you.',
+    design: 'Start here: clients call stateless API servers behind a load balancer; writes for "{term}" go to a primary database and reads are served from a cache. Now explain how you would partition the data and what happens when a server or the cache fails.',
+    behavioral: 'Open with "In my last role we were ... and I was responsible for ...". Then give two or three steps you took on "{term}" and finish with a number that shows the result.',
+  },
+};
+
+const MODEL_ANSWER_TERMS = 3; // Question keywords named in a templated model answer
+const REFERENCE_CONCEPTS = 6; // Keywords taken from a curated reference answer
+const PROMPT_WORDS = new Set(['explain', 'describe', 'tell', 'walk', 'design', 'write', 'implement', 'function', 'could']);
+
+const RESPONSIBILITY_HEADING = /^(responsibilities|what you('|’)?ll do|what you will do|your role|the role|duties|day to day)/i;
+const OTHER_HEADING = /^(requirements|qualifications|what you('|’)?ll bring|skills|about (us|you)|benefits|nice to have|preferred)/i;
+const BULLET = /^(?:[-*•·▪]|\d+[.)])\s+/;
+const MAX_RESPONSIBILITIES = 8;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'what', 'how', 'when', 'why', 'would',
+  'are', 'this', 'that', 'have', 'from', 'into', 'each', 'which', 'does', 'between',
+]);
+
+/**
+ * Stable 32-bit string hash (FNV-1a) used for deterministic selection
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const keywords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+
+  async generateQuestions({
+    role,
+    skills,
+    difficulty,
+    count,
+    focusSkills = [],
+    excludeCategories = [],
+    questionType,
+  }: QuestionGenerationRequest): Promise<GeneratedQuestion[]> {
+    const fixtures = QUESTION_FIXTURES[difficulty];
+    const seed = hashString(`${role}|${skills.join(',')}|${difficulty}`);
+    // Focus skills take the first slots so weak areas are probed first
+    const skillPool = [...new Set([...focusSkills, ...skills])];
+    const excluded = new Set(excludeCategories.map((category) => category.toLowerCase()));
+
+    let skillSlot = focusSkills.length > 0 ? 0 : seed;
+    const candidates: GeneratedQuestion[] = fixtures
+      .map((_, i) => fixtures[(seed + i) % fixtures.length])
+      .map((fixture) => {
+        const usesSkill = /\{skill\}/.test(fixture.template + fixture.category);
+        const skill =
+          skillPool.length > 0 ? skillPool[skillSlot % skillPool.length] : role;
+        if (usesSkill) skillSlot++;
+
+        return {
+          question: fixture.template.replace(/\{skill\}/g, skill).replace(/\{role\}/g, role),
+          category: fixture.category.replace(/\{skill\}/g, skill),
+          type: fixture.type,
+          source: 'Local Fixture',
+          ...(fixture.challenge ? { challenge: fixture.challenge } : {}),
+        };
+      });
+
+    // Requested type first (fixtures may not cover it at every difficulty)
+    const typed = questionType ? candidates.filter((q) => q.type === questionType) : candidates;
+    const pool = typed.length > 0 ? typed : candidates;
+    const fresh = pool.filter((q) => !excluded.has(q.category.toLowerCase()));
+    const questions = (fresh.length > 0 ? fresh : pool).slice(0, count);
+
+    logger.debug({ role, difficulty, count: questions.length }, 'Local questions generated');
+    return questions;
+  }
+
+  /**
+   * Heuristic grading: length, coverage of the question's keywords,
+   * mention of the candidate's skills and presence of concrete examples
+   */
+  async evaluateAnswer({
+    skills,
+    question,
+    answer,
+  }: AnswerEvaluationRequest): Promise<EvaluationSamples> {
+    const answerWords = keywords(answer);
+    const answerSet = new Set(answerWords);
+    const questionWords = Array.from(new Set(keywords(question)));
+    const coverage =
+      questionWords.length > 0
+        ? questionWords.filter((word) => answerSet.has(word)).length / questionWords.length
+        : 0;
+    const mentionsSkill = skills.some((skill) => answer.toLowerCase().includes(skill.toLowerCase()));
+    const hasExample = /\b(for example|for instance|e\.g\.|in my last|at my previous|we built|i built)\b/i.test(answer);
+
+    let score = 1;
+    if (answerWords.length >= 20) score++;
+    if (answerWords.length >= 60) score++;
+    if (coverage >= 0.3) score++;
+    if (mentionsSkill || hasExample) score++;
+    score = Math.min(score, 5);
+
+    const strengths: string[] = [];
+    const weaknesses: string[] = [];
+    (answerWords.length >= 60 ? strengths : weaknesses).push(
+      answerWords.length >= 60 ? 'the answer is detailed' : 'the answer is brief'
+    );
+    (coverage >= 0.3 ? strengths : weaknesses).push(
+      coverage >= 0.3 ? 'it addresses the key terms of the question' : 'it misses key terms from the question'
+    );
+    (hasExample ? strengths : weaknesses).push(
+      hasExample ? 'it includes a concrete example' : 'it lacks a concrete example'
+    );
+
+    const feedback = [
+      strengths.length > 0 ? `Strengths: ${strengths.join(', ')}.` : '',
+      weaknesses.length > 0 ? `Weaknesses: ${weaknesses.join(', ')}.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const improvementSuggestions = [
+      'Start with a one-sentence summary of your answer before the details.',
+      hasExample
+        ? 'Quantify the outcome of your example (latency, cost, users affected).'
+        : 'Back up your answer with a concrete example from your own experience.',
+      coverage >= 0.3
+        ? 'Discuss trade-offs and alternatives you considered.'
+        : 'Address every part of the question explicitly.',
+      mentionsSkill
+        ? 'Mention edge cases and how you would test them.'
+        : `Connect your answer to the technologies you know (${skills.slice(0, 3).join(', ') || 'your core stack'}).`,
+    ];
+
+    const sentences = answer.split(/[.!?]+/).filter((part) => part.trim().length > 0);
+    const wordsPerSentence = sentences.length > 0 ? answer.split(/\s+/).length / sentences.length : 0;
+    const isStructured = /\b(first|second|then|next|finally|in summary|overall)\b/i.test(answer);
+    const weighsOptions = /\b(trade-?offs?|because|instead|alternative|approach|depends)\b/i.test(answer);
+
+    const rubric: RubricScore[] = [
+      {
+        dimension: 'technicalAccuracy',
+        score: 1 + Math.round(Math.min(coverage, 1) * 3) + (mentionsSkill ? 1 : 0),
+        justification: `Covers ${Math.round(coverage * 100)}% of the question's key terms${mentionsSkill ? ' and ties in your skills' : ''}.`,
+      },
+      {
+        dimension: 'depth',
+        score: 1 + (answerWords.length >= 20 ? 1 : 0) + (answerWords.length >= 60 ? 1 : 0) + (hasExample ? 2 : 0),
+        justification: hasExample ? 'Backed by a concrete example.' : 'No concrete example to show depth.',
+      },
+      {
+        dimension: 'communication',
+        score: answerWords.length < 10 ? 1 : wordsPerSentence >= 8 && wordsPerSentence <= 30 ? 4 : 3,
+        justification:
+          wordsPerSentence > 30 ? 'Long, run-on sentences make it harder to follow.' : 'Sentences are easy to follow.',
+      },
+      {
+        dimension: 'structure',
+        score: isStructured ? 4 : sentences.length >= 3 ? 3 : 2,
+        justification: isStructured ? 'Steps are clearly ordered.' : 'No clear ordering of points.',
+      },
+      {
+        dimension: 'problemSolving',
+        score: 2 + (weighsOptions ? 2 : 0) + (hasExample ? 1 : 0),
+        justification: weighsOptions ? 'Reasons about approaches and trade-offs.' : 'Does not weigh alternatives or trade-offs.',
+      },
+    ];
+
+    logger.debug({ score, coverage }, 'Local evaluation complete');
+    // Deterministic, so a single sample: more would only repeat it. With no
+    // backend there is no answer guard either.
+    return { samples: [validateEvaluation({ score, feedback, improvementSuggestions, rubric })], flags: [] };
+  }
+
+  /**
+   * Probe the most specific term in the answer (longest keyword), falling
+   * back to the question's own keywords when the answer has none
+   */
+  async generateFollowUp({
+    question,
+    answer,
+    previousFollowUps,
+  }: FollowUpRequest): Promise<string> {
+    const terms = keywords(answer).length > 0 ? keywords(answer) : keywords(question);
+    const term =
+      [...terms].sort((a, b) => b.length - a.length || a.localeCompare(b))[0] || 'your approach';
+    const template = FOLLOW_UP_TEMPLATES[previousFollowUps.length % FOLLOW_UP_TEMPLATES.length];
+
+    return template.replace('{term}', term);
+  }
+
+  /**
+   * Curated answers keep their text and yield their most frequent keywords;
+   * otherwise a per-type answer outline names the question's key terms
+   */
+  async generateModelAnswer({
+    question,
+    questionType,
+    referenceAnswer,
+  }: ModelAnswerRequest): Promise<GeneratedModelAnswer> {
+    // Most frequent terms first; plural and inflected forms count as one
+    const topTerms = (text: string, count: number): string[] => {
+      const forms = new Map<string, { word: string; count: number }>();
+      for (const word of keywords(text).map((w) => w.replace(/\.+$/, ''))) {
+        if (word.length <= 2 || PROMPT_WORDS.has(word)) continue;
+        const stem = word.replace(/(ing|ed|s)$/, '').replace(/e$/, '');
+        const entry = forms.get(stem);
+        forms.set(stem, { word: entry?.word ?? word, count: (entry?.count ?? 0) + 1 });
+      }
+      return [...forms.values()]
+        .sort((a, b) => b.count - a.count || b.word.length - a.word.length || a.word.localeCompare(b.word))
+        .slice(0, count)
+        .map(({ word }) => word);
+    };
+
+    if (referenceAnswer) {
+      return { answer: referenceAnswer, keyConcepts: topTerms(referenceAnswer, REFERENCE_CONCEPTS) };
+    }
+
+    const { answer, concepts } = MODEL_ANSWER_TEMPLATES[questionType];
+    const terms = topTerms(question, MODEL_ANSWER_TERMS);
+
+    return {
+      answer: answer.replace('{terms}', terms.join(', ') || 'the core idea'),
+      keyConcepts: [...terms, ...concepts],
+    };
+  }
+
+  /**
+   * Per-type hint at the requested tier, built around the question's most
+   * specific term
+   */
+  async generateHint({ question, questionType, level }: HintRequest): Promise<string> {
+    const term =
+      keywords(question)
+        .map((word) => word.replace(/\.+$/, ''))
+        .filter((word) => !PROMPT_WORDS.has(word))
+        .sort((a, b) => b.length - a.length || a.localeCompare(b))[0] || 'the problem';
+
+    return HINT_TEMPLATES[level][questionType].replace('{term}', term);
+  }
+
+  /**
+   * Fixtures and templates are English only, so texts are returned as is
+   */
+  async translate(texts: string[], language: InterviewLanguage): Promise<string[]> {
+    logger.debug({ language, count: texts.length }, 'Local provider does not translate');
+    return texts;
+  }
+
+  /**
+   * Keyword scan: title from a "Title:" line or the first line, seniority
+   * from the title and required years, skills from TECH_SKILL_KEYWORDS and
+   * responsibilities from the bullets under a responsibilities heading
+   * (any bullets when there is none)
+   */
+  async parseJobDescription(description: string): Promise<JobRequirements> {
+    const lines = description.split('\n').map((line) => line.trim()).filter(Boolean);
+    const labeledTitle = /^(?:job title|title|position|role)\s*:\s*(.+)$/im.exec(description)?.[1];
+    const title = (labeledTitle || lines[0] || 'Untitled role').trim().slice(0, 100);
+    const company = /^company\s*:\s*(.+)$/im.exec(description)?.[1]?.trim();
+
+    const years = Math.max(
+      0,
+      ...(description.match(/(\d+)\+?\s*(?:years?|yrs?)/gi) || []).map((match) => parseInt(match, 10))
+    );
+    const seniority: JobSeniority = /\b(lead|principal|staff|head of)\b/i.test(title)
+      ? 'lead'
+      : /\b(senior|sr\.?)\b/i.test(title) || years >= 5
+        ? 'senior'
+        : /\b(junior|jr\.?|entry|graduate|intern)\b/i.test(title) || (years > 0 && years <= 1)
+          ? 'entry'
+          : 'mid';
+
+    const lower = description.toLowerCase();
+    const requiredSkills = TECH_SKILL_KEYWORDS.filter((skill) =>
+      new RegExp(`(^|[^a-z])${skill.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}($|[^a-z])`).test(lower)
+    ).map((skill) => skill.charAt(0).toUpperCase() + skill.slice(1));
+
+    let inResponsibilities = false;
+    const listed: string[] = [];
+    const bullets: string[] = [];
+    for (const line of lines) {
+      if (!BULLET.test(line)) {
+        if (RESPONSIBILITY_HEADING.test(line)) inResponsibilities = true;
+        else if (OTHER_HEADING.test(line)) inResponsibilities = false;
+        continue;
+      }
+      const item = line.replace(BULLET, '').slice(0, 140);
+      bullets.push(item);
+      if (inResponsibilities) listed.push(item);
+    }
+
+    logger.debug({ title, seniority, skills: requiredSkills.length }, 'Local job description parsed');
+    return {
+      title,
+      ...(company ? { company } : {}),
+      seniority,
+      requiredSkills,
+      responsibilities: (listed.length > 0 ? listed : bullets).slice(0, MAX_RESPONSIBILITIES),
+    };
+  }
+}
@@ -32,7 +32,7 @@ export interface NotificationPreferences {
 }
 
 export interface ApplicationPreferences {
-  language: string;
+  language: string; // Also the AI interview language (see services/interview-language.ts)
   timezone: string;
   dateFormat: string;
   theme: 'light' | 'dark' | 'auto';
@@ -0,0 +1,135 @@
+/**
+ * @file services/question-bank.ts
+ * @description Curated question bank stored in Firestore
+ * The AI interview draws from the bank first and only falls back to the
+ * LLM when no unused question matches. Admins manage the bank with
+ * scripts/question-bank.mjs (JSON/CSV import and export).
+ */
+
+import { Firestore, collection, getDocs, query, where } from 'firebase/firestore';
+import { createLogger } from '../utils/logger';
+import type { QuestionBankEntry, QuestionDifficulty, QuestionType } from '../types';
+
+const logger = createLogger('question-bank');
+
+export const QUESTION_BANK_COLLECTION = 'question_bank';
+export const ANY_ROLE = 'any';
+
+export interface QuestionBankQuery {
+  role: string;
+  difficulty: QuestionDifficulty;
+  skills: string[];
+  focusSkills?: string[];
+  excludeQuestions?: string[];
+  excludeCategories?: string[];
+  questionType?: QuestionType; // Only entries of this type
+  count: number;
+}
+
+export const normalizeRole = (role: string): string => role.trim().toLowerCase();
+
+class QuestionBankService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Unused bank questions for a role and difficulty, focus skills first,
+   * then the candidate's other skills, then anything else that matches
+   */
+  async getQuestions({
+    role,
+    difficulty,
+    skills,
+    focusSkills = [],
+    excludeQuestions = [],
+    excludeCategories = [],
+    questionType,
+    count,
+  }: QuestionBankQuery): Promise<QuestionBankEntry[]> {
+    try {
+      const bankRef = collection(this.db, QUESTION_BANK_COLLECTION);
+      const q = query(
+        bankRef,
+        where('roleKey', 'in', [normalizeRole(role), ANY_ROLE]),
+        where('difficulty', '==', difficulty)
+      );
+      const snapshot = await getDocs(q);
+
+      const asked = new Set(excludeQuestions.map((text) => text.trim().toLowerCase()));
+      const askedCategories = new Set(excludeCategories.map((c) => c.toLowerCase()));
+      const entries: QuestionBankEntry[] = snapshot.docs
+        .map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            role: data.role,
+            skill: data.skill,
+            difficulty: data.difficulty,
+            type: data.type || 'conceptual',
+            question: data.question,
+            tags: data.tags || [],
+            referenceAnswer: data.referenceAnswer || '',
+            // The hidden tests are stored on the backend under the question's id
+            ...(data.challenge
+              ? {
+                  challenge: {
+                    id: docSnap.id,
+                    functionName: data.challenge.functionName,
+                    testCount: data.challenge.testCount,
+                  },
+                }
+              : {}),
+            createdAt: data.createdAt?.toDate(),
+            updatedAt: data.updatedAt?.toDate(),
+          } as QuestionBankEntry;
+        })
+        .filter(
+          (entry) =>
+            !asked.has(entry.question.trim().toLowerCase()) &&
+            !askedCategories.has(entry.skill.toLowerCase()) &&
+            (!questionType || entry.type === questionType)
+        );
+
+      const rank = (entry: QuestionBankEntry): number => {
+        const skill = entry.skill.toLowerCase();
+        if (focusSkills.some((s) => s.toLowerCase() === skill)) return 0;
+        if (skills.some((s) => s.toLowerCase() === skill)) return 1;
+        return 2;
+      };
+
+      const selected = entries.sort((a, b) => rank(a) - rank(b)).slice(0, count);
+      logger.debug({ role, difficulty, available: entries.length, selected: selected.length }, 'Bank questions selected');
+      return selected;
+    } catch (error) {
+      logger.error({ error, role, difficulty }, 'Failed to read question bank');
+      throw error;
+    }
+  }
+}
+
+let questionBankServiceInstance: QuestionBankService | null = null;
+
+export function initializeQuestionBankService(db: Firestore): QuestionBankService {
+  if (!questionBankServiceInstance) {
+    questionBankServiceInstance = new QuestionBankService(db);
+    logger.info('QuestionBankService initialized');
+  }
+  return questionBankServiceInstance;
+}
+
+export function getQuestionBankService(): QuestionBankService {
+  if (!questionBankServiceInstance) {
+    throw new Error('QuestionBankService not initialized. Call initializeQuestionBankService first.');
+  }
+  return questionBankServiceInstance;
+}
+
+/**
+ * Whether the bank can be queried (not initialized in offline/test runs)
+ */
+export function isQuestionBankAvailable(): boolean {
+  return questionBankServiceInstance !== null;
+}
@@ -0,0 +1,60 @@
+/**
+ * @file services/question-history.ts
+ * @description Candidate question history across sessions
+ * Past questions are avoided when generating new ones, except for the
+ * "repeat questions I scored poorly on" option, which asks them again
+ */
+
+import { RETRY_MAX_SCORE } from '../utils/constants';
+import { questionSimilarity } from './question-similarity';
+import type { InterviewQuestion, QuestionType } from '../types';
+
+const getThreadScore = (question: InterviewQuestion): number | undefined =>
+  question.threadScore ?? question.score;
+
+export const questionHistory = {
+  /**
+   * Poorly scored past questions, weakest first, one per near-duplicate
+   * group, stripped back to the prompt so they can be asked fresh
+   */
+  getRetryQuestions(past: InterviewQuestion[], maxCount: number): InterviewQuestion[] {
+    const weak = past
+      .filter((q) => {
+        const score = getThreadScore(q);
+        return typeof score === 'number' && score <= RETRY_MAX_SCORE;
+      })
+      .sort((a, b) => (getThreadScore(a) ?? 0) - (getThreadScore(b) ?? 0));
+
+    const selected: InterviewQuestion[] = [];
+    for (const q of weak) {
+      if (selected.length >= maxCount) break;
+      if (questionSimilarity.isNearDuplicate(q.qText, selected.map((s) => s.qText))) continue;
+
+      selected.push({
+        qText: q.qText,
+        isCoding: q.isCoding,
+        category: q.category,
+        ...(q.type ? { type: q.type } : {}),
+        ...(q.difficulty ? { difficulty: q.difficulty } : {}),
+        ...(q.challenge ? { challenge: q.challenge } : {}),
+        ...(q.modelAnswer ? { modelAnswer: q.modelAnswer } : {}),
+        isRetry: true,
+      });
+    }
+    return selected;
+  },
+
+  /**
+   * Next retry question not yet asked this session, preferring the
+   * template slot's type
+   */
+  pickRetry(
+    queue: InterviewQuestion[],
+    asked: InterviewQuestion[],
+    type?: QuestionType
+  ): InterviewQuestion | undefined {
+    const askedTexts = asked.map((q) => q.qText);
+    const remaining = queue.filter((q) => !askedTexts.includes(q.qText));
+    return remaining.find((q) => !type || q.type === type) ?? remaining[0];
+  },
+};
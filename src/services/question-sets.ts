@@ -0,0 +1,319 @@
+/**
+ * @file services/question-sets.ts
+ * @description Interviewer-authored question sets stored in Firestore
+ * Interviewers write questions with reference answers and key concepts in
+ * their dashboard and publish the set; candidates then run AI practice
+ * sessions on it. Each session is recorded as a run under the set, which
+ * feeds the author's usage stats.
+ */
+
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import type { DocumentData, Firestore } from 'firebase/firestore';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_QUESTION_SET_TIME_LIMIT, MAX_QUESTION_SET_QUESTIONS } from '../utils/constants';
+import type {
+  InterviewQuestion,
+  InterviewTemplate,
+  QuestionSet,
+  QuestionSetItem,
+  QuestionSetRun,
+  QuestionSetSnapshot,
+  QuestionSetStats,
+} from '../types';
+
+const logger = createLogger('question-sets');
+
+export const QUESTION_SETS_COLLECTION = 'question_sets';
+const RUNS_COLLECTION = 'runs';
+
+export type QuestionSetDraft = Omit<QuestionSet, 'id' | 'createdAt' | 'updatedAt'>;
+
+const fromDoc = (id: string, data: DocumentData): QuestionSet => ({
+  id,
+  interviewerId: data.interviewerId,
+  interviewerName: data.interviewerName || 'Interviewer',
+  title: data.title,
+  description: data.description || '',
+  skills: data.skills || [],
+  questions: data.questions || [],
+  gradingEmphasis: data.gradingEmphasis || {},
+  status: data.status === 'published' ? 'published' : 'draft',
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+});
+
+const byUpdated = (a: QuestionSet, b: QuestionSet): number =>
+  (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0);
+
+class QuestionSetService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Every set an interviewer wrote, drafts included, most recently edited
+   * first
+   */
+  async getInterviewerSets(interviewerId: string): Promise<QuestionSet[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(this.db, QUESTION_SETS_COLLECTION), where('interviewerId', '==', interviewerId))
+      );
+      return snapshot.docs.map((docSnap) => fromDoc(docSnap.id, docSnap.data())).sort(byUpdated);
+    } catch (error) {
+      logger.error({ error, interviewerId }, 'Failed to read interviewer question sets');
+      throw error;
+    }
+  }
+
+  /**
+   * Sets candidates can practice on, most recently edited first
+   */
+  async getPublishedSets(): Promise<QuestionSet[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(this.db, QUESTION_SETS_COLLECTION), where('status', '==', 'published'))
+      );
+      return snapshot.docs.map((docSnap) => fromDoc(docSnap.id, docSnap.data())).sort(byUpdated);
+    } catch (error) {
+      logger.error({ error }, 'Failed to read published question sets');
+      throw error;
+    }
+  }
+
+  /**
+   * Create a set, or replace an existing one when `id` is given
+   */
+  async saveSet(draft: QuestionSetDraft, id?: string): Promise<string> {
+    try {
+      if (id) {
+        await updateDoc(doc(this.db, QUESTION_SETS_COLLECTION, id), { ...draft, updatedAt: serverTimestamp() });
+        logger.info({ setId: id, status: draft.status }, 'Question set updated');
+        return id;
+      }
+
+      const ref = await addDoc(collection(this.db, QUESTION_SETS_COLLECTION), {
+        ...draft,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      logger.info({ setId: ref.id, status: draft.status }, 'Question set created');
+      return ref.id;
+    } catch (error) {
+      logger.error({ error, setId: id }, 'Failed to save question set');
+      throw error;
+    }
+  }
+
+  async deleteSet(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.db, QUESTION_SETS_COLLECTION, id));
+      logger.info({ setId: id }, 'Question set deleted');
+    } catch (error) {
+      logger.error({ error, setId: id }, 'Failed to delete question set');
+      throw error;
+    }
+  }
+
+  /**
+   * Record a candidate starting a practice session on a set
+   */
+  async startRun(setId: string, candidateId: string): Promise<string> {
+    const ref = doc(collection(this.db, QUESTION_SETS_COLLECTION, setId, RUNS_COLLECTION));
+    await setDoc(ref, { candidateId, startedAt: Timestamp.now() });
+    logger.debug({ setId, runId: ref.id }, 'Question set run started');
+    return ref.id;
+  }
+
+  async completeRun(setId: string, runId: string, score: number): Promise<void> {
+    await updateDoc(doc(this.db, QUESTION_SETS_COLLECTION, setId, RUNS_COLLECTION, runId), {
+      completedAt: Timestamp.now(),
+      score,
+    });
+    logger.debug({ setId, runId, score }, 'Question set run completed');
+  }
+
+  /**
+   * Runs on a set (readable by its author only)
+   */
+  async getRuns(setId: string): Promise<QuestionSetRun[]> {
+    try {
+      const snapshot = await getDocs(collection(this.db, QUESTION_SETS_COLLECTION, setId, RUNS_COLLECTION));
+      return snapshot.docs.map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          candidateId: data.candidateId,
+          startedAt: data.startedAt?.toDate() ?? new Date(0),
+          ...(data.completedAt ? { completedAt: data.completedAt.toDate() } : {}),
+          ...(typeof data.score === 'number' ? { score: data.score } : {}),
+        };
+      });
+    } catch (error) {
+      logger.error({ error, setId }, 'Failed to read question set runs');
+      throw error;
+    }
+  }
+}
+
+const trimList = (values: string[]): string[] => values.map((v) => v.trim()).filter(Boolean);
+
+export const questionSets = {
+  emptyQuestion(): QuestionSetItem {
+    return {
+      question: '',
+      type: 'conceptual',
+      category: '',
+      referenceAnswer: '',
+      keyConcepts: [],
+      timeLimitSeconds: DEFAULT_QUESTION_SET_TIME_LIMIT,
+    };
+  },
+
+  /**
+   * Draft as saved: text trimmed and blank skills and key concepts dropped
+   * (the editor keeps them while typing)
+   */
+  normalize(draft: QuestionSetDraft): QuestionSetDraft {
+    return {
+      ...draft,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      skills: trimList(draft.skills),
+      questions: draft.questions.map((q) => ({
+        ...q,
+        question: q.question.trim(),
+        category: q.category.trim(),
+        referenceAnswer: q.referenceAnswer.trim(),
+        keyConcepts: trimList(q.keyConcepts),
+      })),
+    };
+  },
+
+  /**
+   * Problem that keeps a set from being saved, or null when it is valid.
+   * Drafts only need a title; publishing needs complete questions.
+   */
+  validate(draft: QuestionSetDraft): string | null {
+    if (!draft.title.trim()) return 'Give the set a title.';
+    if (draft.questions.length > MAX_QUESTION_SET_QUESTIONS) {
+      return `A set can have at most ${MAX_QUESTION_SET_QUESTIONS} questions.`;
+    }
+    if (draft.status === 'draft') return null;
+
+    if (draft.questions.length === 0) return 'Add at least one question before publishing.';
+    const incomplete = draft.questions.findIndex(
+      (q) => !q.question.trim() || !q.category.trim() || !q.referenceAnswer.trim()
+    );
+    if (incomplete >= 0) {
+      return `Question ${incomplete + 1} needs its text, category and reference answer before publishing.`;
+    }
+    return null;
+  },
+
+  /**
+   * The set as an interview template: its questions in order, no intro
+   */
+  toTemplate(set: QuestionSetSnapshot): InterviewTemplate {
+    const seconds = set.questions.reduce((sum, q) => sum + q.timeLimitSeconds, 0);
+    return {
+      id: `set-${set.id}`,
+      name: `Questions by ${set.interviewerName}`,
+      description: set.title,
+      durationMinutes: Math.max(1, Math.round(seconds / 60)),
+      includeIntro: false,
+      introTimeLimitSeconds: 0,
+      questions: set.questions.map((q) => ({
+        type: q.type,
+        category: q.category,
+        timeLimitSeconds: q.timeLimitSeconds,
+      })),
+    };
+  },
+
+  toSnapshot(set: QuestionSet): QuestionSetSnapshot {
+    const { id, interviewerId, interviewerName, title, skills, questions, gradingEmphasis } = set;
+    return { id, interviewerId, interviewerName, title, skills, questions, gradingEmphasis };
+  },
+
+  /**
+   * Interview question for a set's item; its reference answer and key
+   * concepts become the model answer in the results review
+   */
+  toQuestion(set: QuestionSetSnapshot, index: number): InterviewQuestion | undefined {
+    const item = set.questions[index];
+    if (!item) return undefined;
+
+    return {
+      qText: item.question,
+      isCoding: item.type === 'coding',
+      category: item.category,
+      type: item.type,
+      timeLimitSeconds: item.timeLimitSeconds,
+      modelAnswer: { text: item.referenceAnswer, keyConcepts: item.keyConcepts, source: 'interviewer' },
+    };
+  },
+
+  /**
+   * Usage of a set from its runs
+   */
+  getStats(set: QuestionSet, runs: QuestionSetRun[]): QuestionSetStats {
+    const completed = runs.filter((run) => run.completedAt && typeof run.score === 'number');
+    const lastRunAt = runs.reduce<Date | undefined>(
+      (latest, run) => (!latest || run.startedAt > latest ? run.startedAt : latest),
+      undefined
+    );
+
+    return {
+      setId: set.id,
+      title: set.title,
+      status: set.status,
+      runs: runs.length,
+      candidates: new Set(runs.map((run) => run.candidateId)).size,
+      completed: completed.length,
+      averageScore:
+        completed.length > 0
+          ? parseFloat((completed.reduce((sum, run) => sum + run.score!, 0) / completed.length).toFixed(1))
+          : null,
+      ...(lastRunAt ? { lastRunAt } : {}),
+    };
+  },
+};
+
+let questionSetServiceInstance: QuestionSetService | null = null;
+
+export function initializeQuestionSetService(db: Firestore): QuestionSetService {
+  if (!questionSetServiceInstance) {
+    questionSetServiceInstance = new QuestionSetService(db);
+    logger.info('QuestionSetService initialized');
+  }
+  return questionSetServiceInstance;
+}
+
+export function getQuestionSetService(): QuestionSetService {
+  if (!questionSetServiceInstance) {
+    throw new Error('QuestionSetService not initialized. Call initializeQuestionSetService first.');
+  }
+  return questionSetServiceInstance;
+}
+
+/**
+ * Whether sets can be read (not initialized in offline/test runs)
+ */
+export function isQuestionSetServiceAvailable(): boolean {
+  return questionSetServiceInstance !== null;
+}
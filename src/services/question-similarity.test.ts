@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { questionSimilarity } from './question-similarity';
+
+describe('questionSimilarity.normalize', () => {
+  it('drops filler words and punctuation and stems the rest', () => {
+    expect([...questionSimilarity.normalize('Can you explain how React hooks are working?')]).toEqual([
+      'react',
+      'hook',
+      'work',
+    ]);
+  });
+
+  it('keeps symbols that name languages', () => {
+    expect(questionSimilarity.normalize('What is new in C# and C++?')).toEqual(new Set(['new', 'c#', 'c++']));
+  });
+});
+
+describe('questionSimilarity.isNearDuplicate', () => {
+  it('matches rephrasings of the same question', () => {
+    expect(
+      questionSimilarity.isNearDuplicate('Explain the difference between let and var in JavaScript.', [
+        'What is the difference between var and let in JavaScript?',
+      ])
+    ).toBe(true);
+  });
+
+  it('does not match different questions on the same topic', () => {
+    expect(
+      questionSimilarity.isNearDuplicate('How does the JavaScript event loop handle promises?', [
+        'What is the difference between var and let in JavaScript?',
+        'How would you debounce a search input in JavaScript?',
+      ])
+    ).toBe(false);
+  });
+
+  it('treats questions with no significant words as unrelated', () => {
+    expect(questionSimilarity.similarity('What is it?', 'What is it?')).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @file services/question-similarity.ts
+ * @description Near-duplicate detection for interview questions
+ * Questions are compared on normalized word sets (lowercase, punctuation and
+ * filler words stripped, light stemming), so rephrasings of the same
+ * question match while different questions on the same topic do not
+ */
+
+import { DUPLICATE_SIMILARITY_THRESHOLD } from '../utils/constants';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'between', 'by', 'can', 'could', 'describe', 'do',
+  'does', 'explain', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or',
+  'please', 'tell', 'that', 'the', 'this', 'to', 'us', 'way', 'what', 'when', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const stem = (word: string): string => word.replace(/(ing|ed|es|s)$/, '');
+
+export const questionSimilarity = {
+  /**
+   * Significant, stemmed words of a question
+   */
+  normalize(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .replace(/[^a-z0-9+#\s]/g, ' ')
+        .split(/\s+/)
+        .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+        .map(stem)
+    );
+  },
+
+  /**
+   * Jaccard similarity of the normalized word sets (0 = unrelated, 1 = same)
+   */
+  similarity(a: string, b: string): number {
+    const wordsA = this.normalize(a);
+    const wordsB = this.normalize(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  },
+
+  isNearDuplicate(
+    text: string,
+    others: string[],
+    threshold: number = DUPLICATE_SIMILARITY_THRESHOLD
+  ): boolean {
+    return others.some((other) => this.similarity(text, other) >= threshold);
+  },
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { questionTiming } from './question-timing';
+import type { InterviewQuestion } from '../types';
+
+const SHOWN_AT = 1_700_000_000_000;
+
+const prompt = (category: string, seconds?: number, updates: Partial<InterviewQuestion> = {}): InterviewQuestion =>
+  ({
+    qText: `${category} question`,
+    category,
+    ...(seconds !== undefined ? { startedAt: SHOWN_AT, submittedAt: SHOWN_AT + seconds * 1000 } : {}),
+    ...updates,
+  }) as InterviewQuestion;
+
+describe('questionTiming.getRemainingSeconds', () => {
+  it('counts down a timed, unanswered prompt', () => {
+    const timed = { ...prompt('React'), startedAt: SHOWN_AT, timeLimitSeconds: 90 };
+
+    expect(questionTiming.getRemainingSeconds(timed, SHOWN_AT + 30_500)).toBe(60);
+    expect(questionTiming.getRemainingSeconds(timed, SHOWN_AT + 120_000)).toBe(0);
+    expect(questionTiming.getRemainingSeconds({ ...timed, submittedAt: SHOWN_AT + 1000 }, SHOWN_AT)).toBeNull();
+    expect(questionTiming.getRemainingSeconds(prompt('React'), SHOWN_AT)).toBeNull();
+  });
+});
+
+describe('questionTiming.getPace', () => {
+  it('compares time spent with the limit', () => {
+    expect(questionTiming.getPace(20, 120)).toBe('rushed');
+    expect(questionTiming.getPace(60, 120)).toBe('on-pace');
+    expect(questionTiming.getPace(110, 120)).toBe('long');
+    expect(questionTiming.getPace(60, 120, true)).toBe('long');
+  });
+});
+
+describe('questionTiming.getAverageTimePerQuestion', () => {
+  it('adds follow-ups to their thread', () => {
+    const questions = [prompt('React', 30, { followUps: [prompt('React', 10)] }), prompt('SQL', 20)];
+
+    expect(questionTiming.getThreadTime(questions[0])).toBe(40);
+    expect(questionTiming.getAverageTimePerQuestion(questions, 600)).toBe(30);
+  });
+
+  it('falls back to the session duration for untimed sessions', () => {
+    expect(questionTiming.getAverageTimePerQuestion([prompt('React'), prompt('SQL')], 601)).toBe(300);
+    expect(questionTiming.getAverageTimePerQuestion([], 600)).toBe(0);
+  });
+});
+
+describe('questionTiming.getCategoryTimes', () => {
+  it('groups threads by category, most time first', () => {
+    const questions = [
+      prompt('SQL', 20, { timeLimitSeconds: 60 }),
+      prompt('React', 30, { timeLimitSeconds: 120, followUps: [prompt('React', 10)] }),
+      prompt('React', 118, { timeLimitSeconds: 120, timedOut: true }),
+      prompt('System Design'),
+    ];
+
+    expect(questionTiming.getCategoryTimes(questions)).toEqual([
+      { category: 'React', questions: 2, averageSeconds: 79, averageLimitSeconds: 120, pace: 'long', timedOut: 1 },
+      { category: 'SQL', questions: 1, averageSeconds: 20, averageLimitSeconds: 60, pace: 'on-pace', timedOut: 0 },
+    ]);
+  });
+});
+
+describe('questionTiming.format', () => {
+  it('formats m:ss', () => {
+    expect(questionTiming.format(65)).toBe('1:05');
+    expect(questionTiming.format(600)).toBe('10:00');
+  });
+});
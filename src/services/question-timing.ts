@@ -0,0 +1,102 @@
+/**
+ * @file services/question-timing.ts
+ * @description Per-question timers and time-based analytics
+ * Every prompt records when it was shown and submitted. Questions with a
+ * time limit count down and are auto-submitted at zero; the time spent per
+ * category tells candidates where they rush or ramble.
+ */
+
+import { LONG_TIME_RATIO, RUSHED_TIME_RATIO } from '../utils/constants';
+import type { CategoryTime, InterviewQuestion, QuestionPace } from '../types';
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const questionTiming = {
+  /**
+   * Seconds between showing and submitting a prompt; undefined until both
+   * are known
+   */
+  getTimeSpent(prompt: InterviewQuestion): number | undefined {
+    if (!prompt.startedAt || !prompt.submittedAt) return undefined;
+    return Math.max(0, Math.round((prompt.submittedAt - prompt.startedAt) / 1000));
+  },
+
+  /**
+   * Time spent on a question and its follow-ups
+   */
+  getThreadTime(question: InterviewQuestion): number | undefined {
+    const times = [question, ...(question.followUps || [])]
+      .map((prompt) => this.getTimeSpent(prompt))
+      .filter((time): time is number => time !== undefined);
+    return times.length > 0 ? times.reduce((sum, t) => sum + t, 0) : undefined;
+  },
+
+  /**
+   * Whole seconds left on a timed, unanswered prompt; null when it has no
+   * running countdown
+   */
+  getRemainingSeconds(prompt: InterviewQuestion | undefined, now: number = Date.now()): number | null {
+    if (!prompt?.timeLimitSeconds || !prompt.startedAt || prompt.submittedAt) return null;
+    const elapsed = Math.floor((now - prompt.startedAt) / 1000);
+    return Math.min(prompt.timeLimitSeconds, Math.max(0, prompt.timeLimitSeconds - elapsed));
+  },
+
+  getPace(timeSpent: number, timeLimit: number, timedOut = false): QuestionPace {
+    if (timedOut || timeSpent >= timeLimit * LONG_TIME_RATIO) return 'long';
+    return timeSpent < timeLimit * RUSHED_TIME_RATIO ? 'rushed' : 'on-pace';
+  },
+
+  /**
+   * Mean time per question thread; sessions recorded before per-question
+   * timing fall back to the session duration
+   */
+  getAverageTimePerQuestion(questions: InterviewQuestion[], duration: number): number {
+    const times = questions
+      .map((q) => this.getThreadTime(q))
+      .filter((time): time is number => time !== undefined);
+    if (times.length === 0) return questions.length > 0 ? Math.floor(duration / questions.length) : 0;
+    return Math.round(mean(times));
+  },
+
+  /**
+   * Time spent per category, most time first. Pace compares main answers
+   * with their limits; follow-ups have none, so they only add to the time.
+   */
+  getCategoryTimes(questions: InterviewQuestion[]): CategoryTime[] {
+    const byCategory = new Map<string, InterviewQuestion[]>();
+    for (const question of questions) {
+      if (this.getThreadTime(question) === undefined) continue;
+      byCategory.set(question.category, [...(byCategory.get(question.category) || []), question]);
+    }
+
+    return [...byCategory.entries()]
+      .map(([category, categoryQuestions]) => {
+        const timed = categoryQuestions.filter(
+          (q) => q.timeLimitSeconds && this.getTimeSpent(q) !== undefined
+        );
+        const timedOut = categoryQuestions.filter((q) => q.timedOut).length;
+        const averageLimit = timed.length > 0 ? mean(timed.map((q) => q.timeLimitSeconds!)) : undefined;
+
+        return {
+          category,
+          questions: categoryQuestions.length,
+          averageSeconds: Math.round(mean(categoryQuestions.map((q) => this.getThreadTime(q)!))),
+          ...(averageLimit !== undefined
+            ? {
+                averageLimitSeconds: Math.round(averageLimit),
+                pace: this.getPace(mean(timed.map((q) => this.getTimeSpent(q)!)), averageLimit, timedOut > 0),
+              }
+            : {}),
+          timedOut,
+        };
+      })
+      .sort((a, b) => b.averageSeconds - a.averageSeconds);
+  },
+
+  /**
+   * m:ss for countdowns and reports
+   */
+  format(seconds: number): string {
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  },
+};
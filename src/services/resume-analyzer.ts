@@ -6,6 +6,7 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
 import { createLogger } from '../utils/logger';
+import { TECH_SKILL_KEYWORDS } from '../utils/constants';
 
 // Set up PDF.js worker
 if (typeof window !== 'undefined') {
@@ -36,15 +37,8 @@ export const resumeAnalyzer = {
       const lowerText = text.toLowerCase();
       
       // Extract skills (common technical skills)
-      const skillKeywords = [
-        'javascript', 'typescript', 'python', 'java', 'react', 'node.js', 'express', 'sql', 'mongodb',
-        'docker', 'kubernetes', 'aws', 'azure', 'gcp', 'rest api', 'graphql', 'git', 'ci/cd',
-        'html', 'css', 'vue.js', 'angular', 'next.js', 'postgresql', 'mysql', 'redis', 'rabbitmq',
-        'microservices', 'agile', 'scrum', 'testing', 'jest', 'webpack', 'npm', 'yarn', 'terraform'
-      ];
-      
       const skills: string[] = [];
-      skillKeywords.forEach(skill => {
+      TECH_SKILL_KEYWORDS.forEach(skill => {
         if (lowerText.includes(skill)) {
           skills.push(skill.charAt(0).toUpperCase() + skill.slice(1));
         }
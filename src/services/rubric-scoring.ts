@@ -0,0 +1,78 @@
+/**
+ * @file services/rubric-scoring.ts
+ * @description Multi-dimensional rubric scoring
+ * Providers score each dimension; the overall score is the weighted mean
+ * using RUBRIC_WEIGHTS for the question's type
+ */
+
+import { RUBRIC_DIMENSIONS, RUBRIC_WEIGHTS } from '../utils/constants';
+import type {
+  GeminiEvaluationResponse,
+  GradingEmphasis,
+  InterviewQuestion,
+  QuestionType,
+  RubricDimension,
+  RubricScore,
+} from '../types';
+
+const clampScore = (score: number): number => Math.min(5, Math.max(1, Math.round(score)));
+
+export const rubricScoring = {
+  getQuestionType(question: Pick<InterviewQuestion, 'type' | 'isCoding'>): QuestionType {
+    return question.type ?? (question.isCoding ? 'coding' : 'conceptual');
+  },
+
+  /**
+   * One entry per dimension, in display order. Dimensions the provider
+   * skipped fall back to its overall score.
+   */
+  complete(rubric: RubricScore[], fallbackScore: number): RubricScore[] {
+    return RUBRIC_DIMENSIONS.map(({ key }) => {
+      const entry = rubric.find((r) => r.dimension === key);
+      return entry
+        ? { ...entry, score: clampScore(entry.score) }
+        : { dimension: key, score: clampScore(fallbackScore), justification: 'Not assessed separately.' };
+    });
+  },
+
+  /**
+   * Weighted overall score (integer 1-5) for a question type. A company
+   * track's emphasis multiplies the type's weights.
+   */
+  computeScore(rubric: RubricScore[], type: QuestionType, emphasis: GradingEmphasis = {}): number {
+    const weightOf = (dimension: RubricDimension): number =>
+      RUBRIC_WEIGHTS[type][dimension] * (emphasis[dimension] ?? 1);
+    const total = rubric.reduce((sum, r) => sum + r.score * weightOf(r.dimension), 0);
+    const weight = rubric.reduce((sum, r) => sum + weightOf(r.dimension), 0);
+    return clampScore(weight > 0 ? total / weight : 0);
+  },
+
+  /**
+   * Normalize a provider's rubric and replace its overall score with the
+   * weighted one
+   */
+  apply(evaluation: GeminiEvaluationResponse, type: QuestionType): GeminiEvaluationResponse {
+    const rubric = this.complete(evaluation.rubric, evaluation.score);
+    return { ...evaluation, rubric, score: this.computeScore(rubric, type) };
+  },
+
+  /**
+   * Mean score per dimension over every answered prompt, follow-ups included
+   */
+  getDimensionAverages(questions: InterviewQuestion[]): Partial<Record<RubricDimension, number>> {
+    const prompts = questions.flatMap((q) => [q, ...(q.followUps || [])]);
+    const averages: Partial<Record<RubricDimension, number>> = {};
+
+    for (const { key } of RUBRIC_DIMENSIONS) {
+      const scores = prompts
+        .map((q) => q.rubric?.find((r) => r.dimension === key)?.score)
+        .filter((score): score is number => typeof score === 'number');
+
+      if (scores.length > 0) {
+        averages[key] = parseFloat((scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1));
+      }
+    }
+
+    return averages;
+  },
+};
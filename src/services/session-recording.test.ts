@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { sessionRecording } from './session-recording';
+import type { InterviewQuestion, InterviewSession, PromptRef, SavedRecording } from '../types';
+
+const T = 1_700_000_000_000;
+
+const recording = (startedAt: number, durationMs: number, prompt?: PromptRef): SavedRecording => ({
+  url: `https://storage.example/${prompt ? `q${prompt.questionIndex}-${prompt.followUpIndex}` : 'session'}`,
+  storagePath: 'recordings/file.webm',
+  contentType: 'video/webm',
+  sizeBytes: 1000,
+  startedAt,
+  durationMs,
+  ...(prompt ? { prompt } : {}),
+});
+
+const prompt = (qText: string, startedAt?: number, submittedAt?: number): InterviewQuestion =>
+  ({ qText, category: 'JavaScript', startedAt, submittedAt }) as InterviewQuestion;
+
+const session = (questions: InterviewQuestion[]): InterviewSession =>
+  ({ id: 's1', userId: 'u1', role: 'Engineer', questions }) as InterviewSession;
+
+describe('sessionRecording.getChapters', () => {
+  it('places every prompt on the whole-session recording, with where it ended', () => {
+    const whole = recording(T, 120_000);
+    const chapters = sessionRecording.getChapters(
+      session([
+        { ...prompt('First', T + 5000, T + 30_000), followUps: [prompt('Why?', T + 31_000, T + 50_000)] },
+        prompt('Second', T + 60_000),
+      ]),
+      [whole]
+    );
+
+    expect(chapters).toEqual([
+      {
+        prompt: { questionIndex: 0, followUpIndex: 0 },
+        label: 'Question 1',
+        question: 'First',
+        recording: whole,
+        startSeconds: 5,
+        endSeconds: 30,
+      },
+      {
+        prompt: { questionIndex: 0, followUpIndex: 1 },
+        label: 'Question 1, follow-up 1',
+        question: 'Why?',
+        recording: whole,
+        startSeconds: 31,
+        endSeconds: 50,
+      },
+      // Not submitted: runs to the end of the recording
+      {
+        prompt: { questionIndex: 1, followUpIndex: 0 },
+        label: 'Question 2',
+        question: 'Second',
+        recording: whole,
+        startSeconds: 60,
+      },
+    ]);
+  });
+
+  it('plays each prompt\'s own clip from the start', () => {
+    const first = recording(T + 5000, 20_000, { questionIndex: 0, followUpIndex: 0 });
+    const followUp = recording(T + 31_000, 15_000, { questionIndex: 0, followUpIndex: 1 });
+    const chapters = sessionRecording.getChapters(
+      session([
+        { ...prompt('First', T + 5000, T + 30_000), followUps: [prompt('Why?', T + 31_000, T + 50_000)] },
+        prompt('Second', T + 60_000, T + 70_000),
+      ]),
+      [followUp, first]
+    );
+
+    // The second question has no clip and there is no session recording
+    expect(chapters).toHaveLength(2);
+    expect(chapters[0]).toEqual({
+      prompt: { questionIndex: 0, followUpIndex: 0 },
+      label: 'Question 1',
+      question: 'First',
+      recording: first,
+      startSeconds: 0,
+    });
+    expect(chapters[1]).toMatchObject({ label: 'Question 1, follow-up 1', recording: followUp, startSeconds: 0 });
+    expect(chapters[1]).not.toHaveProperty('endSeconds');
+  });
+
+  it('has no chapter for prompts asked before the recording started or after it ended', () => {
+    // Recording started after a resume, partway through the session
+    const whole = recording(T + 40_000, 30_000);
+    const chapters = sessionRecording.getChapters(
+      session([
+        prompt('Before the resume', T + 5000, T + 30_000),
+        prompt('After the resume', T + 45_000, T + 60_000),
+        prompt('After the recording', T + 70_000),
+        prompt('Never shown'),
+      ]),
+      [whole]
+    );
+
+    expect(chapters.map((c) => c.question)).toEqual(['After the resume']);
+    expect(chapters[0]).toMatchObject({ startSeconds: 5, endSeconds: 20 });
+  });
+
+  it('leaves out the end when the answer was submitted no later than it started', () => {
+    const [chapter] = sessionRecording.getChapters(session([prompt('First', T + 5000, T + 5000)]), [
+      recording(T, 60_000),
+    ]);
+
+    expect(chapter.startSeconds).toBe(5);
+    expect(chapter).not.toHaveProperty('endSeconds');
+  });
+
+  it('is empty without recordings', () => {
+    expect(sessionRecording.getChapters(session([prompt('First', T, T + 1000)]), [])).toEqual([]);
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * @file services/session-recording.ts
+ * @description Opt-in recording of AI interview sessions
+ * Captures the candidate's camera and microphone (or the microphone only)
+ * with MediaRecorder, as one recording of the whole session or as a clip per
+ * answered prompt. Recordings upload in the background through
+ * FileStorageService and are stored under the session, apart from its
+ * document, so later saves of the session cannot drop them. The upload
+ * queue outlives the interview screen, so a session recording keeps
+ * uploading while the candidate reads their results.
+ */
+
+import { createLogger } from '../utils/logger';
+import { MAX_RECORDING_BYTES, RECORDING_BITRATES } from '../utils/constants';
+import { getFileStorageService, type ResumableUpload } from './file-storage';
+import { getFirestoreService } from './firestore';
+import type {
+  InterviewSession,
+  MediaRecording,
+  PromptRef,
+  RecordingChapter,
+  RecordingMedia,
+  RecordingSettings,
+  RecordingUpload,
+  SavedRecording,
+} from '../types';
+
+const logger = createLogger('session-recording');
+
+// MediaRecorder hands over data this often, so a long session is buffered in pieces
+const TIMESLICE_MS = 5000;
+
+// Preferred containers, best first; browsers pick the first they support
+const MIME_TYPES: Record<RecordingMedia, string[]> = {
+  video: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'],
+  audio: ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'],
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'audio/webm': 'weba',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+export interface RecordedClip {
+  blob: Blob;
+  startedAt: number; // Epoch ms
+  durationMs: number;
+}
+
+/**
+ * One session's capture. The camera and microphone are held from `open` to
+ * `close`; each `begin`/`end` pair produces one recording.
+ */
+export class SessionRecorder {
+  readonly settings: RecordingSettings;
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  constructor(settings: RecordingSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Ask for the camera (video only) and microphone; rejects when the
+   * candidate denies access or has no device
+   */
+  async open(): Promise<void> {
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      video: this.settings.media === 'video',
+      audio: true,
+    });
+  }
+
+  get isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  begin(): void {
+    if (!this.stream || this.isRecording) return;
+
+    const mimeType = sessionRecording.getMimeType(this.settings.media);
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(this.stream, {
+      ...(mimeType ? { mimeType } : {}),
+      ...RECORDING_BITRATES[this.settings.media],
+    });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    this.chunks = chunks;
+    this.recorder = recorder;
+    this.startedAt = Date.now();
+    recorder.start(TIMESLICE_MS);
+  }
+
+  /**
+   * Finish the current recording; null when nothing was being recorded
+   */
+  end(): Promise<RecordedClip | null> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+
+    const chunks = this.chunks;
+    const startedAt = this.startedAt;
+    this.recorder = null;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const blob = new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type });
+        resolve(blob.size > 0 ? { blob, startedAt, durationMs: Date.now() - startedAt } : null);
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * Release the camera and microphone; a recording still running is
+   * discarded
+   */
+  close(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.ondataavailable = null;
+      this.recorder.stop();
+    }
+    this.recorder = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+}
+
+interface UploadJob {
+  upload: RecordingUpload;
+  clip: RecordedClip;
+  userId: string;
+  sessionId: string;
+  prompt?: PromptRef;
+  handle?: ResumableUpload;
+}
+
+export interface RecordingUploadRequest {
+  clip: RecordedClip;
+  userId: string;
+  sessionId: string;
+  label: string;
+  prompt?: PromptRef; // Absent for the whole-session recording
+}
+
+/**
+ * Background uploads of finished recordings, with progress, pause/resume
+ * and retry. Recordings are kept in memory until they are saved, so a
+ * failed upload can be retried without recording again.
+ */
+class RecordingUploadQueue {
+  private jobs = new Map<string, UploadJob>();
+  private listeners = new Set<(uploads: RecordingUpload[]) => void>();
+
+  /**
+   * Follow the uploads; the listener is called right away and on every
+   * change. Returns the unsubscribe function.
+   */
+  subscribe(listener: (uploads: RecordingUpload[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getUploads());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getUploads(): RecordingUpload[] {
+    return [...this.jobs.values()].map((job) => job.upload);
+  }
+
+  /**
+   * Whether a recording would be lost if the page closed now
+   */
+  hasPending(): boolean {
+    return [...this.jobs.values()].some((job) => job.upload.status !== 'done');
+  }
+
+  enqueue({ clip, userId, sessionId, label, prompt }: RecordingUploadRequest): void {
+    const id = prompt ? `${sessionId}-${prompt.questionIndex}-${prompt.followUpIndex}` : `${sessionId}-session`;
+    const job: UploadJob = {
+      upload: { id, label, status: 'uploading', progress: 0 },
+      clip,
+      userId,
+      sessionId,
+      ...(prompt ? { prompt } : {}),
+    };
+    this.jobs.set(id, job);
+    this.start(job);
+  }
+
+  pause(id: string): void {
+    const job = this.jobs.get(id);
+    if (job?.upload.status === 'uploading' && job.handle?.pause()) {
+      this.update(job, { status: 'paused' });
+    }
+  }
+
+  resume(id: string): void {
+    const job = this.jobs.get(id);
+    if (job?.upload.status === 'paused' && job.handle?.resume()) {
+      this.update(job, { status: 'uploading' });
+    }
+  }
+
+  retry(id: string): void {
+    const job = this.jobs.get(id);
+    if (job?.upload.status === 'failed') this.start(job);
+  }
+
+  /**
+   * Drop an upload from the list, cancelling it if it has not finished
+   */
+  dismiss(id: string): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    this.jobs.delete(id);
+    if (job.upload.status === 'uploading' || job.upload.status === 'paused') job.handle?.cancel();
+    this.notify();
+  }
+
+  private start(job: UploadJob): void {
+    const { clip, userId, sessionId, prompt } = job;
+    this.update(job, { status: 'uploading', progress: 0 });
+
+    if (clip.blob.size > MAX_RECORDING_BYTES) {
+      logger.warn({ sessionId, size: clip.blob.size }, 'Recording too large to upload');
+      this.update(job, { status: 'failed', error: 'This recording is too large to upload.' });
+      return;
+    }
+
+    const contentType = clip.blob.type.split(';')[0];
+    const name = prompt ? `q${prompt.questionIndex + 1}-${prompt.followUpIndex}` : 'session';
+    const storagePath = `practice/${userId}/sessions/${sessionId}/${name}-${clip.startedAt}.${sessionRecording.getExtension(contentType)}`;
+
+    job.handle = getFileStorageService().uploadRecording(clip.blob, storagePath, userId, ({ progress }) => {
+      if (job.upload.status === 'uploading') this.update(job, { progress: Math.round(progress) });
+    });
+
+    job.handle.result
+      .then(async (result) => {
+        const recording: MediaRecording = {
+          url: result.downloadURL,
+          storagePath,
+          contentType: result.contentType,
+          sizeBytes: result.fileSize,
+          startedAt: clip.startedAt,
+          durationMs: clip.durationMs,
+        };
+        await getFirestoreService().saveSessionRecording(userId, sessionId, recording, prompt);
+        this.update(job, { status: 'done', progress: 100 });
+      })
+      .catch((error) => {
+        // Dismissed uploads are cancelled on purpose
+        if (!this.jobs.has(job.upload.id)) return;
+        logger.warn({ error, sessionId, prompt }, 'Recording not saved');
+        this.update(job, { status: 'failed', error: 'Upload failed. Check your connection and retry.' });
+      });
+  }
+
+  private update(job: UploadJob, changes: Partial<RecordingUpload>): void {
+    const upload = { ...job.upload, ...changes };
+    // An error only describes the failed attempt
+    if (upload.status !== 'failed') delete upload.error;
+    job.upload = upload;
+    this.notify();
+  }
+
+  private notify(): void {
+    const uploads = this.getUploads();
+    this.listeners.forEach((listener) => listener(uploads));
+  }
+}
+
+export const recordingUploads = new RecordingUploadQueue();
+
+export const sessionRecording = {
+  isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+  },
+
+  /**
+   * The browser's preferred container for the media; undefined lets
+   * MediaRecorder choose
+   */
+  getMimeType(media: RecordingMedia): string | undefined {
+    return MIME_TYPES[media].find((type) => MediaRecorder.isTypeSupported(type));
+  },
+
+  getExtension(contentType: string): string {
+    return EXTENSIONS[contentType] ?? (contentType.startsWith('audio/') ? 'audio' : 'video');
+  },
+
+  isAudioOnly(recording: MediaRecording): boolean {
+    return recording.contentType.startsWith('audio/');
+  },
+
+  getPromptLabel({ questionIndex, followUpIndex }: PromptRef): string {
+    return followUpIndex > 0
+      ? `Question ${questionIndex + 1}, follow-up ${followUpIndex}`
+      : `Question ${questionIndex + 1}`;
+  },
+
+  /**
+   * Where each prompt was asked and answered: a stretch of the session
+   * recording, or the prompt's own clip. Prompts shown before the recording
+   * started (such as those before a resume) have no chapter.
+   */
+  getChapters(session: InterviewSession, recordings: SavedRecording[]): RecordingChapter[] {
+    const recording = recordings.find((r) => !r.prompt); // The whole-session one
+
+    const prompts = session.questions.flatMap((q, questionIndex) =>
+      [q, ...(q.followUps || [])].map((prompt, followUpIndex) => ({
+        prompt: { questionIndex, followUpIndex },
+        question: prompt,
+      }))
+    );
+
+    return prompts.flatMap(({ prompt, question }): RecordingChapter[] => {
+      const base = { prompt, label: this.getPromptLabel(prompt), question: question.qText };
+
+      const clip = recordings.find(
+        (r) => r.prompt?.questionIndex === prompt.questionIndex && r.prompt.followUpIndex === prompt.followUpIndex
+      );
+      if (clip) {
+        return [{ ...base, recording: clip, startSeconds: 0 }];
+      }
+
+      if (!recording || !question.startedAt) return [];
+      const startSeconds = (question.startedAt - recording.startedAt) / 1000;
+      if (startSeconds < 0 || startSeconds * 1000 >= recording.durationMs) return [];
+
+      return [
+        {
+          ...base,
+          recording,
+          startSeconds,
+          ...(question.submittedAt && question.submittedAt > question.startedAt
+            ? { endSeconds: (question.submittedAt - recording.startedAt) / 1000 }
+            : {}),
+        },
+      ];
+    });
+  },
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { speechAnalytics } from './speech-analytics';
+import type { InterviewQuestion, InterviewSession, SpeechSegment } from '../types';
+
+const T = 1_700_000_000_000;
+
+const SEGMENTS: SpeechSegment[] = [
+  { text: "I'm not sure, but maybe it uses basically the heap", start: T + 7000, end: T + 11000 },
+  { text: 'Um, I think a closure keeps its scope', start: T, end: T + 4000 },
+  { text: '  ', start: T + 12000, end: T + 12500 },
+];
+
+const typed = { qText: 'Q', category: 'JavaScript' } as InterviewQuestion;
+
+const answer = (): InterviewQuestion => ({
+  ...typed,
+  delivery: speechAnalytics.analyze(SEGMENTS, { startedAt: T - 1000, endedAt: T + 15000 }),
+});
+
+describe('speechAnalytics.analyze', () => {
+  it('measures pace, pauses and talk time from the phrases heard', () => {
+    expect(speechAnalytics.analyze(SEGMENTS, { startedAt: T - 1000, endedAt: T + 15000 })).toMatchObject({
+      durationMs: 16000,
+      speakingMs: 8000,
+      wordCount: 18,
+      wordsPerMinute: 98,
+      longPauses: 1,
+      longestPauseMs: 3000,
+      talkTimeRatio: 0.5,
+    });
+  });
+
+  it('counts fillers and hedges as whole phrases, longest first', () => {
+    const delivery = speechAnalytics.analyze(SEGMENTS, { startedAt: T, endedAt: T + 11000 })!;
+
+    expect(delivery.fillers).toEqual([
+      { term: 'basically', count: 1 },
+      { term: 'um', count: 1 },
+    ]);
+    expect(delivery.hedges.map((h) => h.term).sort()).toEqual(['i think', "i'm not sure", 'maybe'].sort());
+    expect(speechAnalytics.getHedgeCount(delivery)).toBe(3);
+  });
+
+  it('skips fillers and hedges in other languages', () => {
+    const delivery = speechAnalytics.analyze(SEGMENTS, { startedAt: T, endedAt: T + 11000, language: 'es' })!;
+
+    expect(delivery.fillers).toEqual([]);
+    expect(delivery.hedges).toEqual([]);
+    expect(delivery.wordCount).toBe(18);
+  });
+
+  it('is undefined when nothing was recognized', () => {
+    expect(speechAnalytics.analyze([{ text: '', start: T, end: T + 1000 }], { startedAt: T, endedAt: T + 5000 })).toBeUndefined();
+  });
+});
+
+describe('speechAnalytics.getSessionDelivery', () => {
+  it('combines main answers and follow-ups, weighting rates by words', () => {
+    const thread = { ...answer(), followUps: [answer(), typed] };
+
+    expect(speechAnalytics.getSessionDelivery([thread, typed])).toEqual({
+      answers: 2,
+      wordsPerMinute: 98,
+      fillersPer100Words: 11.1,
+      hedgesPer100Words: 16.7,
+      longPausesPerAnswer: 1,
+      talkTimeRatio: 0.5,
+    });
+    expect(speechAnalytics.getSessionDelivery([typed])).toBeUndefined();
+  });
+});
+
+describe('speechAnalytics.getTrend', () => {
+  it('lists completed sessions with spoken answers, oldest first', () => {
+    const session = (id: string, date: string, status: InterviewSession['status'], questions = [answer()]) =>
+      ({ id, date: new Date(date), status, questions }) as InterviewSession;
+
+    const trend = speechAnalytics.getTrend([
+      session('newer', '2026-03-02', 'completed'),
+      session('unfinished', '2026-03-03', 'in-progress'),
+      session('typed', '2026-03-04', 'completed', [typed]),
+      session('older', '2026-03-01', 'completed'),
+    ]);
+
+    expect(trend.map((point) => point.sessionId)).toEqual(['older', 'newer']);
+  });
+});
+
+describe('speechAnalytics.getTips', () => {
+  it('calls out only the figures past their limits', () => {
+    const tips = speechAnalytics.getTips(speechAnalytics.summarize([answer().delivery!])!);
+
+    expect(tips).toHaveLength(3);
+    expect(tips[0]).toMatch(/^Speak a bit faster/);
+    expect(tips[1]).toMatch(/^Cut filler words/);
+    expect(tips[2]).toMatch(/^Hedge less/);
+    expect(
+      speechAnalytics.getTips({
+        answers: 1,
+        wordsPerMinute: 140,
+        fillersPer100Words: 1,
+        hedgesPer100Words: 1,
+        longPausesPerAnswer: 0,
+        talkTimeRatio: 0.8,
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @file services/speech-analytics.ts
+ * @description How spoken answers were delivered
+ * Works from the timestamped phrases speech recognition finalizes: filler
+ * words, hedging phrases, speaking rate, long pauses between phrases and the
+ * share of the answer time spent talking. Each spoken answer keeps its
+ * figures; sessions are summarized and trended from them.
+ */
+
+import {
+  DEFAULT_INTERVIEW_LANGUAGE,
+  LONG_PAUSE_MS,
+  SPEAKING_PACE,
+  SPEECH_FILLER_WORDS,
+  SPEECH_HEDGING_PHRASES,
+} from '../utils/constants';
+import type {
+  InterviewLanguage,
+  InterviewQuestion,
+  InterviewSession,
+  SpeechDelivery,
+  SpeechDeliverySummary,
+  SpeechDeliveryTrendPoint,
+  SpeechSegment,
+} from '../types';
+
+// Past these a session's figures are called out in the tips
+const MAX_FILLERS_PER_100_WORDS = 3;
+const MAX_HEDGES_PER_100_WORDS = 3;
+const MAX_LONG_PAUSES_PER_ANSWER = 1.5;
+const MIN_TALK_TIME_RATIO = 0.4;
+
+const getWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+const round = (value: number, digits: number): number => parseFloat(value.toFixed(digits));
+
+/**
+ * Occurrences of each term as whole words, longest terms first so "not sure"
+ * is not counted again inside "i'm not sure"
+ */
+const countTerms = (words: string[], terms: string[]): { term: string; count: number }[] => {
+  let text = ` ${words.join(' ')} `;
+  return [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => {
+      const pattern = new RegExp(`(?<= )${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?= )`, 'g');
+      const count = text.match(pattern)?.length ?? 0;
+      text = text.replace(pattern, '|');
+      return { term, count };
+    })
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+};
+
+const total = (counts: { count: number }[]): number => counts.reduce((sum, c) => sum + c.count, 0);
+
+export const speechAnalytics = {
+  /**
+   * Delivery of one spoken answer from the phrases heard between `startedAt`
+   * and `endedAt`; undefined when nothing was recognized
+   */
+  analyze(
+    segments: SpeechSegment[],
+    {
+      startedAt,
+      endedAt,
+      language = DEFAULT_INTERVIEW_LANGUAGE,
+    }: { startedAt: number; endedAt: number; language?: InterviewLanguage }
+  ): SpeechDelivery | undefined {
+    const phrases = segments.filter((s) => getWords(s.text).length > 0).sort((a, b) => a.start - b.start);
+    if (phrases.length === 0) return undefined;
+
+    const words = phrases.flatMap((s) => getWords(s.text));
+    const speakingMs = phrases.reduce((sum, s) => sum + Math.max(0, s.end - s.start), 0);
+    const spanMs = Math.max(1000, phrases[phrases.length - 1].end - phrases[0].start);
+    const durationMs = Math.max(endedAt - startedAt, spanMs);
+    const pauses = phrases.slice(1).map((s, i) => Math.max(0, s.start - phrases[i].end));
+    const isEnglish = language === DEFAULT_INTERVIEW_LANGUAGE;
+
+    return {
+      durationMs,
+      speakingMs,
+      wordCount: words.length,
+      wordsPerMinute: Math.round(words.length / (spanMs / 60000)),
+      fillers: isEnglish ? countTerms(words, SPEECH_FILLER_WORDS) : [],
+      hedges: isEnglish ? countTerms(words, SPEECH_HEDGING_PHRASES) : [],
+      longPauses: pauses.filter((gap) => gap >= LONG_PAUSE_MS).length,
+      longestPauseMs: Math.max(0, ...pauses),
+      talkTimeRatio: round(Math.min(1, speakingMs / durationMs), 2),
+    };
+  },
+
+  getFillerCount(delivery: SpeechDelivery): number {
+    return total(delivery.fillers);
+  },
+
+  getHedgeCount(delivery: SpeechDelivery): number {
+    return total(delivery.hedges);
+  },
+
+  /**
+   * Combined delivery of several answers (rates weighted by words spoken);
+   * undefined when none were spoken
+   */
+  summarize(deliveries: SpeechDelivery[]): SpeechDeliverySummary | undefined {
+    if (deliveries.length === 0) return undefined;
+
+    const words = deliveries.reduce((sum, d) => sum + d.wordCount, 0);
+    const durationMs = deliveries.reduce((sum, d) => sum + d.durationMs, 0);
+    const per100Words = (count: number) => (words > 0 ? round((count / words) * 100, 1) : 0);
+
+    return {
+      answers: deliveries.length,
+      wordsPerMinute:
+        words > 0 ? Math.round(deliveries.reduce((sum, d) => sum + d.wordsPerMinute * d.wordCount, 0) / words) : 0,
+      fillersPer100Words: per100Words(deliveries.reduce((sum, d) => sum + this.getFillerCount(d), 0)),
+      hedgesPer100Words: per100Words(deliveries.reduce((sum, d) => sum + this.getHedgeCount(d), 0)),
+      longPausesPerAnswer: round(deliveries.reduce((sum, d) => sum + d.longPauses, 0) / deliveries.length, 1),
+      talkTimeRatio:
+        durationMs > 0 ? round(deliveries.reduce((sum, d) => sum + d.speakingMs, 0) / durationMs, 2) : 0,
+    };
+  },
+
+  /**
+   * Delivery of a question and its follow-ups
+   */
+  getThreadDelivery(question: InterviewQuestion): SpeechDeliverySummary | undefined {
+    return this.summarize(
+      [question, ...(question.followUps || [])].flatMap((prompt) => (prompt.delivery ? [prompt.delivery] : []))
+    );
+  },
+
+  getSessionDelivery(questions: InterviewQuestion[]): SpeechDeliverySummary | undefined {
+    return this.summarize(
+      questions
+        .flatMap((q) => [q, ...(q.followUps || [])])
+        .flatMap((prompt) => (prompt.delivery ? [prompt.delivery] : []))
+    );
+  },
+
+  /**
+   * Delivery per completed session with spoken answers, oldest first
+   */
+  getTrend(sessions: InterviewSession[]): SpeechDeliveryTrendPoint[] {
+    return sessions
+      .filter((s) => s.status === 'completed')
+      .flatMap((s) => {
+        const summary = this.getSessionDelivery(s.questions);
+        return summary ? [{ sessionId: s.id, date: new Date(s.date), ...summary }] : [];
+      })
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+
+  /**
+   * What to work on in the candidate's delivery; empty when nothing stands
+   * out
+   */
+  getTips(summary: SpeechDeliverySummary): string[] {
+    const tips: string[] = [];
+    if (summary.wordsPerMinute > 0 && summary.wordsPerMinute < SPEAKING_PACE.min) {
+      tips.push(`Speak a bit faster: you averaged ${summary.wordsPerMinute} words per minute (aim for ${SPEAKING_PACE.min}-${SPEAKING_PACE.max}).`);
+    } else if (summary.wordsPerMinute > SPEAKING_PACE.max) {
+      tips.push(`Slow down slightly: you averaged ${summary.wordsPerMinute} words per minute (aim for ${SPEAKING_PACE.min}-${SPEAKING_PACE.max}).`);
+    }
+    if (summary.fillersPer100Words > MAX_FILLERS_PER_100_WORDS) {
+      tips.push(`Cut filler words: ${summary.fillersPer100Words} per 100 words. A short silent pause sounds more confident.`);
+    }
+    if (summary.hedgesPer100Words > MAX_HEDGES_PER_100_WORDS) {
+      tips.push(`Hedge less: phrases like "I think" or "maybe" came up ${summary.hedgesPer100Words} times per 100 words. State what you know directly.`);
+    }
+    if (summary.longPausesPerAnswer > MAX_LONG_PAUSES_PER_ANSWER) {
+      tips.push(`You paused for ${LONG_PAUSE_MS / 1000}s or more about ${summary.longPausesPerAnswer} times per answer. Outline your answer before you start.`);
+    }
+    if (summary.talkTimeRatio > 0 && summary.talkTimeRatio < MIN_TALK_TIME_RATIO) {
+      tips.push(`You were talking for only ${Math.round(summary.talkTimeRatio * 100)}% of your answer time. Think out loud instead of in silence.`);
+    }
+    return tips;
+  },
+};
@@ -5,6 +5,10 @@
  */
 
 import { createLogger } from '../utils/logger';
+import { DEFAULT_INTERVIEW_LANGUAGE } from '../utils/constants';
+import { interviewLanguage } from './interview-language';
+import { interviewPersona } from './interview-persona';
+import type { InterviewLanguage, InterviewPersona, SpeechSegment } from '../types';
 
 const logger = createLogger('speech');
 
@@ -19,6 +23,7 @@ export interface SpeechRecognitionResult {
   transcript: string;
   confidence: number;
   isFinal: boolean;
+  segments: SpeechSegment[]; // Phrases finalized by this result, with timing
 }
 
 export class SpeechService {
@@ -26,6 +31,9 @@ export class SpeechService {
   private isListening = false;
   private currentAudio: HTMLAudioElement | null = null;
   private isSpeaking = false;
+  private language: InterviewLanguage = DEFAULT_INTERVIEW_LANGUAGE;
+  private locale = interviewLanguage.getSpeechLocale(DEFAULT_INTERVIEW_LANGUAGE);
+  private voice = interviewPersona.getVoice();
 
   constructor() {
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -40,7 +48,29 @@ export class SpeechService {
 
     this.recognition.continuous = true;
     this.recognition.interimResults = true;
-    this.recognition.language = 'en-US';
+    this.recognition.lang = this.locale;
+  }
+
+  /**
+   * Language to listen and speak in; takes effect from the next
+   * `startListening` / `speak`
+   */
+  public setLanguage(language: InterviewLanguage): void {
+    this.language = language;
+    this.locale = interviewLanguage.getSpeechLocale(language, navigator.language);
+    if (this.recognition) {
+      this.recognition.lang = this.locale;
+    }
+    logger.info({ language, locale: this.locale }, 'Speech language set');
+  }
+
+  /**
+   * Interviewer persona whose voice, pace and pitch to speak with; takes
+   * effect from the next `speak`
+   */
+  public setPersona(persona: InterviewPersona): void {
+    this.voice = interviewPersona.getVoice(persona);
+    logger.info({ persona }, 'Speech persona set');
   }
 
   /**
@@ -87,22 +117,24 @@ export class SpeechService {
         };
       }
       
-      // Prefer voices that sound natural and human-like
-      let selectedVoice = voices.find(v => v.name.includes('Google UK English Female')) ||  // Natural sounding
-                         voices.find(v => v.name.includes('Google US English Female')) ||   // Natural female
-                         voices.find(v => v.name.includes('Samantha')) ||                   // Natural sounding
-                         voices.find(v => v.name.includes('Victoria')) ||                   // Natural female
-                         voices.find(v => v.lang === 'en-US' && !v.name.includes('Google')) || // Any US voice
-                         voices.find(v => v.lang === 'en-US') ||                             // Fallback to US
-                         voices[0];                                                           // Last resort
-      
+      // Prefer the persona's voices, which sound natural and human-like
+      const selectedVoice = this.language === DEFAULT_INTERVIEW_LANGUAGE
+        ? this.voice.voiceNames.map(name => voices.find(v => v.name.includes(name))).find(Boolean) ||
+          voices.find(v => v.lang === 'en-US' && !v.name.includes('Google')) || // Any US voice
+          voices.find(v => v.lang === 'en-US') ||                             // Fallback to US
+          voices[0]                                                           // Last resort
+        : voices.find(v => v.lang.replace('_', '-') === this.locale) ||        // Exact locale (es-MX)
+          voices.find(v => v.lang.toLowerCase().startsWith(this.language));  // Any voice for the language
+
       if (selectedVoice) {
         utterance.voice = selectedVoice;
       }
+      // Without a matching voice the browser picks one for the locale
+      utterance.lang = this.locale;
 
       // Configure for natural human speech
-      utterance.rate = 0.95;       // Natural pace, slightly slower for clarity
-      utterance.pitch = 1.0;       // Natural pitch
+      utterance.rate = this.voice.rate;   // Persona's pace (neutral is slightly slow for clarity)
+      utterance.pitch = this.voice.pitch; // Persona's pitch
       utterance.volume = 1.0;      // Full volume
 
       utterance.onstart = () => {
@@ -154,6 +186,9 @@ export class SpeechService {
 
     try {
       this.isListening = true;
+      // Recognition gives no timings, so a phrase spans from its first
+      // interim result to its final one (indexes restart with each session)
+      const heardAt = new Map<number, number>();
 
       this.recognition.onstart = () => {
         logger.info('Listening started');
@@ -162,12 +197,16 @@ export class SpeechService {
       this.recognition.onresult = (event: any) => {
         let interimTranscript = '';
         let finalTranscript = '';
+        const segments: SpeechSegment[] = [];
+        const now = Date.now();
 
         for (let i = event.resultIndex; i < event.results.length; i++) {
           const transcript = event.results[i][0].transcript;
+          if (!heardAt.has(i)) heardAt.set(i, now);
 
           if (event.results[i].isFinal) {
             finalTranscript += transcript + ' ';
+            segments.push({ text: transcript.trim(), start: heardAt.get(i)!, end: now });
           } else {
             interimTranscript += transcript;
           }
@@ -177,6 +216,7 @@ export class SpeechService {
           transcript: finalTranscript || interimTranscript,
           confidence: event.results[event.results.length - 1]?.[0]?.confidence || 0,
           isFinal: finalTranscript.length > 0,
+          segments,
         });
       };
 
@@ -39,6 +39,22 @@ export interface CandidateProfile {
   timezone: string;
 }
 
+export type JobSeniority = 'entry' | 'mid' | 'senior' | 'lead';
+
+export interface JobRequirements {
+  title: string;
+  company?: string;
+  seniority: JobSeniority;
+  requiredSkills: string[];
+  responsibilities: string[];
+}
+
+export interface TargetJob {
+  id: string; // Derived from the description, so sessions group per posting
+  description: string; // Job description as pasted or uploaded
+  requirements: JobRequirements; // Parsed from the description
+}
+
 export interface UserProfile {
   id: string;
   userType: UserType; // NEW
@@ -50,6 +66,9 @@ export interface UserProfile {
   updatedAt: Date;
   email?: string;
   resumeUrl?: string;
+  interviewTemplateId?: string; // AI interview format chosen in setup
+  targetJob?: TargetJob | null; // Job posting AI interviews are aimed at (null clears it on save)
+  companyTrackId?: string | null; // Company-style AI interviews (null clears it on save)
   
   // Type-specific profiles
   interviewerProfile?: InterviewerProfile;
@@ -195,14 +214,235 @@ export interface Rating {
 // INTERVIEW SESSION TYPES
 // ============================================================================
 
+export type QuestionDifficulty = 'basic' | 'intermediate' | 'advanced';
+
+export type QuestionType = 'conceptual' | 'coding' | 'design' | 'behavioral';
+
+export type InterviewTrack = 'technical' | 'behavioral';
+
+export type InterviewLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+export type InterviewPersona = 'coach' | 'screener' | 'bar-raiser' | 'rapid-fire';
+
+export interface PersonaPerformance {
+  persona: InterviewPersona;
+  sessions: number;
+  averageScore: number;
+  bestScore: number;
+}
+
+export interface StartInterviewOptions {
+  repeatWeakQuestions?: boolean; // Ask again past questions the candidate scored poorly on
+  questionSet?: QuestionSet; // Practice an interviewer's published question set
+  persona?: InterviewPersona; // Interviewer style (default neutral screener)
+  recording?: RecordingSettings; // Opt-in capture of the candidate's camera and microphone
+}
+
+export interface SubmitAnswerOptions {
+  timedOut?: boolean; // Auto-submitted when the question's time limit ran out
+  delivery?: SpeechDelivery; // How a spoken answer was delivered
+}
+
+export interface InterviewTemplateSlot {
+  type: QuestionType;
+  category?: string; // Topic to steer toward; otherwise the adaptive engine picks
+  timeLimitSeconds: number;
+}
+
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description: string;
+  durationMinutes: number;
+  includeIntro: boolean;
+  introTimeLimitSeconds: number;
+  questions: InterviewTemplateSlot[]; // Asked in order after the intro
+}
+
+/**
+ * Admin-curated "<company>-style" interview (company_tracks collection).
+ * Its structure replaces the chosen template.
+ */
+export interface CompanyTrack {
+  id: string;
+  company: string;
+  aliases: string[]; // Other names interviewers list the company under, e.g. "AWS"
+  description: string;
+  durationMinutes: number;
+  includeIntro: boolean;
+  introTimeLimitSeconds: number;
+  questions: InterviewTemplateSlot[];
+  behavioralPrompts: { category: string; question: string }[]; // Category is the principle probed
+  topics: string[]; // Typical technical topics
+  gradingEmphasis: GradingEmphasis;
+}
+
+export type QuestionSetStatus = 'draft' | 'published';
+
+export interface QuestionSetItem {
+  question: string;
+  type: QuestionType;
+  category: string;
+  referenceAnswer: string;
+  keyConcepts: string[]; // The author's rubric: points a strong answer covers
+  timeLimitSeconds: number;
+}
+
+/**
+ * Interviewer-authored questions (question_sets collection). Once
+ * published, candidates can run an AI practice session on them; the set's
+ * questions replace the chosen template.
+ */
+export interface QuestionSet {
+  id: string;
+  interviewerId: string;
+  interviewerName: string;
+  title: string;
+  description: string;
+  skills: string[];
+  questions: QuestionSetItem[]; // Asked in order
+  gradingEmphasis: GradingEmphasis;
+  status: QuestionSetStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// What a session keeps of the set it ran on
+export type QuestionSetSnapshot = Pick<
+  QuestionSet,
+  'id' | 'interviewerId' | 'interviewerName' | 'title' | 'skills' | 'questions' | 'gradingEmphasis'
+>;
+
+/**
+ * One candidate's practice session on a question set (question_sets/{id}/runs)
+ */
+export interface QuestionSetRun {
+  id: string;
+  candidateId: string;
+  startedAt: Date;
+  completedAt?: Date;
+  score?: number; // Session score, once completed
+}
+
+export interface QuestionSetStats {
+  setId: string;
+  title: string;
+  status: QuestionSetStatus;
+  runs: number;
+  candidates: number; // Distinct candidates
+  completed: number;
+  averageScore: number | null; // Over completed runs
+  lastRunAt?: Date;
+}
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+export interface StarAnalysis {
+  situation: boolean;
+  task: boolean;
+  action: boolean;
+  result: boolean;
+  quantified: boolean; // The answer puts numbers on the impact
+}
+
+export type RubricDimension =
+  | 'technicalAccuracy'
+  | 'depth'
+  | 'communication'
+  | 'structure'
+  | 'problemSolving';
+
+export type GradingEmphasis = Partial<Record<RubricDimension, number>>; // Rubric weight multipliers
+
+export interface RubricScore {
+  dimension: RubricDimension;
+  score: number; // 1-5
+  justification: string;
+}
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface CodingChallenge {
+  id?: string; // Backend challenge holding the hidden tests; without one the answer is graded on its text
+  functionName: string; // Function the candidate must implement
+  testCount?: number; // The tests themselves never leave the backend
+}
+
+export interface CodeTestResult {
+  passed: boolean;
+  runtimeMs: number;
+  error?: string;
+}
+
+export interface CodeExecutionResult {
+  language: CodeLanguage;
+  passed: number;
+  total: number;
+  runtimeMs: number; // Sum of per-test runtimes
+  results: CodeTestResult[];
+  error?: string; // Compile error, timeout or crash
+  timedOut?: boolean;
+}
+
+export interface EvaluationConfidence {
+  samples: number; // Independent gradings aggregated
+  scores: number[]; // Overall score of each sample
+  stdDev: number; // Spread of the sample scores
+  confidence: number; // 0-1, 1 when every sample agreed
+  isLow: boolean; // Below EVALUATION_MIN_CONFIDENCE: take the grade with a grain of salt
+}
+
+export interface ModelAnswer {
+  text: string;
+  keyConcepts: string[]; // Points a strong answer is expected to cover
+  source: 'question-bank' | 'interviewer' | 'generated';
+}
+
+export interface AnswerComparison {
+  covered: string[]; // Key concepts found in the candidate's answer
+  missed: string[];
+  coverage: number; // 0-1 share of key concepts covered
+}
+
+export type HintLevel = 'nudge' | 'approach' | 'partial';
+
+export interface InterviewHint {
+  level: HintLevel;
+  text: string;
+  requestedAt: number; // Epoch ms
+}
+
+// Raised by the backend's answer guard: before grading from the answer text,
+// after grading by the grader itself
+export type AnswerFlag = 'injection' | 'abusive' | 'off-topic' | 'empty' | 'copied';
+
 export interface InterviewQuestion {
   qText: string;
   isCoding: boolean;
   category: string;
+  type?: QuestionType; // Selects the rubric weights (defaults from isCoding)
+  difficulty?: QuestionDifficulty; // Set by the adaptive engine (absent for the intro)
+  challenge?: CodingChallenge; // Hidden tests for coding questions
+  timeLimitSeconds?: number; // From the session's interview template
+  startedAt?: number; // Epoch ms when the prompt was shown (reset on resume)
+  submittedAt?: number; // Epoch ms when the answer was submitted
+  timedOut?: boolean; // Auto-submitted when the time limit ran out
+  isRetry?: boolean; // Asked again because the candidate scored poorly on it before
+  codeLanguage?: CodeLanguage; // Language of the submitted solution
+  codeExecution?: CodeExecutionResult; // Sandbox run of the submitted solution
   answerText?: string | null;
   feedback?: string | null;
   score?: number;
+  rubric?: RubricScore[]; // Per-dimension scores behind `score`
+  star?: StarAnalysis; // Behavioral questions only
+  confidence?: EvaluationConfidence; // Multi-sample scoring agreement
   improvementSuggestions?: string[];
+  hints?: InterviewHint[]; // Hints requested on this prompt, lowest tier first
+  flags?: AnswerFlag[]; // Raised by the answer guard; they cap the score
+  delivery?: SpeechDelivery; // Spoken answers: filler words, pace and pauses
+  modelAnswer?: ModelAnswer; // Reference answer for the results review (main questions only)
+  followUps?: InterviewQuestion[]; // Probing follow-ups on this answer (one level deep)
+  threadScore?: number; // Combined score of this question and its follow-ups
 }
 
 export interface InterviewSession {
@@ -213,6 +453,16 @@ export interface InterviewSession {
   bookingId?: string; // Link to booking if from live interview
   interviewType: InterviewType; // NEW
   interviewerId?: string; // NEW: If live interview
+  track?: InterviewTrack; // AI interviews: technical (default) or behavioral
+  templateId?: string; // AI interviews: the InterviewTemplate this session ran
+  retryQueue?: InterviewQuestion[]; // Poorly scored past questions to ask again
+  targetJob?: TargetJob; // AI interviews: the job posting questions were aimed at
+  companyTrack?: CompanyTrack; // AI interviews: snapshot of the company track followed
+  questionSet?: QuestionSetSnapshot; // AI interviews: interviewer question set practiced
+  questionSetRunId?: string; // The run recorded for the set's author
+  language?: InterviewLanguage; // AI interviews: language the session was held in (absent means English)
+  persona?: InterviewPersona; // AI interviews: interviewer style (absent means neutral screener)
+  recordingSettings?: RecordingSettings; // AI interviews: the candidate opted in to recording
   
   role: string;
   skills: string[];
@@ -221,7 +471,9 @@ export interface InterviewSession {
   score: number;
   duration: number; // in seconds
   questions: InterviewQuestion[];
+  difficultyPath?: QuestionDifficulty[]; // Difficulty of each generated question, in order
   status: 'in-progress' | 'completed' | 'abandoned';
+  updatedAt?: Date; // Last checkpoint; idle in-progress sessions are abandoned
   metrics?: SessionMetrics;
   
   // NEW: Live interview specific
@@ -235,7 +487,117 @@ export interface SessionMetrics {
   bestQuestion?: string;
   worstQuestion?: string;
   completionTime: number; // in seconds
-  averageTimePerQuestion: number;
+  averageTimePerQuestion: number; // Seconds per question thread, follow-ups included
+  rubricAverages?: Partial<Record<RubricDimension, number>>; // Across all answered prompts
+  timeByCategory?: CategoryTime[];
+}
+
+export type QuestionPace = 'rushed' | 'on-pace' | 'long';
+
+export interface SpeechSegment {
+  text: string; // One finalized recognition phrase
+  start: number; // Epoch ms the phrase was first heard
+  end: number; // Epoch ms it was finalized
+}
+
+export interface SpeechDelivery {
+  durationMs: number; // Listening time for the answer
+  speakingMs: number; // Time inside recognized phrases
+  wordCount: number;
+  wordsPerMinute: number; // From the first word to the last
+  fillers: { term: string; count: number }[];
+  hedges: { term: string; count: number }[];
+  longPauses: number; // Gaps of LONG_PAUSE_MS or more between phrases
+  longestPauseMs: number;
+  talkTimeRatio: number; // speakingMs / durationMs (0-1)
+}
+
+export interface SpeechDeliverySummary {
+  answers: number;
+  wordsPerMinute: number;
+  fillersPer100Words: number;
+  hedgesPer100Words: number;
+  longPausesPerAnswer: number;
+  talkTimeRatio: number;
+}
+
+export interface SpeechDeliveryTrendPoint extends SpeechDeliverySummary {
+  sessionId: string;
+  date: Date;
+}
+
+// Whole session in one file, or one clip per answered prompt
+export type RecordingMode = 'session' | 'clips';
+export type RecordingMedia = 'video' | 'audio';
+
+export interface RecordingSettings {
+  mode: RecordingMode;
+  media: RecordingMedia;
+}
+
+export interface MediaRecording {
+  url: string; // Storage download URL
+  storagePath: string;
+  contentType: string;
+  sizeBytes: number;
+  startedAt: number; // Epoch ms capture began; prompt timestamps are offsets from it
+  durationMs: number;
+}
+
+// A saved recording, stored apart from its session's document
+export interface SavedRecording extends MediaRecording {
+  prompt?: PromptRef; // Absent for the whole-session recording
+}
+
+// Addresses one prompt: a main question, or its nth follow-up (1-based)
+export interface PromptRef {
+  questionIndex: number;
+  followUpIndex: number;
+}
+
+// A stretch of a recording where one prompt was asked and answered
+export interface RecordingChapter {
+  prompt: PromptRef;
+  label: string;
+  question: string;
+  recording: MediaRecording;
+  startSeconds: number; // Into the recording
+  endSeconds?: number; // Absent when the prompt ran to the end of the recording
+}
+
+export interface RecordingUpload {
+  id: string;
+  label: string;
+  status: 'uploading' | 'paused' | 'failed' | 'done';
+  progress: number; // 0-100
+  error?: string;
+}
+
+export interface CategoryTime {
+  category: string;
+  questions: number;
+  averageSeconds: number; // Per question thread, follow-ups included
+  averageLimitSeconds?: number; // Timed questions only
+  timedOut: number; // Questions auto-submitted at the limit
+  pace?: QuestionPace; // Main answers against their limits; absent when untimed
+}
+
+// ============================================================================
+// QUESTION BANK TYPES
+// ============================================================================
+
+export interface QuestionBankEntry {
+  id: string;
+  role: string; // Target role, or "any" for role-agnostic questions
+  skill: string;
+  difficulty: QuestionDifficulty;
+  type: QuestionType;
+  question: string;
+  tags: string[];
+  referenceAnswer: string;
+  challenge?: CodingChallenge; // Coding questions only
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 // ============================================================================
@@ -246,12 +608,20 @@ export interface GeminiQuestionResponse {
   question: string;
   isCoding: boolean;
   category: string;
+  type: QuestionType;
+  challenge?: CodingChallenge;
+  referenceAnswer?: string; // Curated answer, question bank only
 }
 
 export interface GeminiEvaluationResponse {
-  score: number;
+  score: number; // Weighted from the rubric once it has been applied
   feedback: string;
   improvementSuggestions: string[];
+  rubric: RubricScore[];
+  star?: StarAnalysis; // Behavioral questions only
+  confidence?: EvaluationConfidence; // Set when several samples were aggregated
+  flags?: AnswerFlag[]; // Raised by the grader, then by the answer guard
+  codeExecution?: CodeExecutionResult; // Hidden test run the backend graded a coding answer with
 }
 
 export interface Question {
@@ -264,6 +634,37 @@ export interface QuestionFeedback {
   score: number;
   feedback: string;
   improvements?: string[];
+  followUps?: QuestionFeedback[];
+  codeExecution?: CodeExecutionResult;
+  rubric?: RubricScore[];
+  star?: StarAnalysis;
+  confidence?: EvaluationConfidence;
+  answer?: string; // Every answer in the thread, for the model answer comparison
+  modelAnswer?: ModelAnswer;
+  timeSpentSeconds?: number;
+  timeLimitSeconds?: number;
+  timedOut?: boolean;
+  hints?: InterviewHint[]; // Every hint in the thread
+  flags?: AnswerFlag[]; // Every answer guard flag in the thread
+  delivery?: SpeechDeliverySummary; // Spoken answers in the thread
+}
+
+export type AiUsageTier = 'free' | 'paid';
+
+export interface AiUsageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  operations: Record<'questions' | 'evaluate' | 'followUp' | 'modelAnswer' | 'jobDescription' | 'hint' | 'translate', number>;
+}
+
+export interface AiUsageOverview {
+  tier: AiUsageTier;
+  quota: { dailyCalls: number; dailyTokens: number };
+  today: AiUsageDay;
+  history: AiUsageDay[]; // Most recent first, today included
 }
 
 export interface ApiError {
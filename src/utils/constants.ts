@@ -3,14 +3,35 @@
  * @description Application constants
  */
 
-export const INTERVIEW_LENGTH = 5;
+import type {
+  AnswerFlag,
+  HintLevel,
+  InterviewLanguage,
+  InterviewPersona,
+  InterviewTemplate,
+  InterviewTrack,
+  JobSeniority,
+  QuestionType,
+  RecordingMode,
+  RubricDimension,
+} from '../types';
+
+export const DEFAULT_INTERVIEW_TEMPLATE_ID = 'standard';
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.45; // Word-set similarity at which two questions count as the same
+export const QUESTION_HISTORY_SESSIONS = 20; // Past sessions checked for repeated questions
+export const PROMPT_EXCLUDED_QUESTIONS = 15; // Most recent asked questions sent to the LLM; older repeats are filtered locally
+export const RETRY_MAX_SCORE = 2; // Past questions scoring at or below this can be asked again
+export const MAX_FOLLOW_UPS = 2; // Probing follow-ups per question
+export const FOLLOW_UP_MAX_SCORE = 3; // Answers scoring at or below this get a follow-up
+export const EVALUATION_MIN_CONFIDENCE = 0.6; // Grades below this are flagged as low confidence
 export const API_TIMEOUT_MS = 30000;
+export const INTERVIEW_ABANDON_TIMEOUT_MS = 2 * 60 * 60 * 1000; // In-progress sessions idle this long are abandoned
+export const INTERVIEW_HISTORY_LIMIT = 10; // Completed sessions listed in the lobby
 export const ALERT_DURATION_MS = 4000;
 export const QUESTION_GENERATION_TIMEOUT_MS = 20000;
 export const ANSWER_EVALUATION_TIMEOUT_MS = 15000;
-
-export const GEMINI_MODEL = 'gemini-2.5-flash-preview-09-2025';
-export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const CODE_EXECUTION_TIMEOUT_MS = 15000;
+export const JOB_DESCRIPTION_MAX_LENGTH = 10000; // Characters of a pasted or uploaded job description
 
 export const FIRESTORE_PATHS = {
   APP_ID: 'interview-navigator',
@@ -19,6 +40,7 @@ export const FIRESTORE_PATHS = {
   PROFILE: 'profile',
   SETTINGS: 'settings',
   INTERVIEWS: 'interviews',
+  RECORDINGS: 'recordings',
   BOOKINGS: 'bookings',
   NOTIFICATIONS: 'notifications',
   RATINGS: 'ratings',
@@ -67,12 +89,284 @@ export const ERROR_CODES = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
   TIMEOUT_ERROR: 'TIMEOUT_ERROR',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
 
+export const RUBRIC_DIMENSIONS: { key: RubricDimension; label: string }[] = [
+  { key: 'technicalAccuracy', label: 'Technical Accuracy' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'communication', label: 'Communication' },
+  { key: 'structure', label: 'Structure' },
+  { key: 'problemSolving', label: 'Problem Solving' },
+];
+
+// Weight of each rubric dimension in the overall score, per question type (each sums to 1)
+export const RUBRIC_WEIGHTS: Record<QuestionType, Record<RubricDimension, number>> = {
+  conceptual: { technicalAccuracy: 0.35, depth: 0.25, communication: 0.2, structure: 0.1, problemSolving: 0.1 },
+  coding: { technicalAccuracy: 0.45, depth: 0.1, communication: 0.1, structure: 0.1, problemSolving: 0.25 },
+  design: { technicalAccuracy: 0.2, depth: 0.25, communication: 0.15, structure: 0.15, problemSolving: 0.25 },
+  behavioral: { technicalAccuracy: 0.1, depth: 0.2, communication: 0.25, structure: 0.3, problemSolving: 0.15 },
+};
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'conceptual', label: 'Conceptual' },
+  { value: 'coding', label: 'Coding' },
+  { value: 'design', label: 'System design' },
+  { value: 'behavioral', label: 'Behavioral' },
+];
+
+// Interviewer-authored question sets
+export const MAX_QUESTION_SET_QUESTIONS = 10;
+export const DEFAULT_QUESTION_SET_TIME_LIMIT = 300; // Seconds per question
+// Rubric weight multipliers an author can put on a dimension
+export const GRADING_EMPHASIS_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.5, label: 'Less' },
+  { value: 1, label: 'Normal' },
+  { value: 1.25, label: 'More' },
+  { value: 1.5, label: 'Most' },
+];
+
+export const DEFAULT_INTERVIEW_LANGUAGE: InterviewLanguage = 'en';
+
+// Languages AI interviews can be held in. `speechLocale` is used for speech
+// recognition and voices unless the browser's own locale is a regional
+// variant of the language (es-MX, pt-BR, ...); `intro` opens the session.
+export const INTERVIEW_LANGUAGES: {
+  value: InterviewLanguage;
+  label: string;
+  speechLocale: string;
+  intro: string;
+}[] = [
+  {
+    value: 'en',
+    label: 'English',
+    speechLocale: 'en-US',
+    intro: "Please introduce yourself. Tell us about your background, experience with {skills}, and what you're looking to achieve in this role.",
+  },
+  {
+    value: 'es',
+    label: 'Español',
+    speechLocale: 'es-ES',
+    intro: 'Por favor, preséntate. Cuéntanos sobre tu trayectoria, tu experiencia con {skills} y qué buscas lograr en este puesto.',
+  },
+  {
+    value: 'fr',
+    label: 'Français',
+    speechLocale: 'fr-FR',
+    intro: 'Présentez-vous, s’il vous plaît. Parlez-nous de votre parcours, de votre expérience avec {skills} et de ce que vous souhaitez accomplir dans ce poste.',
+  },
+  {
+    value: 'de',
+    label: 'Deutsch',
+    speechLocale: 'de-DE',
+    intro: 'Bitte stellen Sie sich vor. Erzählen Sie uns von Ihrem Werdegang, Ihrer Erfahrung mit {skills} und was Sie in dieser Rolle erreichen möchten.',
+  },
+  {
+    value: 'pt',
+    label: 'Português',
+    speechLocale: 'pt-BR',
+    intro: 'Por favor, apresente-se. Conte-nos sobre sua trajetória, sua experiência com {skills} e o que você busca alcançar nesta função.',
+  },
+];
+
+export const DEFAULT_INTERVIEW_PERSONA: InterviewPersona = 'screener';
+
+// AI interviewer personas. Answers scoring at or below `followUpMaxScore` get
+// up to `maxFollowUps` follow-ups; question time limits are multiplied by
+// `timeFactor`. `voiceNames` are preferred English voices, in order.
+export const INTERVIEW_PERSONAS: {
+  value: InterviewPersona;
+  label: string;
+  description: string;
+  followUpMaxScore: number;
+  maxFollowUps: number;
+  timeFactor: number;
+  speechRate: number;
+  speechPitch: number;
+  voiceNames: string[];
+}[] = [
+  {
+    value: 'coach',
+    label: 'Friendly coach',
+    description: 'Warm and encouraging, with extra time and gentle follow-ups.',
+    followUpMaxScore: 2,
+    maxFollowUps: 1,
+    timeFactor: 1.25,
+    speechRate: 0.9,
+    speechPitch: 1.1,
+    voiceNames: ['Google UK English Female', 'Samantha', 'Google US English Female', 'Victoria'],
+  },
+  {
+    value: 'screener',
+    label: 'Neutral screener',
+    description: 'Even-toned and professional, like a typical phone screen.',
+    followUpMaxScore: FOLLOW_UP_MAX_SCORE,
+    maxFollowUps: MAX_FOLLOW_UPS,
+    timeFactor: 1,
+    speechRate: 0.95,
+    speechPitch: 1.0,
+    voiceNames: ['Google UK English Female', 'Google US English Female', 'Samantha', 'Victoria'],
+  },
+  {
+    value: 'bar-raiser',
+    label: 'Bar raiser',
+    description: 'Demanding and skeptical; probes anything short of an excellent answer.',
+    followUpMaxScore: 4,
+    maxFollowUps: 3,
+    timeFactor: 0.85,
+    speechRate: 1.0,
+    speechPitch: 0.9,
+    voiceNames: ['Google UK English Male', 'Daniel', 'Alex'],
+  },
+  {
+    value: 'rapid-fire',
+    label: 'Rapid fire',
+    description: 'Short, direct questions on tight time limits, with no follow-ups.',
+    followUpMaxScore: 0,
+    maxFollowUps: 0,
+    timeFactor: 0.5,
+    speechRate: 1.15,
+    speechPitch: 1.0,
+    voiceNames: ['Google US English', 'Alex', 'Samantha'],
+  },
+];
+
+export const INTERVIEW_TRACKS: { value: InterviewTrack; label: string }[] = [
+  { value: 'technical', label: 'Technical' },
+  { value: 'behavioral', label: 'Behavioral (STAR)' },
+];
+
+// AI interview formats; slots are asked in order after the optional intro
+export const INTERVIEW_TEMPLATES: InterviewTemplate[] = [
+  {
+    id: 'standard',
+    name: 'Standard practice',
+    description: 'Intro plus four mixed questions across your skills.',
+    durationMinutes: 25,
+    includeIntro: true,
+    introTimeLimitSeconds: 180,
+    questions: [
+      { type: 'conceptual', timeLimitSeconds: 300 },
+      { type: 'coding', timeLimitSeconds: 600 },
+      { type: 'conceptual', timeLimitSeconds: 300 },
+      { type: 'design', timeLimitSeconds: 420 },
+    ],
+  },
+  {
+    id: 'frontend-screen-30',
+    name: '30-min frontend screen',
+    description: 'JavaScript, React and browser fundamentals with one coding exercise.',
+    durationMinutes: 30,
+    includeIntro: true,
+    introTimeLimitSeconds: 120,
+    questions: [
+      { type: 'conceptual', category: 'JavaScript', timeLimitSeconds: 300 },
+      { type: 'conceptual', category: 'React', timeLimitSeconds: 300 },
+      { type: 'coding', category: 'JavaScript', timeLimitSeconds: 720 },
+      { type: 'conceptual', category: 'Browser & CSS', timeLimitSeconds: 300 },
+    ],
+  },
+  {
+    id: 'coding-45',
+    name: '45-min coding round',
+    description: 'Three hands-on coding problems, no intro.',
+    durationMinutes: 45,
+    includeIntro: false,
+    introTimeLimitSeconds: 0,
+    questions: [
+      { type: 'coding', timeLimitSeconds: 900 },
+      { type: 'coding', timeLimitSeconds: 900 },
+      { type: 'coding', timeLimitSeconds: 900 },
+    ],
+  },
+  {
+    id: 'system-design-60',
+    name: '60-min system design loop',
+    description: 'Two deep design problems and a distributed-systems follow-through.',
+    durationMinutes: 60,
+    includeIntro: true,
+    introTimeLimitSeconds: 180,
+    questions: [
+      { type: 'design', category: 'System Design', timeLimitSeconds: 1200 },
+      { type: 'design', category: 'System Design', timeLimitSeconds: 1200 },
+      { type: 'conceptual', category: 'Distributed Systems', timeLimitSeconds: 600 },
+    ],
+  },
+];
+
 export const SCORE_RANGES = {
   EXCELLENT: { min: 4, label: 'Excellent', color: '#16a34a' },
   GOOD: { min: 3, label: 'Good', color: '#0066cc' },
   FAIR: { min: 2, label: 'Fair', color: '#d97706' },
   POOR: { min: 1, label: 'Poor', color: '#dc2626' },
 } as const;
+
+// Technical skills recognized in resumes and job descriptions (matched case-insensitively)
+export const TECH_SKILL_KEYWORDS = [
+  'javascript', 'typescript', 'python', 'java', 'react', 'node.js', 'express', 'sql', 'mongodb',
+  'docker', 'kubernetes', 'aws', 'azure', 'gcp', 'rest api', 'graphql', 'git', 'ci/cd',
+  'html', 'css', 'vue.js', 'angular', 'next.js', 'postgresql', 'mysql', 'redis', 'rabbitmq',
+  'microservices', 'agile', 'scrum', 'testing', 'jest', 'webpack', 'npm', 'yarn', 'terraform',
+];
+
+export const JOB_SENIORITY_LEVELS: { value: JobSeniority; label: string }[] = [
+  { value: 'entry', label: 'Entry level' },
+  { value: 'mid', label: 'Mid level' },
+  { value: 'senior', label: 'Senior' },
+  { value: 'lead', label: 'Lead / Staff' },
+];
+
+// Share of a question's time limit below which an answer counts as rushed,
+// and above which it counts as long (timed-out answers are always long)
+export const RUSHED_TIME_RATIO = 0.25;
+export const LONG_TIME_RATIO = 0.9;
+
+// The backend's answer guard treats this text as an empty answer
+export const TIMED_OUT_ANSWER = '(No answer before the time limit)';
+
+// Hint tiers in the order they are offered. Using a tier caps the score of
+// the answer it helped with.
+export const HINT_LEVELS: { level: HintLevel; label: string; maxScore: number }[] = [
+  { level: 'nudge', label: 'Nudge', maxScore: 4 },
+  { level: 'approach', label: 'Approach', maxScore: 3 },
+  { level: 'partial', label: 'Partial solution', maxScore: 2 },
+];
+
+// Answer guard flags and the score each one caps the answer at (the same
+// caps as the backend's guard, which also skips grading empty and copied
+// answers)
+export const ANSWER_FLAGS: { flag: AnswerFlag; label: string; maxScore: number }[] = [
+  { flag: 'injection', label: 'Instructions to the grader', maxScore: 1 },
+  { flag: 'abusive', label: 'Abusive language', maxScore: 1 },
+  { flag: 'empty', label: 'No real answer', maxScore: 1 },
+  { flag: 'copied', label: 'Copied text', maxScore: 1 },
+  { flag: 'off-topic', label: 'Off topic', maxScore: 2 },
+];
+
+// Speech delivery analytics. A gap of LONG_PAUSE_MS or more between recognized
+// phrases counts as a long pause; speaking rates outside SPEAKING_PACE (words
+// per minute) are called out. Filler words and hedging phrases are English
+// only; other languages get pace, pause and talk-time figures.
+export const LONG_PAUSE_MS = 2500;
+export const SPEAKING_PACE = { min: 100, max: 180 } as const;
+export const SPEECH_FILLER_WORDS = [
+  'um', 'uh', 'uhm', 'umm', 'erm', 'er', 'ah', 'hmm',
+  'you know', 'i mean', 'basically', 'actually', 'literally', 'so yeah',
+];
+export const SPEECH_HEDGING_PHRASES = [
+  "i'm not sure", 'not sure', 'i think', 'i guess', 'i believe', 'i suppose',
+  'maybe', 'probably', 'perhaps', 'sort of', 'kind of', 'might be', 'could be',
+];
+
+// Session recordings. Bitrates keep an hour of video well under the 500MB
+// storage rule, which uploads are also checked against.
+export const RECORDING_BITRATES = {
+  video: { videoBitsPerSecond: 500_000, audioBitsPerSecond: 64_000 },
+  audio: { audioBitsPerSecond: 64_000 },
+} as const;
+export const MAX_RECORDING_BYTES = 500 * 1024 * 1024;
+export const RECORDING_MODES: { value: RecordingMode; label: string; description: string }[] = [
+  { value: 'session', label: 'Whole session', description: 'One recording, with a jump to each question' },
+  { value: 'clips', label: 'Each answer', description: 'A clip per answer, from question to submit' },
+];
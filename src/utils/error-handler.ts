@@ -63,6 +63,7 @@ export const getErrorMessage = (error: ApiError): string => {
     [ERROR_CODES.VALIDATION_ERROR]: 'Invalid input provided.',
     [ERROR_CODES.NETWORK_ERROR]: 'Network error. Please check your connection.',
     [ERROR_CODES.TIMEOUT_ERROR]: 'Request timed out. Please try again.',
+    [ERROR_CODES.QUOTA_EXCEEDED]: "You've used today's AI quota. It resets at midnight UTC.",
     [ERROR_CODES.UNKNOWN_ERROR]: 'An unexpected error occurred.',
   };
 
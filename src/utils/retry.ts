@@ -34,8 +34,9 @@ export async function withExponentialBackoff<T>(
     } catch (error) {
       lastError = error as Error;
 
-      const isRateLimited =
-        (error as any)?.status === 429 || (error as any)?.code === 'RATE_LIMITED';
+      // An exhausted daily quota also answers 429 but will not recover by waiting
+      const { status, code } = (error ?? {}) as { status?: number; code?: string };
+      const isRateLimited = (status === 429 || code === 'RATE_LIMITED') && code !== 'QUOTA_EXCEEDED';
 
       if (!isRateLimited || attempt === config.maxRetries - 1) {
         throw error;
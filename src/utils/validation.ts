@@ -4,7 +4,7 @@
  */
 
 import { z } from 'zod';
-import type { GeminiQuestionResponse, GeminiEvaluationResponse } from '../types';
+import type { CodingChallenge, GeminiQuestionResponse, GeminiEvaluationResponse } from '../types';
 
 export const userProfileSchema = z.object({
   id: z.string().min(1),
@@ -20,12 +20,33 @@ export const geminiQuestionSchema = z.object({
   question: z.string().min(10).max(1000),
   isCoding: z.boolean(),
   category: z.string().min(1).max(50),
+  type: z.enum(['conceptual', 'coding', 'design']).default('conceptual'),
+});
+
+export const rubricScoreSchema = z.object({
+  dimension: z.enum(['technicalAccuracy', 'depth', 'communication', 'structure', 'problemSolving']),
+  score: z.number().int().min(1).max(5),
+  justification: z.string().min(5).max(1000),
 });
 
 export const geminiEvaluationSchema = z.object({
   score: z.number().int().min(1).max(5),
   feedback: z.string().min(10).max(5000),
   improvementSuggestions: z.array(z.string().min(5)).min(3).max(5),
+  rubric: z
+    .array(rubricScoreSchema)
+    .min(1)
+    .max(5)
+    .refine((rubric) => new Set(rubric.map((r) => r.dimension)).size === rubric.length, {
+      message: 'Rubric dimensions must be unique',
+    }),
+  flags: z.array(z.enum(['injection', 'abusive', 'off-topic'])).optional(),
+});
+
+export const codingChallengeSchema = z.object({
+  id: z.string().min(1),
+  functionName: z.string().regex(/^[A-Za-z_$][\w$]{0,63}$/),
+  testCount: z.number().int().min(1).max(20),
 });
 
 export const validateQuestion = (
@@ -39,3 +60,9 @@ export const validateEvaluation = (
 ): GeminiEvaluationResponse => {
   return geminiEvaluationSchema.parse(data);
 };
+
+export const validateChallenge = (
+  data: unknown
+): CodingChallenge => {
+  return codingChallengeSchema.parse(data);
+};
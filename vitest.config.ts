@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the web app's pure services; the Firestore rules tests in
+// tests/ run under jest against the emulator
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})